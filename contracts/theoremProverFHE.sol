@@ -1,10 +1,11 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, ebool, externalEuint32, externalEuint64, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract TheoremProverFHE is SepoliaConfig {
     using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
     address public owner;
@@ -25,9 +26,46 @@ contract TheoremProverFHE is SepoliaConfig {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        // Handles submitted for decryption, in request order; the callback hashes these
+        euint32 proofId;
+        ebool hasProof;
+        uint256 submissionId;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
+    enum SubmissionStatus {
+        None,
+        Searching,
+        Completed
+    }
+
+    struct TheoremSubmission {
+        uint256 id;
+        address submitter;
+        uint256 batchId;
+        uint32 theoremId;
+        bytes32 encryptedTheoremHash;
+        // Program words followed by the bool lane, as accepted from the input proof
+        bytes32[] handles;
+        SubmissionStatus status;
+        uint256 requestId;
+        // Encrypted search result; the submitter may user-decrypt both
+        euint32 proofId;
+        ebool hasProof;
+        // Cleartexts delivered by the decryption oracle once status is Completed
+        uint32 revealedProofId;
+        bool revealedHasProof;
+        uint64 submittedAt;
+        uint64 completedAt;
+    }
+    // Ids start at 1; submissions[0] stays empty
+    uint256 public submissionCount;
+    mapping(uint256 => TheoremSubmission) private submissions;
+    mapping(address => uint256[]) private submissionsBySubmitter;
+    mapping(uint256 => uint256) public submissionOfRequest;
+
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
@@ -39,6 +77,8 @@ contract TheoremProverFHE is SepoliaConfig {
     event TheoremSubmitted(address indexed provider, uint256 indexed batchId, bytes32 encryptedTheoremHash);
     event ProofSearchInitiated(uint256 indexed requestId, uint256 indexed batchId);
     event ProofSearchCompleted(uint256 indexed requestId, uint256 indexed batchId, bool hasProof, uint32 proofId);
+    event WitnessStored(address indexed provider, address indexed recipient, bytes32 witnessHash);
+    event TheoremTextStored(address indexed owner, bytes32 textHash);
 
     error NotOwner();
     error NotProvider();
@@ -47,7 +87,11 @@ contract TheoremProverFHE is SepoliaConfig {
     error BatchNotActive();
     error ReplayAttempt();
     error StateMismatch();
-    error InvalidProof();
+    error InvalidProgramLength();
+    error UnknownSubmission();
+    error InvalidWitnessLength();
+    error InvalidTextLength();
+    error SearchNotPending();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -78,6 +122,15 @@ contract TheoremProverFHE is SepoliaConfig {
         _;
     }
 
+    // Must match PROGRAM_WIDTH / BOOL_LANE_WIDTH of the frontend descriptor compiler
+    uint256 public constant PROGRAM_WIDTH = 48;
+    uint256 public constant BOOL_LANE_WIDTH = 8;
+    uint256 public constant MAX_WITNESS_WIDTH = 256;
+    // One input proof covers 2048 bits, i.e. 64 euint32 words. Each word costs ~120k gas in
+    // fromExternal and ACL grants, so a theorem text is capped at three proofs (768 bytes)
+    uint256 public constant MAX_TEXT_CHUNK_WORDS = 64;
+    uint256 public constant MAX_TEXT_WORDS = 192;
+
     constructor() {
         owner = msg.sender;
         isProvider[msg.sender] = true;
@@ -132,40 +185,192 @@ contract TheoremProverFHE is SepoliaConfig {
         _closeBatch(currentBatchId);
     }
 
-    function submitEncryptedTheorem(euint32 encryptedTheorem, uint32 theoremId) public onlyProvider whenNotPaused submissionCooldown(msg.sender) {
-        _requireInitialized(encryptedTheorem);
+    /// @param programInput Compiled theorem words (opcodes, constants, variable slots)
+    /// @param boolInput Boolean constant lane of the compiled theorem
+    /// @param inputProof Relayer input proof covering every handle in both arrays
+    function submitEncryptedTheorem(
+        externalEuint32[] calldata programInput,
+        externalEbool[] calldata boolInput,
+        bytes calldata inputProof,
+        uint32 theoremId
+    ) public onlyProvider whenNotPaused submissionCooldown(msg.sender) {
+        if (programInput.length != PROGRAM_WIDTH || boolInput.length != BOOL_LANE_WIDTH) revert InvalidProgramLength();
         if (!batches[currentBatchId].isActive) revert BatchNotActive();
 
+        bytes32[] memory handles = new bytes32[](PROGRAM_WIDTH + BOOL_LANE_WIDTH);
+        euint32 header;
+        for (uint256 i = 0; i < PROGRAM_WIDTH; i++) {
+            // Verifies the relayer input proof, which binds the ciphertext to this contract and msg.sender
+            euint32 programWord = FHE.fromExternal(programInput[i], inputProof);
+            _requireInitialized(programWord);
+            FHE.allowThis(programWord);
+            // Lets the submitter user-decrypt their own program to check the round trip
+            FHE.allow(programWord, msg.sender);
+            handles[i] = programWord.toBytes32();
+            if (i == 0) header = programWord;
+        }
+        for (uint256 i = 0; i < BOOL_LANE_WIDTH; i++) {
+            ebool flag = FHE.fromExternal(boolInput[i], inputProof);
+            _requireInitialized(flag);
+            FHE.allowThis(flag);
+            FHE.allow(flag, msg.sender);
+            handles[PROGRAM_WIDTH + i] = flag.toBytes32();
+        }
+
         lastSubmissionTime[msg.sender] = block.timestamp;
-        bytes32 encryptedTheoremHash = keccak256(encryptedTheorem.toBytes32());
+        bytes32 encryptedTheoremHash = keccak256(abi.encodePacked(handles));
+
+        uint256 submissionId = ++submissionCount;
+        TheoremSubmission storage submission = submissions[submissionId];
+        submission.id = submissionId;
+        submission.submitter = msg.sender;
+        submission.batchId = currentBatchId;
+        submission.theoremId = theoremId;
+        submission.encryptedTheoremHash = encryptedTheoremHash;
+        submission.handles = handles;
+        submission.submittedAt = uint64(block.timestamp);
+        submissionsBySubmitter[msg.sender].push(submissionId);
         emit TheoremSubmitted(msg.sender, currentBatchId, encryptedTheoremHash);
 
-        _searchForProof(encryptedTheorem, theoremId);
+        _searchForProof(header, submissionId);
+    }
+
+    /// @notice Ask the decryption oracle again for the result of a submission that is still
+    /// Searching, e.g. when its first request was never answered. Whichever request is
+    /// answered first completes the submission; later answers are accepted without effect.
+    /// @param submissionId Submission to retry; the sender must be its submitter or a provider
+    function requestProofSearch(
+        uint256 submissionId
+    ) public whenNotPaused decryptionRequestCooldown(msg.sender) returns (uint256 requestId) {
+        if (submissionId == 0 || submissionId > submissionCount) revert UnknownSubmission();
+        TheoremSubmission storage submission = submissions[submissionId];
+        if (msg.sender != submission.submitter && !isProvider[msg.sender]) revert NotProvider();
+        if (submission.status != SubmissionStatus.Searching) revert SearchNotPending();
+        requestId = _requestProofDecryption(submissionId, msg.sender);
+    }
+
+    /// @notice Accept the sender's encrypted theorem text (name, description, statement packed
+    /// into euint32 words) and grant user decryption of it to the sender alone.
+    /// @param chunks Words of each encrypted input, in text order
+    /// @param inputProofs Relayer input proof of each chunk
+    function storeEncryptedTheorem(
+        externalEuint32[][] calldata chunks,
+        bytes[] calldata inputProofs
+    ) public whenNotPaused returns (bytes32 textHash) {
+        if (chunks.length == 0 || chunks.length != inputProofs.length) revert InvalidTextLength();
+        uint256 width = 0;
+        for (uint256 c = 0; c < chunks.length; c++) {
+            if (chunks[c].length == 0 || chunks[c].length > MAX_TEXT_CHUNK_WORDS) revert InvalidTextLength();
+            width += chunks[c].length;
+        }
+        if (width > MAX_TEXT_WORDS) revert InvalidTextLength();
+
+        bytes32[] memory handles = new bytes32[](width);
+        uint256 next = 0;
+        for (uint256 c = 0; c < chunks.length; c++) {
+            for (uint256 i = 0; i < chunks[c].length; i++) {
+                euint32 word = FHE.fromExternal(chunks[c][i], inputProofs[c]);
+                _requireInitialized(word);
+                FHE.allowThis(word);
+                FHE.allow(word, msg.sender);
+                handles[next++] = word.toBytes32();
+            }
+        }
+        textHash = keccak256(abi.encodePacked(handles));
+        emit TheoremTextStored(msg.sender, textHash);
+    }
+
+    /// @notice Accept an encrypted counterexample and grant user decryption to `recipient` alone.
+    /// Providers store witnesses for any owner; anyone else only for themselves.
+    /// @param recipient Owner of the disproved theorem
+    /// @param valueInput Integer binder values, two's complement for ℤ
+    /// @param flagInput Bool binder values
+    /// @param inputProof Relayer input proof covering every handle in both arrays
+    function storeWitness(
+        address recipient,
+        externalEuint64[] calldata valueInput,
+        externalEbool[] calldata flagInput,
+        bytes calldata inputProof
+    ) public whenNotPaused {
+        if (recipient != msg.sender && !isProvider[msg.sender]) revert NotProvider();
+        uint256 width = valueInput.length + flagInput.length;
+        if (width == 0 || width > MAX_WITNESS_WIDTH) revert InvalidWitnessLength();
+
+        bytes32[] memory handles = new bytes32[](width);
+        for (uint256 i = 0; i < valueInput.length; i++) {
+            euint64 value = FHE.fromExternal(valueInput[i], inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, recipient);
+            handles[i] = value.toBytes32();
+        }
+        for (uint256 i = 0; i < flagInput.length; i++) {
+            ebool flag = FHE.fromExternal(flagInput[i], inputProof);
+            FHE.allowThis(flag);
+            FHE.allow(flag, recipient);
+            handles[valueInput.length + i] = flag.toBytes32();
+        }
+        emit WitnessStored(msg.sender, recipient, keccak256(abi.encodePacked(handles)));
+    }
+
+    function getSubmission(uint256 submissionId) public view returns (TheoremSubmission memory) {
+        if (submissionId == 0 || submissionId > submissionCount) revert UnknownSubmission();
+        return submissions[submissionId];
+    }
+
+    /// @notice Submissions in id order, starting at index `offset` (id offset + 1)
+    /// @param limit Page size, capped at MAX_PAGE_SIZE; the page is shorter at the end
+    function getSubmissions(uint256 offset, uint256 limit) public view returns (TheoremSubmission[] memory page) {
+        uint256 count = _pageLength(submissionCount, offset, limit);
+        page = new TheoremSubmission[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = submissions[offset + i + 1];
+        }
+    }
+
+    function submitterSubmissionCount(address submitter) public view returns (uint256) {
+        return submissionsBySubmitter[submitter].length;
+    }
+
+    function getSubmissionsBySubmitter(
+        address submitter,
+        uint256 offset,
+        uint256 limit
+    ) public view returns (TheoremSubmission[] memory page) {
+        uint256[] storage ids = submissionsBySubmitter[submitter];
+        uint256 count = _pageLength(ids.length, offset, limit);
+        page = new TheoremSubmission[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = submissions[ids[offset + i]];
+        }
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
         if (decryptionContexts[requestId].processed) revert ReplayAttempt();
 
-        // Rebuild ciphertexts array in the exact same order as during requestDecryption
-        // For this contract, it's always one euint32 (proofId) and one ebool (hasProof)
-        euint32 proofId_e = FHE.asEuint32(0); // Placeholder, actual ciphertexts should be fetched from storage if needed
-        ebool hasProof_e = FHE.asEbool(false); // Placeholder
-
+        // Rebuild the ciphertexts array from the stored handles, in requestDecryption order
+        DecryptionContext storage context = decryptionContexts[requestId];
         bytes32[] memory cts = new bytes32[](2);
-        cts[0] = proofId_e.toBytes32();
-        cts[1] = hasProof_e.toBytes32();
+        cts[0] = context.proofId.toBytes32();
+        cts[1] = context.hasProof.toBytes32();
 
         bytes32 currentHash = _hashCiphertexts(cts);
-        if (currentHash != decryptionContexts[requestId].stateHash) revert StateMismatch();
+        if (currentHash != context.stateHash) revert StateMismatch();
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) revert InvalidProof();
+        // Reverts with InvalidKMSSignatures if the proof does not cover these cleartexts
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
         // Decode cleartexts in the same order: proofId (uint32), hasProof (bool)
-        uint32 proofId = abi.decode(cleartexts, (uint32));
-        bool hasProof = abi.decode(cleartexts, (uint32, bool))[1];
-
-        decryptionContexts[requestId].processed = true;
-        emit ProofSearchCompleted(requestId, decryptionContexts[requestId].batchId, hasProof, proofId);
+        (uint32 proofId, bool hasProof) = abi.decode(cleartexts, (uint32, bool));
+
+        context.processed = true;
+        TheoremSubmission storage submission = submissions[context.submissionId];
+        // Answer to a retried request whose submission another request already completed
+        if (submission.status == SubmissionStatus.Completed) return;
+        submission.status = SubmissionStatus.Completed;
+        submission.revealedProofId = proofId;
+        submission.revealedHasProof = hasProof;
+        submission.completedAt = uint64(block.timestamp);
+        emit ProofSearchCompleted(requestId, context.batchId, hasProof, proofId);
     }
 
     function _openBatch(uint256 batchId) internal {
@@ -178,14 +383,14 @@ contract TheoremProverFHE is SepoliaConfig {
         emit BatchClosed(batchId);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256) {
+        if (offset >= total) return 0;
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        return total - offset < limit ? total - offset : limit;
     }
 
-    function _initIfNeeded(euint32 value) internal {
-        if (!value.isInitialized()) {
-            value.init();
-        }
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
     }
 
     function _requireInitialized(euint32 value) internal pure {
@@ -196,8 +401,10 @@ contract TheoremProverFHE is SepoliaConfig {
         if (!value.isInitialized()) revert("FHE value not initialized");
     }
 
-    function _searchForProof(euint32 encryptedTheorem, uint32 theoremId) internal {
-        _initIfNeeded(encryptedTheorem);
+    function _searchForProof(euint32 encryptedTheorem, uint256 submissionId) internal {
+        _requireInitialized(encryptedTheorem);
+        TheoremSubmission storage submission = submissions[submissionId];
+        uint32 theoremId = submission.theoremId;
 
         // Simulate FHE computation for proof search.
         // In a real scenario, this would be a complex encrypted logic.
@@ -205,23 +412,41 @@ contract TheoremProverFHE is SepoliaConfig {
         ebool hasProof_e = FHE.asEbool(theoremId % 2 == 0); // Example logic
         euint32 proofId_e = FHE.asEuint32(theoremId + 1000); // Example logic
 
-        _initIfNeeded(hasProof_e);
-        _initIfNeeded(proofId_e);
+        // Stored handles must stay usable by this contract until the callback
+        FHE.allowThis(hasProof_e);
+        FHE.allowThis(proofId_e);
+        FHE.allow(hasProof_e, submission.submitter);
+        FHE.allow(proofId_e, submission.submitter);
+
+        submission.status = SubmissionStatus.Searching;
+        submission.proofId = proofId_e;
+        submission.hasProof = hasProof_e;
+        _requestProofDecryption(submissionId, tx.origin); // Cooldown for the user initiating the request
+    }
 
+    // Sends the submission's encrypted result to the decryption oracle; the submission's
+    // requestId becomes the latest request
+    function _requestProofDecryption(uint256 submissionId, address requester) internal returns (uint256 requestId) {
+        TheoremSubmission storage submission = submissions[submissionId];
         bytes32[] memory cts = new bytes32[](2);
-        cts[0] = proofId_e.toBytes32();
-        cts[1] = hasProof_e.toBytes32();
+        cts[0] = submission.proofId.toBytes32();
+        cts[1] = submission.hasProof.toBytes32();
 
         bytes32 stateHash = _hashCiphertexts(cts);
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+        requestId = FHE.requestDecryption(cts, this.myCallback.selector);
 
         decryptionContexts[requestId] = DecryptionContext({
-            batchId: currentBatchId,
+            batchId: submission.batchId,
             stateHash: stateHash,
-            processed: false
+            processed: false,
+            proofId: submission.proofId,
+            hasProof: submission.hasProof,
+            submissionId: submissionId
         });
-        lastDecryptionRequestTime[tx.origin] = block.timestamp; // Cooldown for the user initiating the request
+        submission.requestId = requestId;
+        submissionOfRequest[requestId] = submissionId;
+        lastDecryptionRequestTime[requester] = block.timestamp;
 
-        emit ProofSearchInitiated(requestId, currentBatchId);
+        emit ProofSearchInitiated(requestId, submission.batchId);
     }
 }
\ No newline at end of file
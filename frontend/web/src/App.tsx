@@ -1,138 +1,264 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  activeNetwork,
+  deploymentConfig,
+  getContractReadOnly,
+  getContractWithSigner,
+  getProverContractReadOnly,
+  getProverContractWithSigner,
+  requireProverAddress,
+  selectNetwork
+} from "./contract";
+import { DeploymentMismatchError } from "./deployment";
+import { OnChainSubmission, submissionIdOf } from "./submissions";
+import { StoredTheoremEntry, TheoremCursor } from "./store/theoremStore";
+import { StoredTheorem, TheoremStatement, encodeRecord, parseRecord, recordStatement } from "./store/recordSchema";
+import { loadStatements, localStatement, newSalt, saveStatement } from "./store/statements";
+import { CachedTheorems, extendTheoremCache, readTheoremCache, syncTheoremCache } from "./store/theoremCache";
+import { QueuedDraft, TheoremDraft, listDrafts, markInterruptedDrafts, queueDraft, removeDraft, updateDraft } from "./store/drafts";
+import {
+  EncryptedProgram,
+  EncryptedTheorem,
+  EncryptedWitness,
+  browserWitnessVault,
+  decryptProgram,
+  decryptTheorem,
+  decryptWitness,
+  encryptProgram,
+  encryptTheorem,
+  storeEncryptedTheorem,
+  theoremHandles
+} from "./fhe";
+import {
+  Diagnostic,
+  StatementSyntax,
+  TheoremDescriptor,
+  compileTheorem,
+  matchesProgram,
+  printLatex,
+  printTheorem,
+  validateTheorem
+} from "./descriptor";
+import { SearchResult, describeSearchResult, universalPrefix } from "./prover/search";
+import { isPropositional, negatedCnf } from "./prover/sat/tseitin";
+import { proveInWorker } from "./prover/client";
+import { ProgressEvent, describeProgress } from "./prover/progress";
+import { proofMilestone, proofResultFields, proverTheoremId, submissionKey } from "./prover/record";
+import { proverRequest } from "./prover/engines";
+import { ProofCertificate, decodeCertificate, describeCertificate, hashCertificate } from "./prover/certificate";
+import { loadCertificate, verifyCertificate } from "./prover/certify";
+import { ProofGraph, proofGraph } from "./prover/proofGraph";
+import { CounterexampleWitness, storeWitness, witnessOf } from "./prover/witness";
+import { DimacsError, StoredCnf, loadCnf, parseDimacs, storeCnf, toDimacs } from "./formats/dimacs";
+import { downloadText, fileStem } from "./formats/download";
+import { parseTptp, printTptp, printTptpCnf } from "./formats/tptp";
+import { TPTP_SAMPLES } from "./formats/tptpSamples";
+import { printSmtLib } from "./formats/smtlib";
+import { printLatexDocument } from "./formats/latex";
+import DratTraceViewer from "./components/DratTraceViewer";
+import ProofProgress from "./components/ProofProgress";
+import WitnessExplanation from "./components/WitnessExplanation";
+import ProofGraphView from "./components/ProofGraphView";
+import Formula from "./components/Formula";
+import MathText from "./components/MathText";
+import TheoremEditor from "./components/TheoremEditor";
 import "./App.css";
 import { useAccount, useSignMessage } from 'wagmi';
 
-interface TheoremRecord {
+// A stored record (see store/recordSchema.ts) as the list shows it, with its statement when
+// the record published it or this browser holds it
+interface TheoremRecord extends Omit<StoredTheorem, "schemaVersion">, TheoremStatement {
   id: string;
-  encryptedTheorem: string;
-  proofStatus: "pending" | "proving" | "proved" | "disproved" | "error";
-  timestamp: number;
-  owner: string;
-  theoremName: string;
-  category: string;
-  proofSteps?: number;
-  currentStep?: number;
+  // TheoremProverFHE's record of the submission; absent for theorems that never reached it
+  submission?: OnChainSubmission;
 }
 
-// FHE Encryption/Decryption simulation for numerical theorem data
-const FHEEncryptTheorem = (theoremData: string): string => {
-  // Encode theorem description and numerical parameters
-  const encoded = btoa(theoremData);
-  return `FHE-THM-${encoded}`;
-};
+const toTheoremRecord = (id: string, data: StoredTheorem, statement: TheoremStatement | null): TheoremRecord => ({ ...data, ...statement, id });
 
-const FHEDecryptTheorem = (encryptedData: string): string => {
-  if (encryptedData.startsWith('FHE-THM-')) {
-    return atob(encryptedData.substring(8));
-  }
-  return encryptedData;
-};
+// Stand-in for a submission whose adapter record is missing (not written yet, or another client)
+const submissionOnlyRecord = (id: string, submission: OnChainSubmission): TheoremRecord => ({
+  id,
+  encryptedTheorem: "",
+  proofStatus: "pending",
+  timestamp: submission.submittedAt,
+  owner: submission.submitter,
+  theoremName: `Submission #${submission.submissionId}`,
+  category: "Unknown",
+  submission
+});
 
-// Simulate FHE-based theorem proving
-const FHEProveTheorem = (encryptedTheorem: string): { status: string; steps?: number } => {
-  // Simulate FHE computation on encrypted data
-  const theoremData = FHEDecryptTheorem(encryptedTheorem);
-  const complexity = theoremData.length % 5 + 1; // Random complexity 1-5
-  
-  // Simulate proving process with random outcome
-  const success = Math.random() > 0.3;
-  const steps = Math.floor(Math.random() * 50) + 10;
-  
-  return {
-    status: success ? "proved" : "disproved",
-    steps: steps
-  };
+// Plaintext that gets packed into euint32 words and encrypted for TheoremProverFHE: only the
+// statement, with its salt so the owner can recover it (decryptStatement). Every word costs
+// about 120k gas (fhe.ts), so the name, category and description go into the record instead
+const theoremPayload = (theorem: TheoremDraft): string =>
+  JSON.stringify({
+    statement: theorem.statement,
+    syntax: theorem.syntax ?? "tdl",
+    salt: theorem.salt
+  });
+
+// Descriptions are stored in the record in the clear, at about 20k gas per 32 bytes
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const toDescriptor = (source: string, syntax: StatementSyntax | undefined, ast: TheoremDescriptor["ast"]): TheoremDescriptor =>
+  syntax === "latex" ? { source, ast, syntax: "latex" } : { source, ast };
+
+// A fresh draft; its salt stays the same until submission so the preview can be reused
+const emptyDraft = (): TheoremDraft => ({ name: "", category: "Number Theory", description: "", statement: "", syntax: "tdl", cnf: null, salt: newSalt() });
+
+interface EncryptionPreview {
+  payload: string;
+  status: "encrypting" | "ready" | "error";
+  encrypted?: EncryptedTheorem;
+  error?: string;
+}
+
+// Witnesses readable without decryption: a counterexample kept in the clear by an older
+// record, or the empty witness of a disproved statement without ∀ binders
+const plainWitness = (theorem: TheoremRecord): CounterexampleWitness | null => {
+  if (theorem.proofStatus !== "disproved" || !theorem.searchResult) return null;
+  const ast = theorem.descriptor?.ast ?? null;
+  try {
+    return witnessOf(theorem.searchResult, ast) ?? (ast && universalPrefix(ast).binders.length === 0 ? { bindings: [] } : null);
+  } catch {
+    return null;
+  }
 };
 
 const generateProofKey = () => `0x${Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId } = useAccount();
   const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [theorems, setTheorems] = useState<TheoremRecord[]>([]);
+  const [theoremCursor, setTheoremCursor] = useState<TheoremCursor | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [provingTheorems, setProvingTheorems] = useState<Set<string>>(new Set());
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newTheorem, setNewTheorem] = useState({ name: "", category: "Number Theory", description: "", parameters: "" });
-  const [currentStep, setCurrentStep] = useState(0);
+  const [newTheorem, setNewTheorem] = useState<TheoremDraft>(emptyDraft);
+  // Live engine progress of searches running in this tab, by theorem id
+  const [liveProgress, setLiveProgress] = useState<Record<string, ProgressEvent>>({});
+  // Decrypted counterexamples stay in memory for this session only
+  const [revealedWitnesses, setRevealedWitnesses] = useState<Record<string, CounterexampleWitness>>({});
   const [proofKey, setProofKey] = useState<string>("");
   const [showProofVisualization, setShowProofVisualization] = useState(false);
   const [selectedTheorem, setSelectedTheorem] = useState<TheoremRecord | null>(null);
+  const [encryptionPreview, setEncryptionPreview] = useState<EncryptionPreview | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [drafts, setDrafts] = useState<QueuedDraft[]>([]);
+  const [quarantined, setQuarantined] = useState<StoredTheoremEntry[]>([]);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  // Set when the selected chain has no deployment or it does not match this build's ABIs
+  const [deploymentError, setDeploymentError] = useState<string | null>(null);
+  const submittingDrafts = useRef(false);
 
   // Theorem proof status counts
   const provedCount = theorems.filter(t => t.proofStatus === "proved").length;
   const disprovedCount = theorems.filter(t => t.proofStatus === "disproved").length;
+  const boundedCount = theorems.filter(t => t.proofStatus === "bounded").length;
   const provingCount = theorems.filter(t => t.proofStatus === "proving").length;
   const pendingCount = theorems.filter(t => t.proofStatus === "pending").length;
 
   useEffect(() => {
-    loadTheorems().finally(() => setLoading(false));
+    markInterruptedDrafts().catch(e => console.error("Error checking drafts:", e)).finally(loadDrafts);
     setProofKey(generateProofKey());
+
+    const goOnline = () => {
+      setOnline(true);
+      loadTheorems();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
   }, []);
 
-  // Load theorems from contract
+  // Read from the wallet's chain, or the default one until a wallet is connected
+  useEffect(() => {
+    selectNetwork(chainId ?? deploymentConfig.defaultChainId);
+    setTheorems([]);
+    setQuarantined([]);
+    setTheoremCursor(null);
+    setDeploymentError(null);
+    loadTheorems().finally(() => setLoading(false));
+  }, [chainId]);
+
+  // Submit drafts written offline once there is a network and a wallet to sign with
+  useEffect(() => {
+    if (online && isConnected) submitQueuedDrafts();
+  }, [online, isConnected, address]);
+
+  // Encrypt the draft in the background so the preview shows the real ciphertext handles
+  useEffect(() => {
+    if (!showCreateModal || !address || !newTheorem.statement) {
+      setEncryptionPreview(null);
+      return;
+    }
+    const payload = theoremPayload(newTheorem);
+    if (encryptionPreview?.payload === payload) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setEncryptionPreview({ payload, status: "encrypting" });
+      try {
+        const encrypted = await encryptTheorem(payload, requireProverAddress(), address);
+        if (!cancelled) setEncryptionPreview({ payload, status: "ready", encrypted });
+      } catch (e: any) {
+        if (!cancelled) setEncryptionPreview({ payload, status: "error", error: e.message || "Encryption failed" });
+      }
+    }, 800);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showCreateModal, address, newTheorem]);
+
+  const toRecord = ({ id, data, submission }: StoredTheoremEntry, statements: Record<string, TheoremStatement>): TheoremRecord =>
+    data
+      ? { ...toTheoremRecord(id, data, recordStatement(data, data.statementHash ? statements[data.statementHash] : null)), submission }
+      : submissionOnlyRecord(id, submission!);
+
+  const showTheorems = async (cache: CachedTheorems) => {
+    const statements = await loadStatements(cache.entries.flatMap(entry => entry.data?.statementHash ?? [])).catch(e => {
+      console.error("Error loading statements:", e);
+      return {};
+    });
+    setTheorems(
+      cache.entries
+        .filter(entry => entry.data || entry.submission)
+        .map(entry => toRecord(entry, statements))
+        .sort((a, b) => b.timestamp - a.timestamp)
+    );
+    setQuarantined(cache.entries.filter(entry => entry.quarantine));
+    setTheoremCursor(cache.cursor);
+  };
+
+  // Show the IndexedDB cache at once, then catch up with the chain when online
   const loadTheorems = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.log("Contract not available");
-        return;
-      }
-
-      // Load theorem IDs
-      const keysBytes = await contract.getData("theorem_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { 
-          console.error("Error parsing theorem keys:", e); 
-        }
+      const cached = await readTheoremCache(activeNetwork().contractAddress);
+      if (cached) {
+        await showTheorems(cached);
+        setLoading(false);
       }
+      if (!navigator.onLine) return;
 
-      const theoremList: TheoremRecord[] = [];
-      for (const key of keys) {
-        try {
-          const theoremBytes = await contract.getData(`theorem_${key}`);
-          if (theoremBytes.length > 0) {
-            try {
-              const theoremData = JSON.parse(ethers.toUtf8String(theoremBytes));
-              theoremList.push({
-                id: key,
-                encryptedTheorem: theoremData.encryptedTheorem,
-                proofStatus: theoremData.proofStatus || "pending",
-                timestamp: theoremData.timestamp,
-                owner: theoremData.owner,
-                theoremName: theoremData.theoremName,
-                category: theoremData.category,
-                proofSteps: theoremData.proofSteps,
-                currentStep: theoremData.currentStep
-              });
-            } catch (e) { 
-              console.error(`Error parsing theorem data for ${key}:`, e); 
-            }
-          }
-        } catch (e) { 
-          console.error(`Error loading theorem ${key}:`, e); 
-        }
-      }
-      
-      theoremList.sort((a, b) => b.timestamp - a.timestamp);
-      setTheorems(theoremList);
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const prover = await getProverContractReadOnly();
+      await showTheorems(await syncTheoremCache(contract, prover, { fromBlock: activeNetwork().adapterDeployBlock }));
     } catch (e) { 
+      if (e instanceof DeploymentMismatchError) setDeploymentError(e.message);
       console.error("Error loading theorems:", e); 
     } finally { 
       setIsRefreshing(false);
@@ -140,8 +266,95 @@ const App: React.FC = () => {
     }
   };
 
+  const loadMoreTheorems = async () => {
+    setIsRefreshing(true);
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const prover = await getProverContractReadOnly();
+      await showTheorems(await extendTheoremCache(contract, prover, { fromBlock: activeNetwork().adapterDeployBlock }));
+    } catch (e) {
+      if (e instanceof DeploymentMismatchError) setDeploymentError(e.message);
+      console.error("Error loading more theorems:", e);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  // Encrypt a draft and register the ciphertexts with TheoremProverFHE, submit its program
+  // when it has a formal statement, and store the record
+  const submitDraft = async (queued: TheoremDraft, preview?: EncryptedTheorem) => {
+    // Drafts queued before statements were salted get their salt now
+    const draft = queued.salt ? queued : { ...queued, salt: newSalt() };
+    let descriptor: TheoremDescriptor | undefined;
+    if (draft.statement.trim()) {
+      const { ast, diagnostics } = validateTheorem(draft.statement, draft.syntax);
+      if (!ast) throw new Error(`Invalid theorem statement: ${diagnostics[0].message}`);
+      descriptor = toDescriptor(draft.statement, draft.syntax, ast);
+    }
+    // The statement stays in this browser and the record only gets its hash. It is saved
+    // before anything is sent, so a half-finished submission cannot lose it.
+    const statementHash =
+      descriptor || draft.cnf
+        ? await saveStatement({ salt: draft.salt, descriptor, cnf: draft.cnf ? await storeCnf(draft.cnf) : undefined })
+        : undefined;
+
+    const proverAddress = requireProverAddress();
+    const contract = await getContractWithSigner();
+    if (!contract) throw new Error("Failed to get contract with signer");
+    const prover = await getProverContractWithSigner();
+
+    setTransactionStatus({ visible: true, status: "pending", message: "Storing the encrypted theorem with TheoremProverFHE..." });
+    const encryptedTheorem = await storeEncryptedTheorem(
+      prover,
+      preview ?? await encryptTheorem(theoremPayload(draft), proverAddress, address!)
+    );
+
+    // Draft id; submissions to TheoremProverFHE are re-keyed by their on-chain id below
+    let theoremId = `thm-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    // Submit the compiled program as euint32/ebool ciphertexts to TheoremProverFHE
+    let encryptedProgram: EncryptedProgram | undefined;
+    let submissionTx: string | undefined;
+    if (descriptor) {
+      setTransactionStatus({ visible: true, status: "pending", message: "Compiling and encrypting theorem program..." });
+      encryptedProgram = await encryptProgram(compileTheorem(descriptor.ast), proverAddress, address!);
+      const tx = await prover.submitEncryptedTheorem(
+        encryptedProgram.wordHandles,
+        encryptedProgram.boolHandles,
+        encryptedProgram.inputProof,
+        proverTheoremId(theoremId)
+      );
+      const receipt = await tx.wait();
+      submissionTx = tx.hash;
+      theoremId = submissionKey(proverAddress, await submissionIdOf(prover, receipt));
+    }
+
+    // Store theorem data
+    const theoremRecord: Omit<StoredTheorem, "schemaVersion"> = {
+      encryptedTheorem: encryptedTheorem,
+      proofStatus: "pending",
+      timestamp: Math.floor(Date.now() / 1000),
+      owner: address!,
+      theoremName: draft.name,
+      category: draft.category,
+      description: draft.description,
+      statementHash,
+      encryptedProgram,
+      submissionTx
+    };
+
+    // Off-chain records are listed from the adapter's DataStored log, so wait for the write to land
+    const stored = await contract.setData(`theorem_${theoremId}`, encodeRecord(theoremRecord));
+    await stored.wait();
+  };
+
   // Submit new theorem for proving
   const submitTheorem = async () => {
+    if (!online) {
+      await saveDraftOffline();
+      return;
+    }
     if (!isConnected) { 
       alert("Please connect wallet first"); 
       return; 
@@ -155,45 +368,9 @@ const App: React.FC = () => {
     });
 
     try {
-      // Encrypt theorem data using FHE simulation
-      const theoremData = JSON.stringify({
-        name: newTheorem.name,
-        description: newTheorem.description,
-        parameters: newTheorem.parameters,
-        category: newTheorem.category
-      });
-      
-      const encryptedTheorem = FHEEncryptTheorem(theoremData);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-
-      // Generate unique ID for the theorem
-      const theoremId = `thm-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      
-      // Store theorem data
-      const theoremRecord = {
-        encryptedTheorem: encryptedTheorem,
-        proofStatus: "pending",
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: address,
-        theoremName: newTheorem.name,
-        category: newTheorem.category
-      };
-
-      await contract.setData(`theorem_${theoremId}`, ethers.toUtf8Bytes(JSON.stringify(theoremRecord)));
-
-      // Update theorem keys list
-      const keysBytes = await contract.getData("theorem_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { 
-          keys = JSON.parse(ethers.toUtf8String(keysBytes)); 
-        } catch (e) { 
-          console.error("Error parsing keys:", e); 
-        }
-      }
-      keys.push(theoremId);
-      await contract.setData("theorem_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      // Reuse the previewed ciphertexts when the draft hasn't changed since
+      const payload = theoremPayload(newTheorem);
+      await submitDraft(newTheorem, encryptionPreview?.payload === payload ? encryptionPreview.encrypted : undefined);
 
       setTransactionStatus({ 
         visible: true, 
@@ -206,7 +383,7 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewTheorem({ name: "", category: "Number Theory", description: "", parameters: "" });
+        setNewTheorem(emptyDraft());
       }, 2000);
 
     } catch (e: any) {
@@ -226,6 +403,72 @@ const App: React.FC = () => {
     }
   };
 
+  // Without a network the draft is kept in IndexedDB and submitted once the browser is back online
+  const saveDraftOffline = async () => {
+    try {
+      await queueDraft(newTheorem);
+      await loadDrafts();
+      setTransactionStatus({ visible: true, status: "success", message: "Offline: theorem saved as a draft and queued for submission" });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        setShowCreateModal(false);
+        setNewTheorem(emptyDraft());
+      }, 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Saving draft failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const loadDrafts = async () => {
+    try {
+      setDrafts(await listDrafts());
+    } catch (e) {
+      console.error("Error loading drafts:", e);
+    }
+  };
+
+  const submitQueuedDrafts = async () => {
+    if (submittingDrafts.current) return;
+    submittingDrafts.current = true;
+    let submitted = 0;
+    try {
+      for (const queued of await listDrafts()) {
+        // Failed drafts wait for an explicit retry; an interrupted one may already be on-chain
+        if (queued.status !== "queued") continue;
+        await updateDraft({ ...queued, status: "submitting" });
+        await loadDrafts();
+        try {
+          await submitDraft(queued.draft);
+          await removeDraft(queued.id);
+          submitted++;
+        } catch (e: any) {
+          await updateDraft({ ...queued, status: "failed", error: e.message || "Unknown error" });
+        }
+        await loadDrafts();
+      }
+      if (submitted > 0) {
+        setTransactionStatus({ visible: true, status: "success", message: `Submitted ${submitted} offline draft(s)` });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+        await loadTheorems();
+      }
+    } catch (e) {
+      console.error("Error submitting drafts:", e);
+    } finally {
+      submittingDrafts.current = false;
+    }
+  };
+
+  const retryDraft = async (queued: QueuedDraft) => {
+    await updateDraft({ ...queued, status: "queued", error: undefined });
+    await submitQueuedDrafts();
+  };
+
+  const discardDraft = async (id: string) => {
+    await removeDraft(id);
+    await loadDrafts();
+  };
+
   // Start FHE-based theorem proving
   const startProving = async (theoremId: string) => {
     if (!isConnected) { 
@@ -245,52 +488,71 @@ const App: React.FC = () => {
       if (!contract) throw new Error("Failed to get contract with signer");
 
       // Update theorem status to proving
-      const theoremBytes = await contract.getData(`theorem_${theoremId}`);
-      if (theoremBytes.length === 0) throw new Error("Theorem not found");
-      
-      const theoremData = JSON.parse(ethers.toUtf8String(theoremBytes));
-      theoremData.proofStatus = "proving";
-      theoremData.currentStep = 0;
+      const parsed = parseRecord(await contract.getData(`theorem_${theoremId}`));
+      if (!parsed) throw new Error("Theorem not found");
+      if (!parsed.ok) throw new Error(`Theorem record is invalid: ${parsed.errors.join("; ")}`);
 
-      await contract.setData(`theorem_${theoremId}`, ethers.toUtf8Bytes(JSON.stringify(theoremData)));
+      const theoremData = parsed.record;
+      const statement = await localStatement(theoremData);
+      if (!statement) throw new Error("This browser does not hold the theorem's statement; its owner can decrypt it on another device");
+      const request = await proverRequest({ category: theoremData.category, ...statement });
+
+      // Milestones are the only progress written on-chain; engine events stay in this tab
+      const started = proofMilestone("started", request.engine);
+      const startTx = await contract.setData(
+        `theorem_${theoremId}`,
+        encodeRecord({ ...theoremData, proofStatus: "proving", milestones: [started] })
+      );
+      await startTx.wait();
 
-      // Simulate FHE proving process
       setTransactionStatus({ 
         visible: true, 
         status: "pending", 
-        message: "Performing FHE computations on encrypted theorem..." 
+        message: "Searching for a proof..." 
       });
 
-      // Simulate step-by-step proving with FHE
-      const totalSteps = 10;
-      for (let step = 1; step <= totalSteps; step++) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        setCurrentStep(step);
-        
-        // Update progress in contract
-        theoremData.currentStep = step;
-        await contract.setData(`theorem_${theoremId}`, ethers.toUtf8Bytes(JSON.stringify(theoremData)));
-        
-        setTransactionStatus({ 
-          visible: true, 
-          status: "pending", 
-          message: `FHE proving in progress... Step ${step}/${totalSteps}` 
-        });
-      }
+      const proofResult = await proveInWorker(request, event => {
+        setLiveProgress(prev => ({ ...prev, [theoremId]: event }));
+        setTransactionStatus({ visible: true, status: "pending", message: describeProgress(event) });
+      });
 
-      // Final FHE computation result
-      const proofResult = FHEProveTheorem(theoremData.encryptedTheorem);
-      theoremData.proofStatus = proofResult.status;
-      theoremData.proofSteps = proofResult.steps;
-      theoremData.currentStep = totalSteps;
+      // The counterexample is only recorded encrypted for the owner, which needs the owner
+      // or a provider to send storeWitness; otherwise the record just says "disproved"
+      let encryptedWitness: EncryptedWitness | undefined;
+      let witnessError: string | undefined;
+      const witness = witnessOf(proofResult, statement.descriptor?.ast ?? null);
+      if (witness && witness.bindings.length > 0) {
+        setTransactionStatus({ visible: true, status: "pending", message: "Encrypting the counterexample for the owner..." });
+        try {
+          const prover = await getProverContractWithSigner();
+          encryptedWitness = await storeWitness(await browserWitnessVault(prover, address!), witness, theoremData.owner);
+        } catch (e: any) {
+          witnessError = e.message || "Unknown error";
+        }
+      }
 
-      await contract.setData(`theorem_${theoremId}`, ethers.toUtf8Bytes(JSON.stringify(theoremData)));
+      // Mined before the list is reloaded, and a failed write is reported like any other
+      setTransactionStatus({ visible: true, status: "pending", message: "Recording the result..." });
+      const resultTx = await contract.setData(
+        `theorem_${theoremId}`,
+        encodeRecord({
+          ...theoremData,
+          ...proofResultFields(proofResult, encryptedWitness),
+          milestones: [started, proofMilestone("finished", request.engine)]
+        })
+      );
+      await resultTx.wait();
 
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: `FHE proving completed! Theorem ${proofResult.status}.` 
-      });
+      // The result is recorded either way; a lost counterexample must not pass for success
+      setTransactionStatus(
+        witnessError
+          ? {
+              visible: true,
+              status: "error",
+              message: `Search completed: ${describeSearchResult(proofResult)}, but the counterexample was not stored: ${witnessError}`
+            }
+          : { visible: true, status: "success", message: `Search completed: ${describeSearchResult(proofResult)}` }
+      );
 
       await loadTheorems();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -308,7 +570,153 @@ const App: React.FC = () => {
         newSet.delete(theoremId);
         return newSet;
       });
-      setCurrentStep(0);
+      setLiveProgress(prev => {
+        const { [theoremId]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // Decrypt the owner's submitted program and check it decodes back to the stored AST
+  const verifyEncryption = async (theorem: TheoremRecord) => {
+    if (!theorem.encryptedProgram || !theorem.descriptor) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Decrypting submitted program..." });
+    try {
+      const provider = new ethers.BrowserProvider((window as any).ethereum);
+      const signer = await provider.getSigner();
+      const { words, bools } = await decryptProgram(theorem.encryptedProgram, signer);
+      const ok = matchesProgram(theorem.descriptor.ast, words, bools);
+      setTransactionStatus({
+        visible: true,
+        status: ok ? "success" : "error",
+        message: ok ? "Ciphertexts decrypt to the submitted theorem" : "Decrypted program does not match the stored theorem"
+      });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
+    }
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  };
+
+  // Recover a statement kept off-chain from the owner's encrypted theorem text
+  const decryptStatement = async (theorem: TheoremRecord) => {
+    if (typeof theorem.encryptedTheorem === "string") return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Decrypting theorem statement..." });
+    try {
+      const provider = new ethers.BrowserProvider((window as any).ethereum);
+      const signer = await provider.getSigner();
+      const payload = JSON.parse(await decryptTheorem(theorem.encryptedTheorem, signer));
+      if (!payload.statement) throw new Error("Imported CNF instances stay in the browser that imported them");
+      const { ast, diagnostics } = validateTheorem(payload.statement, payload.syntax);
+      if (!ast) throw new Error(`Decrypted statement does not parse: ${diagnostics[0].message}`);
+      const statement: TheoremStatement = { salt: payload.salt, descriptor: toDescriptor(payload.statement, payload.syntax, ast) };
+      if (!recordStatement(theorem, statement)) throw new Error("Decrypted statement does not match the record's statement hash");
+      await saveStatement(statement);
+      setTransactionStatus({ visible: true, status: "success", message: "Statement decrypted and kept in this browser" });
+      await loadTheorems();
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
+    }
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  };
+
+  // The statement as a file for a prover: prover:worker --statements or prove:smt --statement
+  const exportStatement = (theorem: TheoremRecord) => {
+    const statement: TheoremStatement = { salt: theorem.salt, descriptor: theorem.descriptor, cnf: theorem.cnf };
+    downloadText(`${fileStem(theorem.theoremName)}.statement.json`, JSON.stringify(statement, null, 2), "application/json");
+  };
+
+  const revealCounterexample = async (theorem: TheoremRecord) => {
+    if (!theorem.encryptedWitness) return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Decrypting counterexample..." });
+    try {
+      const provider = new ethers.BrowserProvider((window as any).ethereum);
+      const signer = await provider.getSigner();
+      const witness = await decryptWitness(theorem.encryptedWitness, signer);
+      setRevealedWitnesses(prev => ({ ...prev, [theorem.id]: witness }));
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+      setSelectedTheorem(theorem);
+      setShowProofVisualization(true);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Records only carry the certificate's hash; running the engine again in a worker reproduces it
+  const fetchCertificate = (theorem: TheoremRecord) =>
+    loadCertificate(theorem.id, theorem, request => proveInWorker(request));
+
+  const checkProofCertificate = async (theorem: TheoremRecord) => {
+    setTransactionStatus({ visible: true, status: "pending", message: "Checking proof certificate..." });
+    try {
+      const result = await verifyCertificate(theorem, await fetchCertificate(theorem));
+      setTransactionStatus({
+        visible: true,
+        status: result.ok ? "success" : "error",
+        message: result.ok ? result.summary : `Certificate rejected: ${result.error}`
+      });
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Certificate check failed: " + (e.message || "Unknown error") });
+    }
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 5000);
+  };
+
+  const downloadCertificate = async (theorem: TheoremRecord) => {
+    try {
+      const bytes = await fetchCertificate(theorem);
+      downloadText(`${fileStem(theorem.theoremName)}.proof.json`, ethers.toUtf8String(bytes), "application/json");
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Download failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Imported instances are exported as-is; propositional statements as the CNF of their negation
+  const exportDimacs = async (theorem: TheoremRecord) => {
+    try {
+      const text = theorem.cnf
+        ? toDimacs(await loadCnf(theorem.cnf), [theorem.theoremName])
+        : toDimacs(negatedCnf(theorem.descriptor!.ast).cnf, [
+            theorem.theoremName,
+            theorem.descriptor!.source,
+            "Tseitin encoding of the negation: UNSAT iff the statement is valid"
+          ]);
+      downloadText(`${fileStem(theorem.theoremName)}.cnf`, text);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Export failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const exportTptp = async (theorem: TheoremRecord) => {
+    try {
+      const text = theorem.descriptor
+        ? printTptp(theorem.descriptor.ast, theorem.theoremName, { source: theorem.descriptor.source })
+        : printTptpCnf(await loadCnf(theorem.cnf!), theorem.theoremName);
+      downloadText(`${fileStem(theorem.theoremName)}.p`, text);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Export failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const exportSmtLib = (theorem: TheoremRecord) => {
+    try {
+      const { text } = printSmtLib(theorem.descriptor!.ast, { name: theorem.theoremName, source: theorem.descriptor!.source });
+      downloadText(`${fileStem(theorem.theoremName)}.smt2`, text);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Export failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const exportLatex = (theorem: TheoremRecord) => {
+    try {
+      const { ast, source } = theorem.descriptor!;
+      downloadText(`${fileStem(theorem.theoremName)}.tex`, printLatexDocument(ast, theorem.theoremName, { source, category: theorem.category }), "application/x-tex");
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Export failed: " + (e.message || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
@@ -336,33 +744,6 @@ const App: React.FC = () => {
     }
   };
 
-  // FHE Proof Visualization Component
-  const renderProofVisualization = (theorem: TheoremRecord) => (
-    <div className="proof-visualization">
-      <h4>FHE Proof Process</h4>
-      <div className="proof-steps">
-        {[1, 2, 3, 4, 5].map(step => (
-          <div key={step} className={`proof-step ${theorem.currentStep && theorem.currentStep >= step ? 'completed' : ''}`}>
-            <div className="step-number">{step}</div>
-            <div className="step-label">
-              {step === 1 && "Theorem Encryption"}
-              {step === 2 && "FHE Initialization"}
-              {step === 3 && "Homomorphic Operations"}
-              {step === 4 && "Proof Verification"}
-              {step === 5 && "Result Generation"}
-            </div>
-          </div>
-        ))}
-      </div>
-      {theorem.proofSteps && (
-        <div className="proof-metrics">
-          <div className="metric">Total Steps: {theorem.proofSteps}</div>
-          <div className="metric">FHE Operations: {Math.floor(theorem.proofSteps * 1.5)}</div>
-        </div>
-      )}
-    </div>
-  );
-
   if (loading) return (
     <div className="loading-screen">
       <div className="fhe-spinner">
@@ -416,7 +797,7 @@ const App: React.FC = () => {
         {/* Statistics Dashboard */}
         <div className="stats-dashboard">
           <div className="stat-card">
-            <div className="stat-value">{theorems.length}</div>
+            <div className="stat-value">{theorems.length}{theoremCursor ? "+" : ""}</div>
             <div className="stat-label">Total Theorems</div>
           </div>
           <div className="stat-card proved">
@@ -427,6 +808,10 @@ const App: React.FC = () => {
             <div className="stat-value">{disprovedCount}</div>
             <div className="stat-label">Disproved</div>
           </div>
+          <div className="stat-card bounded">
+            <div className="stat-value">{boundedCount}</div>
+            <div className="stat-label">Bounded Only</div>
+          </div>
           <div className="stat-card proving">
             <div className="stat-value">{provingCount}</div>
             <div className="stat-label">In Progress</div>
@@ -438,12 +823,87 @@ const App: React.FC = () => {
           <div className="section-header">
             <h3>Encrypted Theorem Repository</h3>
             <div className="section-actions">
+              {quarantined.length > 0 && (
+                <button onClick={() => setShowQuarantine(!showQuarantine)} className="fhe-button">
+                  {showQuarantine ? "Hide Quarantine" : `Quarantine (${quarantined.length})`}
+                </button>
+              )}
               <button onClick={loadTheorems} disabled={isRefreshing} className="fhe-button">
                 {isRefreshing ? "Refreshing..." : "Refresh"}
               </button>
             </div>
           </div>
 
+          {showQuarantine && quarantined.length > 0 && (
+            <div className="quarantine">
+              <h4>Quarantined Records</h4>
+              <p>These records failed schema validation and are not listed. Run <code>npx hardhat store:migrate-records</code> after fixing the schema or the record.</p>
+              {quarantined.map(entry => (
+                <div key={entry.id} className="theorem-card quarantined">
+                  <div className="theorem-header">
+                    <div className="theorem-title">
+                      <h4>theorem_{entry.id}</h4>
+                    </div>
+                    <div className="status-indicator error">invalid</div>
+                  </div>
+                  <ul className="quarantine-errors">
+                    {entry.quarantine!.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                  <pre className="quarantine-raw">
+                    {(typeof entry.quarantine!.raw === "string" ? entry.quarantine!.raw : JSON.stringify(entry.quarantine!.raw, null, 2)).substring(0, 2000)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {deploymentError && (
+            <div className="deployment-error" role="alert">
+              {deploymentError}
+            </div>
+          )}
+
+          {!online && (
+            <div className="offline-notice">
+              Offline: showing cached theorems. New theorems are saved as drafts and submitted when you reconnect.
+            </div>
+          )}
+
+          {drafts.length > 0 && (
+            <div className="drafts-queue">
+              <h4>Queued Drafts</h4>
+              {drafts.map(queued => (
+                <div key={queued.id} className="theorem-card draft">
+                  <div className="theorem-header">
+                    <div className="theorem-title">
+                      <h4>{queued.draft.name}</h4>
+                      <span className="category-badge">{queued.draft.category}</span>
+                    </div>
+                    <div className={`status-indicator ${queued.status}`}>
+                      {queued.status}
+                    </div>
+                  </div>
+                  <div className="theorem-meta">
+                    <span>Written: {new Date(queued.createdAt * 1000).toLocaleString()}</span>
+                    {queued.error && <span className="draft-error">{queued.error}</span>}
+                  </div>
+                  <div className="theorem-actions">
+                    {queued.status === "failed" && (
+                      <button onClick={() => retryDraft(queued)} disabled={!online || !isConnected} className="fhe-button primary">
+                        Retry
+                      </button>
+                    )}
+                    {queued.status !== "submitting" && (
+                      <button onClick={() => discardDraft(queued.id)} className="fhe-button">
+                        Discard
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="theorems-list">
             {theorems.length === 0 ? (
               <div className="empty-state">
@@ -458,21 +918,44 @@ const App: React.FC = () => {
                 <div key={theorem.id} className="theorem-card">
                   <div className="theorem-header">
                     <div className="theorem-title">
-                      <h4>{theorem.theoremName}</h4>
+                      <h4><MathText text={theorem.theoremName} /></h4>
                       <span className="category-badge">{theorem.category}</span>
                     </div>
                     <div className={`status-indicator ${theorem.proofStatus}`}>
                       {theorem.proofStatus}
                     </div>
                   </div>
+                  {theorem.description && (
+                    <p className="theorem-description"><MathText text={theorem.description} /></p>
+                  )}
                   
                   <div className="theorem-meta">
                     <span>Owner: {theorem.owner.substring(0, 8)}...{theorem.owner.substring(34)}</span>
                     <span>Submitted: {new Date(theorem.timestamp * 1000).toLocaleDateString()}</span>
+                    {theorem.submission && (
+                      <span>
+                        On-chain #{theorem.submission.submissionId} (batch {theorem.submission.batchId}): {theorem.submission.status}
+                        {theorem.submission.revealed && (theorem.submission.revealed.hasProof ? ", proof found" : ", no proof")}
+                      </span>
+                    )}
                   </div>
 
+                  {theorem.descriptor ? (
+                    <div className="theorem-statement">
+                      <Formula ast={theorem.descriptor.ast} />
+                    </div>
+                  ) : theorem.statementHash && !theorem.cnf && (
+                    <div className="theorem-statement private">Statement kept off-chain by its owner</div>
+                  )}
+
+                  {theorem.searchResult && theorem.proofStatus !== "proving" && (
+                    <div className={`search-result ${theorem.searchResult.status}`}>
+                      {describeSearchResult(theorem.searchResult)}
+                    </div>
+                  )}
+
                   <div className="theorem-actions">
-                    {theorem.proofStatus === "pending" && (
+                    {theorem.proofStatus === "pending" && (theorem.descriptor || theorem.cnf) && (
                       <button 
                         onClick={() => startProving(theorem.id)}
                         disabled={provingTheorems.has(theorem.id)}
@@ -482,6 +965,71 @@ const App: React.FC = () => {
                       </button>
                     )}
                     
+                    {theorem.encryptedProgram && theorem.descriptor && address && theorem.owner.toLowerCase() === address.toLowerCase() && (
+                      <button onClick={() => verifyEncryption(theorem)} className="fhe-button">
+                        Verify Ciphertext
+                      </button>
+                    )}
+
+                    {theorem.statementHash &&
+                      !theorem.descriptor &&
+                      !theorem.cnf &&
+                      typeof theorem.encryptedTheorem !== "string" &&
+                      theorem.encryptedTheorem.textTx &&
+                      address &&
+                      theorem.owner.toLowerCase() === address.toLowerCase() && (
+                        <button onClick={() => decryptStatement(theorem)} className="fhe-button">
+                          Decrypt Statement
+                        </button>
+                      )}
+
+                    {theorem.statementHash && (theorem.descriptor || theorem.cnf) && (
+                      <button onClick={() => exportStatement(theorem)} className="fhe-button">
+                        Export Statement
+                      </button>
+                    )}
+
+                    {(theorem.cnf || (theorem.descriptor && isPropositional(theorem.descriptor.ast))) && (
+                      <button onClick={() => exportDimacs(theorem)} className="fhe-button">
+                        Export DIMACS
+                      </button>
+                    )}
+
+                    {(theorem.descriptor || theorem.cnf) && (
+                      <button onClick={() => exportTptp(theorem)} className="fhe-button">
+                        Export TPTP
+                      </button>
+                    )}
+
+                    {theorem.descriptor && (
+                      <button onClick={() => exportSmtLib(theorem)} className="fhe-button">
+                        Export SMT-LIB
+                      </button>
+                    )}
+
+                    {theorem.descriptor && (
+                      <button onClick={() => exportLatex(theorem)} className="fhe-button">
+                        Export LaTeX
+                      </button>
+                    )}
+
+                    {theorem.encryptedWitness && address && theorem.encryptedWitness.owner.toLowerCase() === address.toLowerCase() && !revealedWitnesses[theorem.id] && (
+                      <button onClick={() => revealCounterexample(theorem)} className="fhe-button">
+                        Reveal Counterexample
+                      </button>
+                    )}
+
+                    {theorem.certificateHash && theorem.proofStatus === "proved" && (
+                      <>
+                        <button onClick={() => checkProofCertificate(theorem)} className="fhe-button">
+                          Check Certificate
+                        </button>
+                        <button onClick={() => downloadCertificate(theorem)} className="fhe-button">
+                          Download Certificate
+                        </button>
+                      </>
+                    )}
+
                     <button 
                       onClick={() => {
                         setSelectedTheorem(theorem);
@@ -493,21 +1041,18 @@ const App: React.FC = () => {
                     </button>
                   </div>
 
-                  {theorem.proofStatus === "proving" && theorem.currentStep && (
-                    <div className="proving-progress">
-                      <div className="progress-bar">
-                        <div 
-                          className="progress-fill" 
-                          style={{ width: `${(theorem.currentStep / 10) * 100}%` }}
-                        ></div>
-                      </div>
-                      <span>Step {theorem.currentStep} of 10</span>
-                    </div>
+                  {(theorem.proofStatus === "proving" || liveProgress[theorem.id]) && (
+                    <ProofProgress event={liveProgress[theorem.id]} milestones={theorem.milestones} />
                   )}
                 </div>
               ))
             )}
           </div>
+          {theoremCursor && (
+            <button onClick={loadMoreTheorems} disabled={isRefreshing} className="fhe-button">
+              {isRefreshing ? "Loading..." : "Load More"}
+            </button>
+          )}
         </div>
       </div>
 
@@ -519,6 +1064,9 @@ const App: React.FC = () => {
           creating={creating}
           theoremData={newTheorem}
           setTheoremData={setNewTheorem}
+          encryptionPreview={encryptionPreview}
+          isConnected={isConnected}
+          online={online}
         />
       )}
 
@@ -526,6 +1074,8 @@ const App: React.FC = () => {
       {showProofVisualization && selectedTheorem && (
         <ProofVisualizationModal
           theorem={selectedTheorem}
+          witness={revealedWitnesses[selectedTheorem.id] ?? plainWitness(selectedTheorem)}
+          fetchCertificate={() => fetchCertificate(selectedTheorem)}
           onClose={() => {
             setShowProofVisualization(false);
             setSelectedTheorem(null);
@@ -572,6 +1122,9 @@ interface CreateTheoremModalProps {
   creating: boolean;
   theoremData: any;
   setTheoremData: (data: any) => void;
+  encryptionPreview: EncryptionPreview | null;
+  isConnected: boolean;
+  online: boolean;
 }
 
 const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
@@ -579,18 +1132,78 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
   onClose,
   creating,
   theoremData,
-  setTheoremData
+  setTheoremData,
+  encryptionPreview,
+  isConnected,
+  online
 }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setTheoremData({ ...theoremData, [name]: value });
   };
 
+  // Live parse + type check of the formal statement
+  const validation = useMemo(
+    () => (theoremData.statement.trim() ? validateTheorem(theoremData.statement, theoremData.syntax) : null),
+    [theoremData.statement, theoremData.syntax]
+  );
+  const statementHasErrors = !!validation && !validation.ast;
+
+  // A well-formed statement is carried over into the other notation
+  const setSyntax = (syntax: StatementSyntax) => {
+    if (syntax === theoremData.syntax) return;
+    const ast = validation?.ast;
+    const statement = ast ? (syntax === "latex" ? printLatex(ast) : printTheorem(ast)) : theoremData.statement;
+    setTheoremData({ ...theoremData, syntax, statement });
+  };
+
+  // TPTP problems are converted into a formal statement rather than stored verbatim
+  const [tptpText, setTptpText] = useState("");
+  const [tptpDiagnostics, setTptpDiagnostics] = useState<Diagnostic[]>([]);
+  const importTptp = () => {
+    const { ast, name, diagnostics } = parseTptp(tptpText);
+    setTptpDiagnostics(diagnostics);
+    if (!ast) return;
+    const sample = TPTP_SAMPLES.find(s => s.text === tptpText);
+    setTheoremData({
+      ...theoremData,
+      statement: theoremData.syntax === "latex" ? printLatex(ast) : printTheorem(ast),
+      name: theoremData.name || sample?.name || name || "",
+      category: sample?.category ?? theoremData.category,
+      description: theoremData.description || `TPTP problem ${name ?? ""}`.trim()
+    });
+  };
+
+  const [dimacsErrors, setDimacsErrors] = useState<DimacsError[]>([]);
+  const importDimacs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const { cnf, comments, errors } = parseDimacs(await file.text());
+    setDimacsErrors(errors);
+    if (!cnf) return;
+    setTheoremData({
+      ...theoremData,
+      cnf,
+      name: theoremData.name || fileStem(file.name.replace(/\.cnf$/i, "")),
+      category: "Logic",
+      description: theoremData.description || comments.join(" ") || `Unsatisfiability of ${file.name}`
+    });
+  };
+
   const handleSubmit = () => {
     if (!theoremData.name || !theoremData.description) {
       alert("Please fill in theorem name and description");
       return;
     }
+    if (theoremData.description.length > MAX_DESCRIPTION_LENGTH) {
+      alert(`Please shorten the description to at most ${MAX_DESCRIPTION_LENGTH} characters`);
+      return;
+    }
+    if (statementHasErrors) {
+      alert("Please fix the errors in the formal statement");
+      return;
+    }
     onSubmit();
   };
 
@@ -607,7 +1220,7 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
             <div className="notice-icon">🔒</div>
             <div>
               <strong>FHE Encryption Guarantee</strong>
-              <p>Your theorem will be encrypted with ZAMA FHE before any processing occurs</p>
+              <p>Your formal statement will be encrypted with ZAMA FHE before any processing occurs; the name, category and description are public</p>
             </div>
           </div>
 
@@ -619,7 +1232,7 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
                 name="name"
                 value={theoremData.name}
                 onChange={handleChange}
-                placeholder="e.g., Fermat's Last Theorem"
+                placeholder="e.g., Fermat's Last Theorem for $n \geq 3$"
                 className="fhe-input"
               />
             </div>
@@ -642,22 +1255,109 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
                 name="description"
                 value={theoremData.description}
                 onChange={handleChange}
-                placeholder="Describe your mathematical conjecture..."
+                placeholder="Describe your mathematical conjecture; write math as $...$ LaTeX"
                 className="fhe-textarea"
                 rows={4}
               />
+              <div className="descriptor-diagnostics">
+                <div className={`diagnostic ${theoremData.description.length > MAX_DESCRIPTION_LENGTH ? "error" : "ok"}`}>
+                  {theoremData.description.length} / {MAX_DESCRIPTION_LENGTH} characters, shown publicly on the theorem card
+                </div>
+              </div>
             </div>
 
             <div className="form-group full-width">
-              <label>Parameters (Optional)</label>
-              <input
-                type="text"
-                name="parameters"
-                value={theoremData.parameters}
-                onChange={handleChange}
-                placeholder="e.g., n > 2, x,y,z ∈ ℤ"
-                className="fhe-input"
+              <label>Formal Statement (optional)</label>
+              <div className="syntax-toggle">
+                <button
+                  type="button"
+                  onClick={() => setSyntax("tdl")}
+                  className={`fhe-button ${theoremData.syntax === "tdl" ? "primary" : ""}`}
+                >
+                  Theorem Descriptor Language
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSyntax("latex")}
+                  className={`fhe-button ${theoremData.syntax === "latex" ? "primary" : ""}`}
+                >
+                  LaTeX
+                </button>
+              </div>
+              <TheoremEditor
+                value={theoremData.statement}
+                onChange={statement => setTheoremData({ ...theoremData, statement })}
+                syntax={theoremData.syntax}
+                validation={validation}
+                placeholder={
+                  theoremData.syntax === "latex"
+                    ? "e.g., \\forall x, y, z \\in \\mathbb{Z}, n \\in [3 \\ldots 10].\\; x \\cdot y \\cdot z \\neq 0 \\rightarrow x^n + y^n \\neq z^n"
+                    : "e.g., ∀ x, y, z ∈ ℤ, n ∈ [3..10]. x*y*z ≠ 0 → x^n + y^n ≠ z^n  (type \\forall for ∀)"
+                }
+              />
+              {validation?.ast && (
+                <div className="typeset-preview">
+                  <Formula ast={validation.ast} display />
+                </div>
+              )}
+            </div>
+
+            <div className="form-group full-width">
+              <label>TPTP Import (FOF / TFF arithmetic / CNF)</label>
+              <select
+                value=""
+                onChange={e => {
+                  setTptpText(TPTP_SAMPLES[Number(e.target.value)].text);
+                  setTptpDiagnostics([]);
+                }}
+                className="fhe-select"
+              >
+                <option value="" disabled>Load a sample problem...</option>
+                {TPTP_SAMPLES.map((sample, i) => (
+                  <option key={sample.name} value={i}>{sample.name}</option>
+                ))}
+              </select>
+              <textarea
+                value={tptpText}
+                onChange={e => setTptpText(e.target.value)}
+                placeholder="fof(contraposition, conjecture, ((p => q) <=> (~ q => ~ p)))."
+                className="fhe-textarea descriptor-input"
+                rows={3}
+                spellCheck={false}
               />
+              <button onClick={importTptp} disabled={!tptpText.trim()} className="fhe-button">
+                Convert to Formal Statement
+              </button>
+              {tptpDiagnostics.length > 0 && (
+                <div className="descriptor-diagnostics">
+                  {tptpDiagnostics.map((d, i) => (
+                    <div key={i} className={`diagnostic ${d.severity}`}>
+                      {d.span.start.line}:{d.span.start.column} {d.message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="form-group full-width">
+              <label>DIMACS CNF Import (claims the clauses are unsatisfiable)</label>
+              {theoremData.cnf ? (
+                <div className="dimacs-imported">
+                  <span>Imported CNF: {theoremData.cnf.numVars} vars, {theoremData.cnf.clauses.length} clauses</span>
+                  <button onClick={() => setTheoremData({ ...theoremData, cnf: null })} className="fhe-button">Remove</button>
+                </div>
+              ) : (
+                <input type="file" accept=".cnf,.dimacs,text/plain" onChange={importDimacs} className="fhe-input" />
+              )}
+              {dimacsErrors.length > 0 && (
+                <div className="descriptor-diagnostics">
+                  {dimacsErrors.map((d, i) => (
+                    <div key={i} className="diagnostic error">
+                      line {d.line}: {d.message}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
@@ -665,13 +1365,40 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
             <h4>FHE Encryption Preview</h4>
             <div className="preview-content">
               <div className="plain-data">
-                <span>Original Theorem:</span>
-                <code>{theoremData.description.substring(0, 100)}...</code>
+                <span>Formal Statement:</span>
+                {validation?.ast ? (
+                  <div className="typeset-preview">
+                    <Formula ast={validation.ast} display />
+                  </div>
+                ) : theoremData.statement ? (
+                  <code>{theoremData.statement}</code>
+                ) : (
+                  <code>No data</code>
+                )}
               </div>
               <div className="encryption-arrow">↓ FHE Encryption</div>
               <div className="encrypted-data">
-                <span>Encrypted Data:</span>
-                <code>{theoremData.description ? FHEEncryptTheorem(theoremData.description).substring(0, 80) + '...' : 'No data'}</code>
+                <span>Ciphertext Handles:</span>
+                {!theoremData.statement ? (
+                  <code>No data</code>
+                ) : !online ? (
+                  <code>Offline: encrypted when the draft is submitted</code>
+                ) : !isConnected ? (
+                  <code>Connect wallet to encrypt</code>
+                ) : !encryptionPreview || encryptionPreview.status === "encrypting" ? (
+                  <code>Encrypting with relayer SDK...</code>
+                ) : encryptionPreview.status === "error" ? (
+                  <code className="preview-error">{encryptionPreview.error}</code>
+                ) : (
+                  <>
+                    {theoremHandles(encryptionPreview.encrypted!).slice(0, 4).map(handle => (
+                      <code key={handle}>{handle}</code>
+                    ))}
+                    <span className="preview-meta">
+                      {theoremHandles(encryptionPreview.encrypted!).length} × euint32, {encryptionPreview.encrypted!.chunks.length} input proof(s)
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -680,7 +1407,7 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
         <div className="modal-footer">
           <button onClick={onClose} className="fhe-button">Cancel</button>
           <button onClick={handleSubmit} disabled={creating} className="fhe-button primary">
-            {creating ? "Encrypting with FHE..." : "Submit Theorem"}
+            {creating ? "Encrypting with FHE..." : online ? "Submit Theorem" : "Save Draft"}
           </button>
         </div>
       </div>
@@ -691,28 +1418,73 @@ const CreateTheoremModal: React.FC<CreateTheoremModalProps> = ({
 // Proof Visualization Modal Component
 interface ProofVisualizationModalProps {
   theorem: TheoremRecord;
+  // Decrypted (or never encrypted) counterexample of a disproved theorem
+  witness: CounterexampleWitness | null;
+  fetchCertificate: () => Promise<Uint8Array>;
   onClose: () => void;
 }
 
-const ProofVisualizationModal: React.FC<ProofVisualizationModalProps> = ({ theorem, onClose }) => {
+const ProofVisualizationModal: React.FC<ProofVisualizationModalProps> = ({ theorem, witness, fetchCertificate, onClose }) => {
+  const [proof, setProof] = useState<
+    { certificate: ProofCertificate; graph: ProofGraph; variables?: Record<number, string> } | { error: string } | null
+  >(null);
+
+  // The graph and DRAT trace are drawn from the certificate the record's hash commits to,
+  // reproduced from the statement since records do not carry it
+  useEffect(() => {
+    if (theorem.proofStatus !== "proved" || !theorem.certificateHash) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const bytes = await fetchCertificate();
+        if (hashCertificate(bytes) !== theorem.certificateHash) throw new Error("Certificate does not match the record's hash");
+        const certificate = decodeCertificate(bytes);
+        const statement = theorem.descriptor ? { ast: theorem.descriptor.ast } : { cnf: await loadCnf(theorem.cnf!) };
+        // Lemmas of a descriptor theorem are over the Tseitin variables of its negation
+        const variables = statement.cnf ? statement.cnf.names : negatedCnf(statement.ast).cnf.names;
+        if (!cancelled) setProof({ certificate, graph: proofGraph(statement, certificate), variables });
+      } catch (e: any) {
+        if (!cancelled) setProof({ error: e.message || "Unknown error" });
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [theorem.id, theorem.certificateHash]);
+
+  const engine = theorem.milestones?.find(m => m.name === "finished")?.engine;
+
   return (
     <div className="modal-overlay">
       <div className="proof-modal">
         <div className="modal-header">
-          <h3>FHE Proof Visualization: {theorem.theoremName}</h3>
+          <h3>FHE Proof Visualization: <MathText text={theorem.theoremName} /></h3>
           <button onClick={onClose} className="close-button">×</button>
         </div>
         
         <div className="modal-body">
+          {theorem.descriptor && (
+            <div className="theorem-statement display">
+              <Formula ast={theorem.descriptor.ast} display />
+            </div>
+          )}
+
           <div className="proof-status">
             <div className={`status-badge large ${theorem.proofStatus}`}>
               {theorem.proofStatus.toUpperCase()}
             </div>
-            {theorem.proofSteps && (
+            {theorem.searchResult ? (
+              <div className="proof-steps-info">
+                {describeSearchResult(theorem.searchResult)}
+              </div>
+            ) : theorem.proofSteps && (
               <div className="proof-steps-info">
                 Completed in {theorem.proofSteps} FHE operations
               </div>
             )}
+            {theorem.certificateHash && (
+              <div className="proof-steps-info">
+                Certificate keccak256: <code>{theorem.certificateHash}</code>
+              </div>
+            )}
           </div>
 
           <div className="proof-timeline">
@@ -720,50 +1492,98 @@ const ProofVisualizationModal: React.FC<ProofVisualizationModalProps> = ({ theor
               <div className="timeline-marker"></div>
               <div className="timeline-content">
                 <strong>Theorem Submission</strong>
-                <span>Encrypted with ZAMA FHE</span>
+                <span>{new Date(theorem.timestamp * 1000).toLocaleString()}</span>
               </div>
             </div>
-            
-            <div className="timeline-item completed">
-              <div className="timeline-marker"></div>
-              <div className="timeline-content">
-                <strong>FHE Initialization</strong>
-                <span>Homomorphic context setup</span>
-              </div>
+
+            {(["started", "finished"] as const).map(name => {
+              const milestone = theorem.milestones?.find(m => m.name === name);
+              return (
+                <div key={name} className={`timeline-item ${milestone ? "completed" : ""}`}>
+                  <div className="timeline-marker"></div>
+                  <div className="timeline-content">
+                    <strong>{name === "started" ? "Proof Search Started" : "Result Recorded"}</strong>
+                    <span>
+                      {milestone
+                        ? `${new Date(milestone.at * 1000).toLocaleString()}${milestone.engine ? ` · ${milestone.engine}` : ""}`
+                        : "Not yet"}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {proof && "certificate" in proof && proof.certificate.kind === "resolution" && (
+            <div className="proof-trace">
+              <h4>DRAT Proof Trace</h4>
+              <DratTraceViewer steps={proof.certificate.lemmas.map(clause => ({ kind: "add", clause }))} variables={proof.variables} />
             </div>
-            
-            <div className={`timeline-item ${theorem.proofStatus !== "pending" ? "completed" : ""}`}>
-              <div className="timeline-marker"></div>
-              <div className="timeline-content">
-                <strong>Homomorphic Operations</strong>
-                <span>Encrypted computation phase</span>
-              </div>
+          )}
+
+          {theorem.proofStatus === "disproved" && (witness || theorem.encryptedWitness) && (
+            <div className="proof-trace">
+              <h4>Counterexample</h4>
+              {witness ? (
+                <WitnessExplanation witness={witness} ast={theorem.descriptor?.ast} />
+              ) : (
+                <div className="proof-steps-info">
+                  Encrypted for {theorem.encryptedWitness!.owner}; only the owner can reveal it.
+                </div>
+              )}
             </div>
-            
-            <div className={`timeline-item ${theorem.proofStatus === "proved" || theorem.proofStatus === "disproved" ? "completed" : ""}`}>
-              <div className="timeline-marker"></div>
-              <div className="timeline-content">
-                <strong>Proof Verification</strong>
-                <span>Result validation in encrypted space</span>
-              </div>
+          )}
+
+          {theorem.proofStatus === "proved" && theorem.certificateHash && (
+            <div className="proof-trace">
+              <h4>Proof Structure</h4>
+              {!proof ? (
+                <div className="proof-steps-info">Loading certificate...</div>
+              ) : "error" in proof ? (
+                <div className="proof-steps-info">Proof structure unavailable: {proof.error}</div>
+              ) : (
+                <ProofGraphView graph={proof.graph} source={theorem.descriptor?.source} />
+              )}
             </div>
-          </div>
+          )}
 
           <div className="fhe-technical">
-            <h4>FHE Technical Details</h4>
+            <h4>Technical Details</h4>
             <div className="technical-grid">
-              <div className="tech-item">
-                <span>Encryption Scheme:</span>
-                <strong>TFHE</strong>
-              </div>
-              <div className="tech-item">
-                <span>Security Level:</span>
-                <strong>128-bit</strong>
-              </div>
-              <div className="tech-item">
-                <span>Operations:</span>
-                <strong>Homomorphic</strong>
-              </div>
+              {theorem.encryptedProgram && (
+                <>
+                  <div className="tech-item">
+                    <span>Encrypted Program:</span>
+                    <strong>
+                      {theorem.encryptedProgram.wordHandles.length} euint32 + {theorem.encryptedProgram.boolHandles.length} ebool
+                    </strong>
+                  </div>
+                  <div className="tech-item">
+                    <span>Prover Contract:</span>
+                    <strong><code>{theorem.encryptedProgram.contractAddress}</code></strong>
+                  </div>
+                </>
+              )}
+              {engine && (
+                <div className="tech-item">
+                  <span>Engine:</span>
+                  <strong>{engine}</strong>
+                </div>
+              )}
+              {proof && "certificate" in proof && (
+                <div className="tech-item">
+                  <span>Certificate:</span>
+                  <strong>{describeCertificate(proof.certificate)}</strong>
+                </div>
+              )}
+              {theorem.encryptedWitness && (
+                <div className="tech-item">
+                  <span>Encrypted Witness:</span>
+                  <strong>
+                    {theorem.encryptedWitness.valueHandles.length} euint64 + {theorem.encryptedWitness.flagHandles.length} ebool
+                  </strong>
+                </div>
+              )}
             </div>
           </div>
         </div>
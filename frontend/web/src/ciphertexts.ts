@@ -0,0 +1,39 @@
+// ciphertexts.ts
+// Shapes of the relayer-sdk ciphertexts kept in theorem records. Separate from fhe.ts so
+// code that only reads records (including the Node tasks) does not load the browser SDK.
+import { Sort } from "./descriptor";
+
+export interface EncryptedChunk {
+  handles: string[];
+  inputProof: string;
+}
+
+export interface EncryptedTheorem {
+  contractAddress: string;
+  userAddress: string;
+  byteLength: number;
+  chunks: EncryptedChunk[];
+  // storeEncryptedTheorem transaction that granted userAddress access; records written
+  // before the contract accepted theorem texts hold ciphertexts no one can decrypt
+  textTx?: string;
+}
+
+export interface EncryptedProgram {
+  contractAddress: string;
+  userAddress: string;
+  wordHandles: string[];
+  boolHandles: string[];
+  inputProof: string;
+}
+
+// Counterexample of a disproof (prover/witness.ts), decryptable by `owner` alone
+export interface EncryptedWitness {
+  contractAddress: string;
+  owner: string;
+  // Integer bindings map to valueHandles (euint64) and Bool ones to flagHandles, in order
+  bindings: { name: string; sort: Sort }[];
+  valueHandles: string[];
+  flagHandles: string[];
+  // storeWitness transaction that granted the owner access
+  witnessTx: string;
+}
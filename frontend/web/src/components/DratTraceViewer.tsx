@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { DratStep } from '../prover/sat/cnf';
+
+interface DratTraceViewerProps {
+  steps: DratStep[];
+  variables?: Record<number, string>;
+}
+
+const formatLiteral = (lit: number, variables?: Record<number, string>) => {
+  const name = variables?.[Math.abs(lit)] ?? `x${Math.abs(lit)}`;
+  return lit < 0 ? `¬${name}` : name;
+};
+
+const formatClause = (clause: number[], variables?: Record<number, string>) =>
+  clause.length === 0 ? '⊥ (empty clause)' : clause.map(lit => formatLiteral(lit, variables)).join(' ∨ ');
+
+export default function DratTraceViewer({ steps, variables }: DratTraceViewerProps) {
+  const [index, setIndex] = useState(0);
+  const step = steps[index];
+  const visible = steps.slice(Math.max(0, index - 3), index + 4);
+  const windowStart = Math.max(0, index - 3);
+
+  if (steps.length === 0) return null;
+
+  return (
+    <div className="drat-viewer">
+      <div className="drat-controls">
+        <button className="fhe-button" onClick={() => setIndex(0)} disabled={index === 0}>⏮</button>
+        <button className="fhe-button" onClick={() => setIndex(i => i - 1)} disabled={index === 0}>◀</button>
+        <span>Step {index + 1} of {steps.length}</span>
+        <button className="fhe-button" onClick={() => setIndex(i => i + 1)} disabled={index === steps.length - 1}>▶</button>
+        <button className="fhe-button" onClick={() => setIndex(steps.length - 1)} disabled={index === steps.length - 1}>⏭</button>
+      </div>
+      <div className={`drat-current ${step.kind}`}>
+        <strong>{step.kind === 'add' ? 'Learn' : 'Delete'}</strong>
+        <code>{formatClause(step.clause, variables)}</code>
+      </div>
+      <ol className="drat-window" start={windowStart + 1}>
+        {visible.map((s, i) => (
+          <li
+            key={windowStart + i}
+            className={windowStart + i === index ? 'active' : ''}
+            onClick={() => setIndex(windowStart + i)}
+          >
+            <code>{s.kind === 'delete' ? 'd ' : ''}{[...s.clause, 0].join(' ')}</code>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import React, { useMemo } from 'react';
+import { Expr, MathNode, printLatex, printMathML } from '../descriptor';
+
+// MathML elements are not part of React's JSX typings, so they are created by tag name
+export function renderMath(node: MathNode, key?: number): React.ReactElement {
+  return React.createElement(node.tag, { key, ...node.attributes }, node.text ?? node.children?.map(renderMath));
+}
+
+export function MathElement({ node, display = false }: { node: MathNode; display?: boolean }) {
+  return React.createElement('math', { className: 'formula', display: display ? 'block' : 'inline' }, renderMath(node));
+}
+
+interface FormulaProps {
+  ast: Expr;
+  display?: boolean;
+}
+
+// A descriptor theorem typeset with MathML; the LaTeX spelling is shown on hover
+export default function Formula({ ast, display }: FormulaProps) {
+  const node = useMemo(() => printMathML(ast), [ast]);
+  const latex = useMemo(() => printLatex(ast), [ast]);
+  return (
+    <span className="formula-container" title={latex}>
+      <MathElement node={node} display={display} />
+    </span>
+  );
+}
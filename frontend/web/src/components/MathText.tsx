@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { BINARY_SYMBOLS, DescriptorSyntaxError, MathNode, Token, parseLatex, printMathML, tokenizeLatex } from '../descriptor';
+import { MathElement } from './Formula';
+
+interface MathTextProps {
+  // Plain text with $...$ LaTeX segments, as in theorem names and descriptions
+  text: string;
+}
+
+type Segment =
+  | { kind: 'text'; text: string }
+  | { kind: 'math'; source: string; node: MathNode; note?: string }
+  | { kind: 'error'; source: string; message: string };
+
+const SYMBOL_TEXT: Record<string, string> = {
+  ...BINARY_SYMBOLS,
+  sub: '−',
+  mul: '·',
+  mod: 'mod',
+  forall: '∀',
+  exists: '∃',
+  in: '∈',
+  not: '¬',
+  Nat: 'ℕ',
+  Int: 'ℤ',
+  Bool: '𝔹',
+  '..': '…'
+};
+
+// Math that is not a whole formula, like "$\mathbb{Z}$" or "$x^2$", is still typeset token
+// by token: {...} groups and \frac arguments become rows, ^ takes the next token or group
+function typesetTokens(tokens: Token[]): MathNode {
+  let i = 0;
+  const atom = (): MathNode => {
+    const token = tokens[i++];
+    if (token.text === '{') return { tag: 'mrow', children: row() };
+    if (token.text === '\\frac') {
+      i++;
+      const numerator: MathNode = { tag: 'mrow', children: row() };
+      i += 2;
+      const denominator: MathNode = { tag: 'mrow', children: row() };
+      i++;
+      return { tag: 'mfrac', children: [numerator, denominator] };
+    }
+    if (token.type === 'number') return { tag: 'mn', text: token.value };
+    if (token.type === 'ident') return { tag: 'mi', text: token.value };
+    return { tag: 'mo', text: SYMBOL_TEXT[token.value] ?? token.value };
+  };
+  // Up to the '}' closing the current group, which is consumed
+  const row = (): MathNode[] => {
+    const nodes: MathNode[] = [];
+    while (tokens[i].type !== 'eof') {
+      if (tokens[i].text === '}') {
+        i++;
+        break;
+      }
+      if (tokens[i].value === 'pow' && nodes.length > 0 && tokens[i + 1].type !== 'eof') {
+        i++;
+        nodes.push({ tag: 'msup', children: [nodes.pop()!, atom()] });
+      } else {
+        nodes.push(atom());
+      }
+    }
+    return nodes;
+  };
+  return { tag: 'mrow', children: row() };
+}
+
+function segments(text: string): Segment[] {
+  return text.split(/(\$[^$]*\$)/).map((part, index): Segment => {
+    if (index % 2 === 0) return { kind: 'text', text: part };
+    const source = part.slice(1, -1);
+    try {
+      return { kind: 'math', source, node: printMathML(parseLatex(source)) };
+    } catch (e) {
+      if (!(e instanceof DescriptorSyntaxError)) throw e;
+      try {
+        return { kind: 'math', source, node: typesetTokens(tokenizeLatex(source)), note: e.diagnostic.message };
+      } catch (lexError) {
+        if (!(lexError instanceof DescriptorSyntaxError)) throw lexError;
+        return { kind: 'error', source, message: lexError.diagnostic.message };
+      }
+    }
+  });
+}
+
+// Unsupported macros leave the segment as written, marked with the error
+export default function MathText({ text }: MathTextProps) {
+  const parts = useMemo(() => segments(text), [text]);
+  return (
+    <span className="math-text">
+      {parts.map((part, i) => {
+        switch (part.kind) {
+          case 'text':
+            return <React.Fragment key={i}>{part.text}</React.Fragment>;
+          case 'math':
+            return (
+              <span key={i} className="formula-container" title={part.note ? `${part.source}\n(not a formula: ${part.note})` : part.source}>
+                <MathElement node={part.node} />
+              </span>
+            );
+          case 'error':
+            return (
+              <span key={i} className="math-error" title={part.message}>
+                <code>${part.source}$</code>
+                <small>{part.message}</small>
+              </span>
+            );
+        }
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ProofGraph, ProofNode, dependencies } from '../prover/proofGraph';
+
+interface ProofGraphViewProps {
+  graph: ProofGraph;
+  // Theorem source the node spans point into; CNF imports have none
+  source?: string;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 44;
+const H_GAP = 24;
+const LAYER_HEIGHT = 90;
+const MAX_LABEL = 26;
+
+const truncate = (text: string) => (text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1)}…` : text);
+
+// Premises always have smaller ids than the nodes that use them, so walking ids downwards
+// from the root visits every node after all of its consumers
+function layout(graph: ProofGraph, collapsed: Set<number>) {
+  const byId = new Map(graph.nodes.map(n => [n.id, n]));
+  const depth = new Map<number, number>([[graph.root, 0]]);
+  for (const node of [...graph.nodes].sort((a, b) => b.id - a.id)) {
+    const d = depth.get(node.id);
+    if (d === undefined || collapsed.has(node.id)) continue;
+    for (const p of node.premises) depth.set(p, Math.max(depth.get(p) ?? 0, d + 1));
+  }
+
+  const layers: ProofNode[][] = [];
+  for (const [id, d] of depth) (layers[d] ??= []).push(byId.get(id)!);
+  const width = Math.max(...layers.map(l => l.length)) * (NODE_WIDTH + H_GAP);
+  const positions = new Map<number, { x: number; y: number }>();
+  layers.forEach((layer, d) => {
+    layer.sort((a, b) => a.id - b.id);
+    const offset = (width - layer.length * (NODE_WIDTH + H_GAP)) / 2;
+    layer.forEach((node, i) => positions.set(node.id, { x: offset + i * (NODE_WIDTH + H_GAP), y: d * LAYER_HEIGHT }));
+  });
+  return { positions, width, height: layers.length * LAYER_HEIGHT };
+}
+
+export default function ProofGraphView({ graph, source }: ProofGraphViewProps) {
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [selected, setSelected] = useState<number | null>(null);
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  const { positions, width, height } = useMemo(() => layout(graph, collapsed), [graph, collapsed]);
+  const highlighted = useMemo(() => (selected === null ? null : dependencies(graph, selected)), [graph, selected]);
+  const visible = graph.nodes.filter(n => positions.has(n.id));
+  const selectedNode = graph.nodes.find(n => n.id === selected);
+
+  const toggle = (id: number) =>
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const zoom = (factor: number) => setView(v => ({ ...v, scale: Math.min(4, Math.max(0.1, v.scale * factor)) }));
+
+  return (
+    <div className="proof-graph">
+      <div className="proof-graph-controls">
+        <button className="fhe-button" onClick={() => zoom(1.25)}>+</button>
+        <button className="fhe-button" onClick={() => zoom(0.8)}>−</button>
+        <button className="fhe-button" onClick={() => setView({ scale: 1, x: 0, y: 0 })}>Reset</button>
+        <span>
+          {visible.length} of {graph.nodes.length} nodes
+          {graph.truncated > 0 && ` (${graph.truncated} more in the full proof)`}
+        </span>
+      </div>
+      <svg
+        className="proof-graph-canvas"
+        viewBox={`0 0 ${Math.max(width, NODE_WIDTH)} ${Math.max(height, LAYER_HEIGHT)}`}
+        onWheel={e => zoom(e.deltaY < 0 ? 1.1 : 0.9)}
+        onMouseDown={e => { drag.current = { x: e.clientX - view.x, y: e.clientY - view.y }; }}
+        onMouseMove={e => {
+          const start = drag.current;
+          if (start) setView(v => ({ ...v, x: e.clientX - start.x, y: e.clientY - start.y }));
+        }}
+        onMouseUp={() => { drag.current = null; }}
+        onMouseLeave={() => { drag.current = null; }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {visible.flatMap(node =>
+            collapsed.has(node.id)
+              ? []
+              : node.premises.map(p => {
+                  const from = positions.get(node.id)!;
+                  const to = positions.get(p)!;
+                  const lit = highlighted?.has(node.id) && highlighted.has(p);
+                  return (
+                    <line
+                      key={`${node.id}-${p}`}
+                      className={`proof-edge ${lit ? 'highlighted' : ''}`}
+                      x1={from.x + NODE_WIDTH / 2}
+                      y1={from.y + NODE_HEIGHT}
+                      x2={to.x + NODE_WIDTH / 2}
+                      y2={to.y}
+                    />
+                  );
+                })
+          )}
+          {visible.map(node => {
+            const { x, y } = positions.get(node.id)!;
+            const dimmed = highlighted && !highlighted.has(node.id);
+            return (
+              <g
+                key={node.id}
+                className={`proof-node ${node.id === selected ? 'selected' : ''} ${dimmed ? 'dimmed' : ''}`}
+                transform={`translate(${x} ${y})`}
+                onClick={() => setSelected(node.id === selected ? null : node.id)}
+              >
+                <title>{`${node.label}\n${node.rule}`}</title>
+                <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} />
+                <text x={8} y={18}>{truncate(node.label)}</text>
+                <text x={8} y={35} className="proof-node-rule">{node.rule}</text>
+                {(node.premises.length > 0 || node.hiddenPremises) && (
+                  <text
+                    x={NODE_WIDTH - 16}
+                    y={35}
+                    className="proof-node-toggle"
+                    onClick={e => { e.stopPropagation(); toggle(node.id); }}
+                  >
+                    {collapsed.has(node.id) ? '▸' : '▾'}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      {selectedNode && (
+        <div className="proof-node-details">
+          <div><strong>{selectedNode.rule}</strong> <code>{selectedNode.label}</code></div>
+          <div>
+            {selectedNode.premises.length} premises
+            {selectedNode.hiddenPremises ? `, ${selectedNode.hiddenPremises} not shown` : ''}
+            {highlighted && `, ${highlighted.size - 1} transitive dependencies`}
+          </div>
+          {source && selectedNode.span && (
+            <pre className="proof-node-source">
+              {source.slice(0, selectedNode.span.start.offset)}
+              <mark>{source.slice(selectedNode.span.start.offset, selectedNode.span.end.offset)}</mark>
+              {source.slice(selectedNode.span.end.offset)}
+            </pre>
+          )}
+          {selectedNode.span && (
+            <div className="proof-node-location">
+              Line {selectedNode.span.start.line}, column {selectedNode.span.start.column}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
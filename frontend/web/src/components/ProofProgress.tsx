@@ -0,0 +1,48 @@
+import React from 'react';
+import { ProgressEvent, describeProgress, progressFraction } from '../prover/progress';
+import { ProofMilestone } from '../store/recordSchema';
+
+interface ProofProgressProps {
+  // Live events exist only in the tab running the search
+  event?: ProgressEvent;
+  milestones?: ProofMilestone[];
+}
+
+const PHASES = [
+  { phase: 'encoding', label: 'Encode' },
+  { phase: 'solving', label: 'CDCL search' },
+  { phase: 'enumerating', label: 'Enumerate' }
+] as const;
+
+export default function ProofProgress({ event, milestones }: ProofProgressProps) {
+  const started = milestones?.find(m => m.name === 'started');
+
+  if (!event) {
+    return (
+      <div className="proving-progress">
+        <div className="progress-bar indeterminate"><div className="progress-fill"></div></div>
+        <span>
+          {started
+            ? `Search started ${new Date(started.at * 1000).toLocaleString()}${started.engine ? ` (${started.engine})` : ''}`
+            : 'Search started'}
+        </span>
+      </div>
+    );
+  }
+
+  const fraction = progressFraction(event);
+  const phases = PHASES.filter(p => (event.phase === 'enumerating') === (p.phase === 'enumerating'));
+  return (
+    <div className="proving-progress">
+      <div className="progress-phases">
+        {phases.map(p => (
+          <span key={p.phase} className={`progress-phase ${p.phase === event.phase ? 'active' : ''}`}>{p.label}</span>
+        ))}
+      </div>
+      <div className={`progress-bar ${fraction === null ? 'indeterminate' : ''}`}>
+        <div className="progress-fill" style={fraction === null ? undefined : { width: `${fraction * 100}%` }}></div>
+      </div>
+      <span>{describeProgress(event)}</span>
+    </div>
+  );
+}
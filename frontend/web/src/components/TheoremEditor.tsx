@@ -0,0 +1,208 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Diagnostic, StatementSyntax, ValidationResult, validateTheorem } from '../descriptor';
+import {
+  Completion,
+  HighlightToken,
+  completions,
+  declaredNames,
+  expandShortcut,
+  highlightTokens,
+  matchBracket,
+  unmatchedBrackets
+} from '../descriptor/editor';
+import './TheoremEditor.css';
+
+interface TheoremEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  syntax?: StatementSyntax;
+  // The caller's parse and type-check result; the editor validates by itself when absent
+  validation?: ValidationResult | null;
+  placeholder?: string;
+  rows?: number;
+  id?: string;
+}
+
+// One class per character, then runs of equal classes become spans. The extra cell at the
+// end stands in for the line a trailing newline opens and for errors at end of input.
+function highlightRuns(
+  value: string,
+  tokens: HighlightToken[],
+  diagnostics: Diagnostic[],
+  marked: HighlightToken[],
+  unmatched: HighlightToken[],
+  caret: number,
+  caretMarker: React.RefObject<HTMLSpanElement | null>
+): React.ReactNode[] {
+  const text = value + ' ';
+  const classes: string[] = new Array(text.length).fill('');
+  const add = (start: number, end: number, name: string) => {
+    for (let i = start; i < Math.min(end, text.length); i++) classes[i] += ` ${name}`;
+  };
+  for (const token of tokens) add(token.start, token.end, `te-${token.kind}`);
+  for (const d of diagnostics) add(d.span.start.offset, Math.max(d.span.end.offset, d.span.start.offset + 1), `te-${d.severity}`);
+  for (const token of unmatched) add(token.start, token.end, 'te-unmatched');
+  for (const token of marked) add(token.start, token.end, 'te-matched');
+
+  const runs: React.ReactNode[] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i < text.length && classes[i] === classes[start] && i !== caret) continue;
+    if (start === caret) runs.push(<span key="caret" ref={caretMarker} />);
+    runs.push(<span key={start} className={classes[start].trim() || undefined}>{text.slice(start, i)}</span>);
+    start = i;
+  }
+  return runs;
+}
+
+// A textarea over a highlighted copy of its text, so selection, undo and IME input stay native
+export default function TheoremEditor({ value, onChange, syntax = 'tdl', validation, placeholder, rows = 3, id }: TheoremEditorProps) {
+  const input = useRef<HTMLTextAreaElement>(null);
+  const highlight = useRef<HTMLPreElement>(null);
+  const caretMarker = useRef<HTMLSpanElement>(null);
+  // Caret to restore after an edit made here rather than by the browser
+  const pendingCaret = useRef<number | null>(null);
+  const [caret, setCaret] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [dismissed, setDismissed] = useState(true);
+  const [active, setActive] = useState(0);
+  const [popup, setPopup] = useState({ left: 0, top: 0 });
+
+  const ownValidation = useMemo(
+    () => (validation !== undefined || !value.trim() ? null : validateTheorem(value, syntax)),
+    [validation, value, syntax]
+  );
+  const result = validation !== undefined ? validation : ownValidation;
+  const diagnostics = result?.diagnostics ?? [];
+
+  const tokens = useMemo(() => highlightTokens(value, syntax), [value, syntax]);
+  const unmatched = useMemo(() => unmatchedBrackets(tokens), [tokens]);
+  const names = useMemo(() => declaredNames(tokens), [tokens]);
+  const completion = useMemo(() => completions(value, caret, syntax, names), [value, caret, syntax, names]);
+  const showCompletion = focused && !dismissed && completion.items.length > 0;
+  const pair = focused ? matchBracket(tokens, caret) : null;
+  const marked = pair?.match ? [pair.bracket, pair.match] : [];
+
+  useLayoutEffect(() => {
+    if (pendingCaret.current !== null && input.current) {
+      input.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      setCaret(pendingCaret.current);
+      pendingCaret.current = null;
+    }
+  }, [value]);
+
+  useLayoutEffect(() => {
+    const marker = caretMarker.current;
+    if (!showCompletion || !marker || !highlight.current) return;
+    setPopup({
+      left: marker.offsetLeft - highlight.current.scrollLeft,
+      top: marker.offsetTop + marker.offsetHeight - highlight.current.scrollTop
+    });
+  }, [showCompletion, caret, value]);
+
+  const edit = (next: string, position: number) => {
+    pendingCaret.current = position;
+    onChange(next);
+  };
+
+  const accept = (item: Completion) => {
+    setDismissed(true);
+    edit(value.slice(0, completion.from) + item.insert + value.slice(caret), completion.from + item.insert.length);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    const position = e.target.selectionStart;
+    setCaret(position);
+    setDismissed(false);
+    setActive(0);
+    // \forall followed by a space or symbol becomes ∀; LaTeX input keeps its macros
+    const expanded = syntax === 'tdl' && next.length === value.length + 1 ? expandShortcut(next, position) : null;
+    if (expanded) edit(expanded.text, expanded.caret);
+    else onChange(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showCompletion) return;
+    const count = completion.items.length;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive(a => (a + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completion.items[Math.min(active, count - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDismissed(true);
+    }
+  };
+
+  const jumpTo = (offset: number) => {
+    input.current?.focus();
+    input.current?.setSelectionRange(offset, offset);
+    setCaret(offset);
+  };
+
+  return (
+    <div className={`theorem-editor ${result && !result.ast ? 'invalid' : ''}`}>
+      <div className="theorem-editor-area">
+        <pre ref={highlight} className="theorem-editor-highlight" aria-hidden="true">
+          {highlightRuns(value, tokens, diagnostics, marked, unmatched, caret, caretMarker)}
+        </pre>
+        <textarea
+          ref={input}
+          id={id}
+          className="theorem-editor-input"
+          value={value}
+          rows={rows}
+          placeholder={placeholder}
+          spellCheck={false}
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={showCompletion}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={e => setCaret(e.currentTarget.selectionStart)}
+          onScroll={e => {
+            highlight.current!.scrollTop = e.currentTarget.scrollTop;
+            highlight.current!.scrollLeft = e.currentTarget.scrollLeft;
+          }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+        />
+        {showCompletion && (
+          <ul className="theorem-editor-completions" role="listbox" style={{ left: popup.left, top: popup.top }}>
+            {completion.items.map((item, i) => (
+              <li
+                key={`${item.label}-${item.detail}`}
+                role="option"
+                aria-selected={i === active}
+                className={i === active ? 'active' : ''}
+                onMouseDown={e => {
+                  e.preventDefault();
+                  accept(item);
+                }}
+              >
+                <span>{item.label}</span>
+                <span className="theorem-editor-detail">{item.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {result && (
+        <ul className="theorem-editor-diagnostics">
+          {diagnostics.length === 0 ? (
+            <li className="ok">✓ Well-formed statement</li>
+          ) : (
+            diagnostics.map((d, i) => (
+              <li key={i} className={d.severity} onClick={() => jumpTo(d.span.start.offset)}>
+                {d.span.start.line}:{d.span.start.column} {d.message}
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
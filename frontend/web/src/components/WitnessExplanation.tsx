@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Expr, sortToString } from '../descriptor';
+import { CounterexampleWitness, ExplanationNode, WitnessError, explainWitness } from '../prover/witness';
+
+interface WitnessExplanationProps {
+  witness: CounterexampleWitness;
+  // Imported CNF theorems have no AST; their witness is shown as a plain assignment
+  ast?: Expr;
+}
+
+function ExplanationTree({ node }: { node: ExplanationNode }) {
+  return (
+    <li className={`explanation-node ${node.value === 'false' ? 'false' : ''} ${node.exact ? '' : 'inexact'}`}>
+      <div className="explanation-row" title={`line ${node.span.start.line}, column ${node.span.start.column}`}>
+        <code>{node.text}</code>
+        <span className="explanation-value">↦ {node.value}</span>
+        {node.note && <span className="explanation-note">{node.note}</span>}
+      </div>
+      {node.children.length > 0 && (
+        <ul>
+          {node.children.map((child, i) => <ExplanationTree key={i} node={child} />)}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function WitnessExplanation({ witness, ast }: WitnessExplanationProps) {
+  const explanation = useMemo(() => {
+    if (!ast) return null;
+    try {
+      return explainWitness(ast, witness);
+    } catch (e) {
+      if (e instanceof WitnessError) return { error: e.message };
+      throw e;
+    }
+  }, [ast, witness]);
+
+  return (
+    <div className="witness-explanation">
+      {witness.bindings.length > 0 && (
+        <table className="witness-bindings">
+          <tbody>
+            {witness.bindings.map(b => (
+              <tr key={b.name}>
+                <td><code>{b.name}</code></td>
+                <td>{sortToString(b.sort)}</td>
+                <td><strong>{String(b.value)}</strong></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {explanation && 'error' in explanation && <div className="witness-verdict error">{explanation.error}</div>}
+      {explanation && 'tree' in explanation && (
+        <>
+          <div className={`witness-verdict ${explanation.refutes ? '' : 'error'}`}>
+            {explanation.refutes
+              ? 'The instance evaluates to false, so the theorem does not hold.'
+              : 'This assignment does not evaluate exactly to false.'}
+          </div>
+          <ul className="explanation-tree">
+            <ExplanationTree node={explanation.tree} />
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
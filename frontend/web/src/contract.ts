@@ -1,86 +1,175 @@
-// contract.ts
-import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
-
-export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
-
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
-export async function getContractReadOnly() {
-  try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
-      return null;
-    }
-    
-    return contract;
-  } catch (error) {
-    console.error("Failed to create read-only contract:", error);
-    return null;
-  }
-}
-
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
-  try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
-  } catch (error) {
-    console.error("Failed to create contract with signer:", error);
-    throw error;
-  }
-}
-
-export function normAddr(a: string) { 
-  return a ? a.toLowerCase() : a; 
-}
\ No newline at end of file
+// contract.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/UniversalAdapter.json";
+import proverAbiJson from "./abi/TheoremProverFHE.json";
+import configJson from "./config.json";
+import { ContractName, DeploymentConfig, DeploymentManifest, DeploymentMismatchError, verifyDeployment } from "./deployment";
+
+export const ABI = (abiJson as any).abi || abiJson;
+export const PROVER_ABI = (proverAbiJson as any).abi || proverAbiJson;
+export const deploymentConfig: DeploymentConfig = configJson;
+
+const SEPOLIA_CHAIN_ID = 11155111;
+
+// A network's manifest with the addresses the app works with
+export interface NetworkConfig {
+  chainId: number;
+  manifest: DeploymentManifest;
+  contractAddress: string;
+  proverAddress: string;
+  adapterDeployBlock: number;
+}
+
+// A chain without a manifest gets an empty one, so using it fails in verifyDeployment
+export function networkConfig(chainId: number): NetworkConfig {
+  const manifest = deploymentConfig.networks[chainId] ?? { network: `chain ${chainId}`, chainId, contracts: {} };
+  return {
+    chainId,
+    manifest,
+    contractAddress: manifest.contracts.UniversalAdapter?.address ?? "",
+    proverAddress: manifest.contracts.TheoremProverFHE?.address ?? "",
+    adapterDeployBlock: manifest.contracts.UniversalAdapter?.blockNumber ?? 0
+  };
+}
+
+let active = networkConfig(deploymentConfig.defaultChainId);
+
+// The network the app reads from and submits to: the wallet's chain once one is connected
+export const activeNetwork = () => active;
+
+export function selectNetwork(chainId: number): NetworkConfig {
+  if (chainId !== active.chainId) active = networkConfig(chainId);
+  return active;
+}
+
+// Deployments already checked against the bundled ABIs, by chain and contract
+const verified = new Set<string>();
+
+async function verify(provider: ethers.Provider, contract: ContractName, abi: ethers.InterfaceAbi) {
+  const key = `${active.chainId}:${contract}`;
+  if (verified.has(key)) return;
+  await retry(() => verifyDeployment(provider, active.manifest, contract, abi));
+  verified.add(key);
+}
+
+// A deployment mismatch is final; anything else may be a flaky RPC
+const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    if (retries > 0 && !(e instanceof DeploymentMismatchError)) {
+      await new Promise(res => setTimeout(res, delay));
+      return retry(fn, retries - 1, delay * 2);
+    }
+    throw e;
+  }
+};
+
+const SEPOLIA_RPC_URLS = [
+  "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+  "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
+  "https://rpc.sepolia.org",
+  "https://rpc2.sepolia.org",
+  "https://eth-sepolia.public.blastapi.io"
+];
+
+// The manifest's RPC endpoint, then the public Sepolia ones
+const getReadProvider = async () => {
+  const { chainId, manifest } = active;
+  const rpcUrls = [...(manifest.rpcUrl ? [manifest.rpcUrl] : []), ...(chainId === SEPOLIA_CHAIN_ID ? SEPOLIA_RPC_URLS : [])];
+
+  for (const url of rpcUrls) {
+    try {
+      const provider = new ethers.JsonRpcProvider(url, {
+        name: manifest.network,
+        chainId
+      }, { staticNetwork: true });
+
+      await Promise.race([
+        provider.getBlockNumber(),
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error("RPC timeout")), 10000)
+        )
+      ]);
+
+      return provider;
+    } catch (error) {
+    }
+  }
+
+  throw new Error(`All RPC providers for ${manifest.network} failed`);
+};
+
+// The wallet's provider, refusing a chain other than the one the app has selected
+const getWalletProvider = async () => {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== active.chainId) {
+    throw new Error(`The wallet is on chain ${chainId}, but the app is using ${active.manifest.network} (chain ${active.chainId})`);
+  }
+  return provider;
+};
+
+// A deployment that does not match the bundled ABI is thrown; being offline returns null
+export async function getContractReadOnly() {
+  try {
+    const provider = await getReadProvider();
+    await verify(provider, "UniversalAdapter", ABI);
+    return new ethers.Contract(active.contractAddress, ABI, provider);
+  } catch (error) {
+    if (error instanceof DeploymentMismatchError) throw error;
+    console.error("Failed to create read-only contract:", error);
+    return null;
+  }
+}
+
+export async function getProverContractReadOnly() {
+  if (!active.manifest.contracts.TheoremProverFHE) return null;
+  try {
+    const provider = await getReadProvider();
+    await verify(provider, "TheoremProverFHE", PROVER_ABI);
+    return new ethers.Contract(active.proverAddress, PROVER_ABI, provider);
+  } catch (error) {
+    if (error instanceof DeploymentMismatchError) throw error;
+    console.error("Failed to create read-only prover contract:", error);
+    return null;
+  }
+}
+
+export async function getContractWithSigner() {
+  try {
+    const provider = await getWalletProvider();
+    await verify(provider, "UniversalAdapter", ABI);
+    const signer = await provider.getSigner();
+    const contract = new ethers.Contract(active.contractAddress, ABI, signer);
+    return contract;
+  } catch (error) {
+    console.error("Failed to create contract with signer:", error);
+    throw error;
+  }
+}
+
+export function normAddr(a: string) {
+  return a ? a.toLowerCase() : a;
+}
+
+// Address that theorem ciphertexts are bound to; submitting needs a prover on the active chain
+export function requireProverAddress(): string {
+  if (!active.manifest.contracts.TheoremProverFHE) {
+    throw new Error(
+      `TheoremProverFHE is not deployed on ${active.manifest.network}; deploy it with npx hardhat deploy:prover --network ${active.manifest.network}`
+    );
+  }
+  return active.proverAddress;
+}
+
+export async function getProverContractWithSigner() {
+  requireProverAddress();
+  const provider = await getWalletProvider();
+  await verify(provider, "TheoremProverFHE", PROVER_ABI);
+  const signer = await provider.getSigner();
+  return new ethers.Contract(active.proverAddress, PROVER_ABI, signer);
+}
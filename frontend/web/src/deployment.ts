@@ -0,0 +1,84 @@
+// deployment.ts
+// Deployment manifests: where each contract lives on a network, the hash of the ABI it was
+// deployed with and the hash of its runtime code. `npx hardhat deploy:*` writes one
+// manifest per network to deployments/ and collects them into config.json by chain ID.
+// Shared with the Node tasks, so nothing here may import fhe.ts.
+import { ethers } from "ethers";
+
+export type ContractName = "UniversalAdapter" | "TheoremProverFHE";
+
+export interface ContractDeployment {
+  address: string;
+  // abiHash() of the ABI the contract was deployed with
+  abiHash: string;
+  // keccak256 of the runtime code at `address`; unknown for deployments made before
+  // manifests existed, whose code is then not checked
+  codeHash?: string;
+  blockNumber: number;
+  transactionHash?: string;
+  deployer: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  // JSON-RPC endpoint from hardhat.config.ts, used for read-only access
+  rpcUrl?: string;
+  contracts: Partial<Record<ContractName, ContractDeployment>>;
+}
+
+// The frontend's config.json, written by the deploy tasks
+export interface DeploymentConfig {
+  defaultChainId: number;
+  networks: Record<string, DeploymentManifest>;
+}
+
+// Hash of the normalized ABI, so key order and formatting of the JSON don't matter
+export function abiHash(abi: ethers.InterfaceAbi): string {
+  return ethers.id(ethers.Interface.from(abi).formatJson());
+}
+
+export class DeploymentMismatchError extends Error {
+  constructor(
+    readonly contract: ContractName,
+    readonly chainId: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "DeploymentMismatchError";
+  }
+}
+
+// Check that the code at the manifest's address is what was deployed and that `abi` is the
+// ABI it was deployed with; a stale ABI would otherwise fail later as undecodable calls
+export async function verifyDeployment(
+  provider: ethers.Provider,
+  manifest: DeploymentManifest,
+  contract: ContractName,
+  abi: ethers.InterfaceAbi
+): Promise<ContractDeployment> {
+  const deployment = manifest.contracts[contract];
+  if (!deployment) {
+    throw new DeploymentMismatchError(contract, manifest.chainId, `${contract} is not deployed on ${manifest.network} (chain ${manifest.chainId})`);
+  }
+  const bundled = abiHash(abi);
+  if (bundled !== deployment.abiHash) {
+    throw new DeploymentMismatchError(
+      contract,
+      manifest.chainId,
+      `The ${contract} ABI in this build (hash ${bundled.slice(0, 10)}) is not the one deployed at ${deployment.address} on ${manifest.network} (hash ${deployment.abiHash.slice(0, 10)}); redeploy or rebuild from the deployment's ABI`
+    );
+  }
+  const code = await provider.getCode(deployment.address);
+  if (code === "0x") {
+    throw new DeploymentMismatchError(contract, manifest.chainId, `No contract at ${deployment.address} on ${manifest.network}; the ${contract} deployment in the manifest is gone`);
+  }
+  if (deployment.codeHash && ethers.keccak256(code) !== deployment.codeHash) {
+    throw new DeploymentMismatchError(
+      contract,
+      manifest.chainId,
+      `The code at ${deployment.address} on ${manifest.network} does not match the ${contract} deployment in the manifest`
+    );
+  }
+  return deployment;
+}
@@ -0,0 +1,93 @@
+// descriptor/ast.ts
+// Typed AST for the Theorem Descriptor Language.
+
+export interface Position {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export type Sort =
+  | { kind: "nat" }
+  | { kind: "int" }
+  | { kind: "bool" }
+  | { kind: "range"; lo: number; hi: number };
+
+// The two value types every expression evaluates to; ℕ and ranges are refinements of int
+export type ValueType = "int" | "bool";
+
+export type UnaryOp = "neg" | "not";
+
+export type ArithOp = "add" | "sub" | "mul" | "div" | "mod" | "pow";
+export type CompareOp = "eq" | "ne" | "lt" | "le" | "gt" | "ge";
+export type LogicOp = "and" | "or" | "implies" | "iff";
+export type BinaryOp = ArithOp | CompareOp | LogicOp;
+
+export type Quantifier = "forall" | "exists";
+
+export interface Binder {
+  name: string;
+  sort: Sort;
+  span: Span;
+}
+
+export type Expr =
+  | { kind: "int"; value: number; span: Span }
+  | { kind: "bool"; value: boolean; span: Span }
+  | { kind: "var"; name: string; span: Span }
+  | { kind: "unary"; op: UnaryOp; operand: Expr; span: Span }
+  | { kind: "binary"; op: BinaryOp; left: Expr; right: Expr; span: Span }
+  | { kind: "quant"; quantifier: Quantifier; binders: Binder[]; body: Expr; span: Span };
+
+// Statements are written in the Theorem Descriptor Language or in LaTeX math (latex.ts)
+export type StatementSyntax = "tdl" | "latex";
+
+export interface TheoremDescriptor {
+  source: string;
+  ast: Expr;
+  // Absent for TDL sources
+  syntax?: "latex";
+}
+
+export const ARITH_OPS: readonly ArithOp[] = ["add", "sub", "mul", "div", "mod", "pow"];
+export const COMPARE_OPS: readonly CompareOp[] = ["eq", "ne", "lt", "le", "gt", "ge"];
+export const LOGIC_OPS: readonly LogicOp[] = ["and", "or", "implies", "iff"];
+
+export const isArithOp = (op: BinaryOp): op is ArithOp => (ARITH_OPS as readonly string[]).includes(op);
+export const isCompareOp = (op: BinaryOp): op is CompareOp => (COMPARE_OPS as readonly string[]).includes(op);
+export const isLogicOp = (op: BinaryOp): op is LogicOp => (LOGIC_OPS as readonly string[]).includes(op);
+
+export const sortValueType = (sort: Sort): ValueType => (sort.kind === "bool" ? "bool" : "int");
+
+export const BINARY_SYMBOLS: Record<BinaryOp, string> = {
+  add: "+",
+  sub: "-",
+  mul: "*",
+  div: "/",
+  mod: "%",
+  pow: "^",
+  eq: "=",
+  ne: "≠",
+  lt: "<",
+  le: "≤",
+  gt: ">",
+  ge: "≥",
+  and: "∧",
+  or: "∨",
+  implies: "→",
+  iff: "↔"
+};
+
+export function sortToString(sort: Sort): string {
+  switch (sort.kind) {
+    case "nat": return "ℕ";
+    case "int": return "ℤ";
+    case "bool": return "Bool";
+    case "range": return `[${sort.lo}..${sort.hi}]`;
+  }
+}
@@ -0,0 +1,240 @@
+// descriptor/compiler.ts
+// Lowers a descriptor AST into a fixed-width vector of 32-bit words (prefix order) plus a
+// small boolean lane, the shape that gets encrypted as euint32/ebool inputs. Every program
+// is padded to the same width so ciphertext counts don't leak the size of the theorem.
+import { BinaryOp, Binder, Expr, Sort, Span } from "./ast";
+
+export const PROGRAM_WIDTH = 48;
+export const BOOL_LANE_WIDTH = 8;
+export const PROGRAM_VERSION = 1;
+
+// Each word is (opcode << 24) | operand
+export enum Opcode {
+  Nop = 0,
+  Header = 1,
+  Const = 2, // operand unused; the value follows as its own two's-complement word
+  Bool = 3, // operand = index into the boolean lane
+  Var = 4, // operand = binder slot, counted in declaration order
+  Neg = 5,
+  Not = 6,
+  Forall = 7, // operand = number of binders, each followed by its sort words
+  Exists = 8,
+  Sort = 9, // operand = SortCode; ranges are followed by lo and hi words
+  Add = 16,
+  Sub,
+  Mul,
+  Div,
+  Mod,
+  Pow,
+  Eq,
+  Ne,
+  Lt,
+  Le,
+  Gt,
+  Ge,
+  And,
+  Or,
+  Implies,
+  Iff
+}
+
+export enum SortCode {
+  Nat = 0,
+  Int = 1,
+  Bool = 2,
+  Range = 3
+}
+
+const BINARY_OPCODES: Record<BinaryOp, Opcode> = {
+  add: Opcode.Add,
+  sub: Opcode.Sub,
+  mul: Opcode.Mul,
+  div: Opcode.Div,
+  mod: Opcode.Mod,
+  pow: Opcode.Pow,
+  eq: Opcode.Eq,
+  ne: Opcode.Ne,
+  lt: Opcode.Lt,
+  le: Opcode.Le,
+  gt: Opcode.Gt,
+  ge: Opcode.Ge,
+  and: Opcode.And,
+  or: Opcode.Or,
+  implies: Opcode.Implies,
+  iff: Opcode.Iff
+};
+
+const OPCODE_BINARY = new Map<number, BinaryOp>(
+  (Object.entries(BINARY_OPCODES) as [BinaryOp, Opcode][]).map(([op, code]) => [code, op])
+);
+
+const MAX_OPERAND = 0xffffff;
+
+export interface CompiledTheorem {
+  words: number[];
+  bools: boolean[];
+  // Variable names are not encrypted; slot i of the program is variables[i]
+  variables: string[];
+}
+
+export class ProgramError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProgramError";
+  }
+}
+
+export const word = (opcode: Opcode, operand = 0): number => ((opcode << 24) | (operand & MAX_OPERAND)) >>> 0;
+export const opcodeOf = (w: number): number => w >>> 24;
+export const operandOf = (w: number): number => w & MAX_OPERAND;
+
+const toWord = (value: number) => value >>> 0;
+const fromWord = (w: number) => w | 0;
+
+const isInt32 = (value: number) => value >= -0x80000000 && value <= 0x7fffffff;
+
+export function compileTheorem(ast: Expr): CompiledTheorem {
+  const words: number[] = [word(Opcode.Header, PROGRAM_VERSION)];
+  const bools: boolean[] = [];
+  const variables: string[] = [];
+
+  const emitSort = (sort: Sort) => {
+    switch (sort.kind) {
+      case "nat": words.push(word(Opcode.Sort, SortCode.Nat)); break;
+      case "int": words.push(word(Opcode.Sort, SortCode.Int)); break;
+      case "bool": words.push(word(Opcode.Sort, SortCode.Bool)); break;
+      case "range":
+        if (!isInt32(sort.lo) || !isInt32(sort.hi)) throw new ProgramError(`Range bounds of [${sort.lo}..${sort.hi}] do not fit in 32 bits`);
+        words.push(word(Opcode.Sort, SortCode.Range), toWord(sort.lo), toWord(sort.hi));
+        break;
+    }
+  };
+
+  const emit = (expr: Expr, scope: Map<string, number>) => {
+    switch (expr.kind) {
+      case "int":
+        if (!isInt32(expr.value)) throw new ProgramError(`Constant ${expr.value} does not fit in 32 bits`);
+        words.push(word(Opcode.Const), toWord(expr.value));
+        return;
+      case "bool":
+        if (bools.length >= BOOL_LANE_WIDTH) throw new ProgramError(`More than ${BOOL_LANE_WIDTH} boolean constants`);
+        words.push(word(Opcode.Bool, bools.length));
+        bools.push(expr.value);
+        return;
+      case "var": {
+        const slot = scope.get(expr.name);
+        if (slot === undefined) throw new ProgramError(`Unbound variable '${expr.name}'`);
+        words.push(word(Opcode.Var, slot));
+        return;
+      }
+      case "unary":
+        words.push(word(expr.op === "neg" ? Opcode.Neg : Opcode.Not));
+        emit(expr.operand, scope);
+        return;
+      case "binary":
+        words.push(word(BINARY_OPCODES[expr.op]));
+        emit(expr.left, scope);
+        emit(expr.right, scope);
+        return;
+      case "quant": {
+        words.push(word(expr.quantifier === "forall" ? Opcode.Forall : Opcode.Exists, expr.binders.length));
+        const inner = new Map(scope);
+        for (const binder of expr.binders) {
+          emitSort(binder.sort);
+          inner.set(binder.name, variables.length);
+          variables.push(binder.name);
+        }
+        emit(expr.body, inner);
+        return;
+      }
+    }
+  };
+
+  emit(ast, new Map());
+  if (words.length > PROGRAM_WIDTH) {
+    throw new ProgramError(`Theorem needs ${words.length} words but programs are limited to ${PROGRAM_WIDTH}`);
+  }
+  while (words.length < PROGRAM_WIDTH) words.push(word(Opcode.Nop));
+  while (bools.length < BOOL_LANE_WIDTH) bools.push(false);
+  return { words, bools, variables };
+}
+
+// Decoded nodes carry no real source positions; every span points at offset 0
+const NO_POSITION = { offset: 0, line: 1, column: 1 };
+const NO_SPAN: Span = { start: NO_POSITION, end: NO_POSITION };
+
+export function decodeTheorem(words: number[], bools: boolean[], variables: string[] = []): Expr {
+  let index = 0;
+  let slots = 0;
+
+  const read = (): number => {
+    if (index >= words.length) throw new ProgramError("Program ended unexpectedly");
+    return words[index++];
+  };
+
+  const readSort = (): Sort => {
+    const w = read();
+    if (opcodeOf(w) !== Opcode.Sort) throw new ProgramError(`Expected a sort at word ${index - 1}`);
+    switch (operandOf(w)) {
+      case SortCode.Nat: return { kind: "nat" };
+      case SortCode.Int: return { kind: "int" };
+      case SortCode.Bool: return { kind: "bool" };
+      case SortCode.Range: return { kind: "range", lo: fromWord(read()), hi: fromWord(read()) };
+      default: throw new ProgramError(`Unknown sort code ${operandOf(w)}`);
+    }
+  };
+
+  const slotName = (slot: number) => variables[slot] ?? `x${slot}`;
+
+  const decode = (): Expr => {
+    const at = index;
+    const w = read();
+    const opcode = opcodeOf(w);
+    const operand = operandOf(w);
+    switch (opcode) {
+      case Opcode.Const:
+        return { kind: "int", value: fromWord(read()), span: NO_SPAN };
+      case Opcode.Bool:
+        if (operand >= bools.length) throw new ProgramError(`Boolean lane index ${operand} out of range`);
+        return { kind: "bool", value: bools[operand], span: NO_SPAN };
+      case Opcode.Var:
+        if (operand >= slots) throw new ProgramError(`Variable slot ${operand} is not bound at word ${at}`);
+        return { kind: "var", name: slotName(operand), span: NO_SPAN };
+      case Opcode.Neg:
+      case Opcode.Not:
+        return { kind: "unary", op: opcode === Opcode.Neg ? "neg" : "not", operand: decode(), span: NO_SPAN };
+      case Opcode.Forall:
+      case Opcode.Exists: {
+        const binders: Binder[] = [];
+        for (let i = 0; i < operand; i++) {
+          binders.push({ sort: readSort(), name: slotName(slots++), span: NO_SPAN });
+        }
+        return { kind: "quant", quantifier: opcode === Opcode.Forall ? "forall" : "exists", binders, body: decode(), span: NO_SPAN };
+      }
+      default: {
+        const op = OPCODE_BINARY.get(opcode);
+        if (!op) throw new ProgramError(`Unknown opcode ${opcode} at word ${at}`);
+        const left = decode();
+        const right = decode();
+        return { kind: "binary", op, left, right, span: NO_SPAN };
+      }
+    }
+  };
+
+  const header = read();
+  if (opcodeOf(header) !== Opcode.Header) throw new ProgramError("Missing program header");
+  if (operandOf(header) !== PROGRAM_VERSION) throw new ProgramError(`Unsupported program version ${operandOf(header)}`);
+  const ast = decode();
+  for (; index < words.length; index++) {
+    if (opcodeOf(words[index]) !== Opcode.Nop) throw new ProgramError(`Trailing word ${index} after end of program`);
+  }
+  return ast;
+}
+
+// True when the decrypted vector encodes exactly the program compiled from ast
+export function matchesProgram(ast: Expr, words: number[], bools: boolean[]): boolean {
+  const expected = compileTheorem(ast);
+  return expected.words.length === words.length
+    && expected.words.every((w, i) => w === words[i] >>> 0)
+    && expected.bools.every((b, i) => b === bools[i]);
+}
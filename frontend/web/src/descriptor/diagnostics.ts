@@ -0,0 +1,27 @@
+// descriptor/diagnostics.ts
+import { Span } from "./ast";
+
+export interface Diagnostic {
+  severity: "error" | "warning";
+  message: string;
+  span: Span;
+}
+
+export class DescriptorSyntaxError extends Error {
+  constructor(public readonly diagnostic: Diagnostic) {
+    super(`line ${diagnostic.span.start.line}, column ${diagnostic.span.start.column}: ${diagnostic.message}`);
+    this.name = "DescriptorSyntaxError";
+  }
+}
+
+// Render a diagnostic with the offending source line and a caret underline
+export function formatDiagnostic(source: string, diagnostic: Diagnostic): string {
+  const { start, end } = diagnostic.span;
+  const lineText = source.split("\n")[start.line - 1] ?? "";
+  const width = end.line === start.line ? Math.max(1, end.column - start.column) : Math.max(1, lineText.length - start.column + 1);
+  return [
+    `${diagnostic.severity} at line ${start.line}, column ${start.column}: ${diagnostic.message}`,
+    `  ${lineText}`,
+    `  ${" ".repeat(start.column - 1)}${"^".repeat(width)}`
+  ].join("\n");
+}
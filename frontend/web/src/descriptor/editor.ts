@@ -0,0 +1,245 @@
+// descriptor/editor.ts
+// Editing support for components/TheoremEditor.tsx: highlighting, bracket matching,
+// completion and \name Unicode shortcuts. Unlike tokenize and tokenizeLatex, scanning never
+// throws; characters the lexer would reject become "error" tokens, so half-typed
+// statements still highlight.
+import { StatementSyntax } from "./ast";
+import { GREEK_LETTERS, LATEX_MACROS } from "./latex";
+import { KEYWORDS, SYMBOLS, isCommentStart, isIdentPart, isIdentStart } from "./lexer";
+
+export type HighlightKind =
+  | "quantifier"
+  | "sort"
+  | "keyword"
+  | "operator"
+  | "number"
+  | "variable"
+  | "bracket"
+  | "punctuation"
+  | "macro"
+  | "comment"
+  | "error";
+
+export interface HighlightToken {
+  kind: HighlightKind;
+  // Canonical value as in lexer.ts, or the macro name for LaTeX macros
+  value: string;
+  start: number;
+  end: number;
+}
+
+const BRACKETS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const CLOSERS = new Set(Object.values(BRACKETS));
+
+function kindOf(value: string): HighlightKind {
+  if (value === "forall" || value === "exists") return "quantifier";
+  if (value === "Nat" || value === "Int" || value === "Bool") return "sort";
+  if (value in BRACKETS || CLOSERS.has(value)) return "bracket";
+  if (value === "," || value === "." || value === ":" || value === "..") return "punctuation";
+  return "operator";
+}
+
+const LATEX_MACRO_SET = new Set(LATEX_MACROS);
+const LATEX_SYMBOLS = SYMBOLS.filter(([spelling]) => !spelling.includes("\\") && spelling !== "%");
+
+export function highlightTokens(source: string, syntax: StatementSyntax = "tdl"): HighlightToken[] {
+  const tokens: HighlightToken[] = [];
+  const symbols = syntax === "latex" ? LATEX_SYMBOLS : SYMBOLS;
+  let offset = 0;
+  const push = (kind: HighlightKind, value: string, end: number) => {
+    tokens.push({ kind, value, start: offset, end });
+    offset = end;
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    if (/\s/.test(ch)) {
+      offset++;
+      continue;
+    }
+    const lineEnd = source.indexOf("\n", offset) < 0 ? source.length : source.indexOf("\n", offset);
+    if (syntax === "tdl" ? isCommentStart(source, offset) : ch === "%") {
+      push("comment", "", lineEnd);
+      continue;
+    }
+    if (syntax === "latex" && ch === "\\") {
+      const name = /^[A-Za-z]+/.exec(source.slice(offset + 1))?.[0] ?? source.slice(offset + 1, offset + 2);
+      push(LATEX_MACRO_SET.has(name) ? "macro" : "error", name, offset + 1 + name.length);
+      continue;
+    }
+    if (syntax === "latex" && (ch === "{" || ch === "}")) {
+      push("bracket", ch, offset + 1);
+      continue;
+    }
+    if (syntax === "latex" && (ch === "^" || ch === "_")) {
+      push("operator", ch === "^" ? "pow" : "_", offset + 1);
+      continue;
+    }
+    if (/[0-9]/.test(ch)) {
+      let end = offset;
+      while (end < source.length && /[0-9]/.test(source[end])) end++;
+      push("number", source.slice(offset, end), end);
+      continue;
+    }
+    if (isIdentStart(ch)) {
+      let end = offset;
+      while (end < source.length && isIdentPart(source[end]) && !(syntax === "latex" && source[end] === "_")) end++;
+      const text = source.slice(offset, end);
+      const keyword = Object.prototype.hasOwnProperty.call(KEYWORDS, text) ? KEYWORDS[text] : undefined;
+      push(keyword ? (kindOf(keyword) === "operator" ? "keyword" : kindOf(keyword)) : "variable", keyword ?? text, end);
+      continue;
+    }
+    const symbol = symbols.find(([spelling]) => source.startsWith(spelling, offset));
+    if (symbol) {
+      push(kindOf(symbol[1]), symbol[1], offset + symbol[0].length);
+      continue;
+    }
+    push("error", ch, offset + String.fromCodePoint(source.codePointAt(offset)!).length);
+  }
+  return tokens;
+}
+
+const isBracket = (token: HighlightToken) => token.kind === "bracket";
+
+// The bracket next to the caret (the one before it wins) and its partner, if any
+export function matchBracket(tokens: HighlightToken[], caret: number): { bracket: HighlightToken; match: HighlightToken | null } | null {
+  const brackets = tokens.filter(isBracket);
+  const before = brackets.findIndex(t => t.end === caret);
+  const index = before >= 0 ? before : brackets.findIndex(t => t.start === caret);
+  if (index < 0) return null;
+  const bracket = brackets[index];
+  const opening = bracket.value in BRACKETS;
+  let depth = 0;
+  for (let i = index; opening ? i < brackets.length : i >= 0; i += opening ? 1 : -1) {
+    const token = brackets[i];
+    depth += (token.value in BRACKETS) === opening ? 1 : -1;
+    if (depth === 0) {
+      const pair = opening ? BRACKETS[bracket.value] === token.value : BRACKETS[token.value] === bracket.value;
+      return { bracket, match: pair ? token : null };
+    }
+  }
+  return { bracket, match: null };
+}
+
+// Brackets without a partner of the right kind
+export function unmatchedBrackets(tokens: HighlightToken[]): HighlightToken[] {
+  const open: HighlightToken[] = [];
+  const unmatched: HighlightToken[] = [];
+  for (const token of tokens.filter(isBracket)) {
+    if (token.value in BRACKETS) {
+      open.push(token);
+    } else if (open.length > 0 && BRACKETS[open[open.length - 1].value] === token.value) {
+      open.pop();
+    } else {
+      unmatched.push(token);
+    }
+  }
+  return [...unmatched, ...open].sort((a, b) => a.start - b.start);
+}
+
+// Names bound by a quantifier: the variables between ∀/∃ and the '.' before its body
+export function declaredNames(tokens: HighlightToken[]): string[] {
+  const names = new Set<string>();
+  let binding = false;
+  for (const token of tokens) {
+    if (token.kind === "quantifier") binding = true;
+    else if (token.kind === "punctuation" && token.value === ".") binding = false;
+    else if (binding && token.kind === "variable") names.add(token.value);
+  }
+  return [...names];
+}
+
+// ---------------------------------------------------------------------------
+// Shortcuts and completion
+
+// \name spellings of the TDL's Unicode symbols, as in LaTeX where there is a macro
+export const UNICODE_SHORTCUTS: Record<string, string> = {
+  forall: "∀",
+  exists: "∃",
+  in: "∈",
+  neg: "¬",
+  lnot: "¬",
+  not: "¬",
+  and: "∧",
+  land: "∧",
+  wedge: "∧",
+  or: "∨",
+  lor: "∨",
+  vee: "∨",
+  to: "→",
+  implies: "→",
+  rightarrow: "→",
+  iff: "↔",
+  leftrightarrow: "↔",
+  ne: "≠",
+  neq: "≠",
+  le: "≤",
+  leq: "≤",
+  ge: "≥",
+  geq: "≥",
+  cdot: "·",
+  times: "×",
+  N: "ℕ",
+  nat: "ℕ",
+  Z: "ℤ",
+  int: "ℤ",
+  B: "𝔹",
+  ...GREEK_LETTERS
+};
+
+// Replace a complete \name before the character just typed at `caret`
+export function expandShortcut(source: string, caret: number): { text: string; caret: number } | null {
+  const match = /\\([A-Za-z]+)[^A-Za-z]$/.exec(source.slice(0, caret));
+  if (!match || !Object.prototype.hasOwnProperty.call(UNICODE_SHORTCUTS, match[1])) return null;
+  const symbol = UNICODE_SHORTCUTS[match[1]];
+  const start = caret - match[0].length;
+  return { text: source.slice(0, start) + symbol + source.slice(caret - 1), caret: start + symbol.length + 1 };
+}
+
+export interface Completion {
+  label: string;
+  insert: string;
+  detail: string;
+}
+
+// [word typed, completion]
+const TDL_WORDS: [string, Completion][] = [
+  ["forall", { label: "∀", insert: "∀ ", detail: "quantifier" }],
+  ["exists", { label: "∃", insert: "∃ ", detail: "quantifier" }],
+  ["Nat", { label: "ℕ", insert: "ℕ", detail: "sort" }],
+  ["Int", { label: "ℤ", insert: "ℤ", detail: "sort" }],
+  ["Bool", { label: "Bool", insert: "Bool", detail: "sort" }],
+  ...["not", "and", "or", "implies", "iff", "mod", "true", "false"].map((word): [string, Completion] => [word, { label: word, insert: word, detail: "keyword" }])
+];
+
+const LATEX_WORDS: Completion[] = [
+  { label: "\\mathbb{N}", insert: "\\mathbb{N}", detail: "Nat" },
+  { label: "\\mathbb{Z}", insert: "\\mathbb{Z}", detail: "Int" },
+  { label: "\\mathbb{B}", insert: "\\mathbb{B}", detail: "Bool" },
+  ...LATEX_MACROS.filter(name => /^[A-Za-z]+$/.test(name) && name !== "mathbb").map(name => ({ label: `\\${name}`, insert: `\\${name}`, detail: "macro" }))
+];
+
+// Completions for the word before the caret; `from` is where the replaced prefix starts
+export function completions(source: string, caret: number, syntax: StatementSyntax = "tdl", names: string[] = []): { from: number; items: Completion[] } {
+  let from = caret;
+  while (from > 0 && isIdentPart(source[from - 1])) from--;
+  const backslash = source[from - 1] === "\\";
+  if (backslash) from--;
+  const prefix = source.slice(from, caret);
+  if (prefix.length === 0 || (backslash && prefix.length < 2)) return { from, items: [] };
+
+  const variables = names.filter(name => name.startsWith(prefix) && name !== prefix).map(name => ({ label: name, insert: name, detail: "variable" }));
+  let candidates: Completion[];
+  if (syntax === "latex") {
+    candidates = backslash ? LATEX_WORDS.filter(c => c.insert.startsWith(prefix)) : variables;
+  } else if (backslash) {
+    const word = prefix.slice(1);
+    candidates = Object.entries(UNICODE_SHORTCUTS)
+      .filter(([name]) => name.startsWith(word))
+      .map(([name, symbol]) => ({ label: symbol, insert: symbol, detail: `\\${name}` }));
+  } else {
+    const words = TDL_WORDS.filter(([word]) => word.startsWith(prefix) && word !== prefix).map(([, completion]) => completion);
+    candidates = [...words, ...variables];
+  }
+  return { from, items: candidates.slice(0, 12) };
+}
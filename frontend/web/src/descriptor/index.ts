@@ -0,0 +1,34 @@
+// descriptor/index.ts
+import { Expr, StatementSyntax } from "./ast";
+import { DescriptorSyntaxError, Diagnostic } from "./diagnostics";
+import { parseLatex } from "./latex";
+import { parseTheorem } from "./parser";
+import { checkTheorem } from "./typecheck";
+
+export * from "./ast";
+export * from "./diagnostics";
+export { tokenize } from "./lexer";
+export type { Token } from "./lexer";
+export { parseTheorem } from "./parser";
+export { checkTheorem, inferType } from "./typecheck";
+export { parseLatex, tokenizeLatex } from "./latex";
+export { printLatex, printMathML, printTheorem } from "./printer";
+export type { MathNode } from "./printer";
+export * from "./compiler";
+
+export interface ValidationResult {
+  ast: Expr | null;
+  diagnostics: Diagnostic[];
+}
+
+// Parse and type-check in one go; ast is null whenever there is at least one error
+export function validateTheorem(source: string, syntax: StatementSyntax = "tdl"): ValidationResult {
+  try {
+    const ast = syntax === "latex" ? parseLatex(source) : parseTheorem(source);
+    const diagnostics = checkTheorem(ast);
+    return { ast: diagnostics.some(d => d.severity === "error") ? null : ast, diagnostics };
+  } catch (e) {
+    if (e instanceof DescriptorSyntaxError) return { ast: null, diagnostics: [e.diagnostic] };
+    throw e;
+  }
+}
@@ -0,0 +1,294 @@
+// descriptor/latex.ts
+// LaTeX math input for theorem statements. tokenizeLatex reads the math-mode subset below
+// into the same tokens as lexer.ts, with spans into the LaTeX source, so parser.ts and the
+// type checker run unchanged. Macros outside the subset are syntax errors at the macro.
+//
+//   \forall \exists \in \colon        quantifiers and binders
+//   \neg \land \lor \to \iff ...      connectives, \top and \bot
+//   \cdot \times \div \bmod \frac     arithmetic; ^ and _ take a group or one character
+//   \neq \leq \geq \lt \gt            comparisons
+//   \mathbb{N} \mathbb{Z} \mathbb{B}  sorts, and [lo \ldots hi] ranges
+//   \alpha ... \Omega, x_{12}         names; \mathit{...} and \text{...} for longer ones
+//   \, \; \quad \left \right          spacing and sizing, ignored
+import { Expr, Position, Span } from "./ast";
+import { DescriptorSyntaxError } from "./diagnostics";
+import { KEYWORDS, SYMBOLS, Token, isIdentPart, isIdentStart } from "./lexer";
+import { parseTokens } from "./parser";
+
+// Macro name -> token value
+const MACROS: Record<string, string> = {
+  forall: "forall",
+  exists: "exists",
+  in: "in",
+  colon: ":",
+  neg: "not",
+  lnot: "not",
+  land: "and",
+  wedge: "and",
+  lor: "or",
+  vee: "or",
+  to: "implies",
+  rightarrow: "implies",
+  Rightarrow: "implies",
+  implies: "implies",
+  Longrightarrow: "implies",
+  iff: "iff",
+  leftrightarrow: "iff",
+  Leftrightarrow: "iff",
+  Longleftrightarrow: "iff",
+  top: "true",
+  bot: "false",
+  ne: "ne",
+  neq: "ne",
+  lt: "lt",
+  le: "le",
+  leq: "le",
+  leqslant: "le",
+  gt: "gt",
+  ge: "ge",
+  geq: "ge",
+  geqslant: "ge",
+  cdot: "mul",
+  times: "mul",
+  ast: "mul",
+  div: "div",
+  bmod: "mod",
+  mod: "mod",
+  ldots: "..",
+  dots: "..",
+  cdots: "..",
+  dotsc: ".."
+};
+
+const IGNORED = new Set([",", ";", ":", "!", " ", "\\", "quad", "qquad", "left", "right", "big", "Big", "bigl", "bigr", "Bigl", "Bigr", "displaystyle"]);
+
+export const GREEK_LETTERS: Record<string, string> = {
+  alpha: "α", beta: "β", gamma: "γ", delta: "δ", epsilon: "ε", varepsilon: "ε", zeta: "ζ", eta: "η",
+  theta: "θ", vartheta: "θ", iota: "ι", kappa: "κ", lambda: "λ", mu: "μ", nu: "ν", xi: "ξ", pi: "π",
+  rho: "ρ", sigma: "σ", tau: "τ", upsilon: "υ", phi: "φ", varphi: "φ", chi: "χ", psi: "ψ", omega: "ω",
+  Gamma: "Γ", Delta: "Δ", Theta: "Θ", Lambda: "Λ", Xi: "Ξ", Pi: "Π", Sigma: "Σ", Upsilon: "Υ", Phi: "Φ",
+  Psi: "Ψ", Omega: "Ω"
+};
+
+const BLACKBOARD: Record<string, string> = { N: "Nat", Z: "Int", B: "Bool" };
+
+// Macros whose braced argument is a word: a keyword if it is one, otherwise a name
+const WORD_MACROS = new Set(["mathit", "mathrm", "text", "textrm", "textit", "operatorname"]);
+
+// Tables are looked up by own keys so that e.g. \\constructor is not a macro
+const lookup = (table: Record<string, string>, key: string): string | undefined =>
+  Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+
+// Every macro tokenizeLatex accepts, for completion and highlighting
+export const LATEX_MACROS: readonly string[] = [
+  ...Object.keys(MACROS),
+  ...Object.keys(GREEK_LETTERS),
+  ...IGNORED,
+  "mathbb",
+  ...WORD_MACROS,
+  "frac"
+];
+
+// Plain characters keep their TDL meaning, except the ones LaTeX gives another: '\' starts
+// a macro, '%' a comment and '!' is a factorial
+const LATEX_SYMBOLS = SYMBOLS.filter(([spelling]) => !spelling.includes("\\") && spelling !== "%" && spelling !== "!");
+
+export function tokenizeLatex(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+  // Open '{' groups; the arguments of \frac close with a '/' or the extra ')'
+  const groups: { open: Span; frac?: "numerator" | "denominator" }[] = [];
+  let nextFrac: "numerator" | "denominator" | undefined;
+  // After ^ or _ a number or name is a single character unless it is braced
+  let single = false;
+
+  const position = (): Position => ({ offset, line, column });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+  const fail = (message: string, start: Position): never => {
+    throw new DescriptorSyntaxError({ severity: "error", message, span: { start, end: position() } });
+  };
+  const push = (type: Token["type"], value: string, text: string, start: Position) =>
+    tokens.push({ type, value, text, span: { start, end: position() } });
+  const skipSpace = () => {
+    while (offset < source.length && /\s/.test(source[offset])) advance(1);
+  };
+  const expectGroup = (what: string) => {
+    skipSpace();
+    if (source[offset] !== "{") fail(`${what} expects a braced argument`, position());
+  };
+  // The raw text of a {...} argument, with \_ read as _, or else of the next character
+  const readArgument = (what: string): string => {
+    skipSpace();
+    if (source[offset] !== "{") {
+      const ch = source[offset] ?? "";
+      if (!ch || ch === "\\" || ch === "}") fail(`${what} expects an argument`, position());
+      advance(1);
+      return ch;
+    }
+    const open = position();
+    const close = source.indexOf("}", offset);
+    if (close < 0) fail(`Unclosed argument of ${what}`, open);
+    const text = source.slice(offset + 1, close).replace(/\\_/g, "_").trim();
+    advance(close + 1 - offset);
+    return text;
+  };
+  const word = (text: string, start: Position, macro: string) => {
+    if (!(text.length > 0 && isIdentStart(text[0]) && [...text].every(isIdentPart))) {
+      fail(`Unsupported \\${macro}{${text}}: expected a name or keyword`, start);
+    }
+    subscripts(text, start);
+  };
+  // x_1, x_{12} and primes continue the name before them, as in TDL's x_12 and x'
+  const subscripts = (name: string, start: Position) => {
+    for (;;) {
+      if (source[offset] === "_") {
+        advance(1);
+        const sub = readArgument("subscript");
+        if (!sub || ![...sub].every(isIdentPart)) fail(`Unsupported subscript '${sub}': expected letters or digits`, start);
+        name += `_${sub}`;
+      } else if (source[offset] === "'") {
+        advance(1);
+        name += "'";
+      } else {
+        break;
+      }
+    }
+    const keyword = lookup(KEYWORDS, name);
+    push(keyword ? "keyword" : "ident", keyword ?? name, name, start);
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+
+    if (/\s/.test(ch) || ch === "~") {
+      advance(1);
+      continue;
+    }
+    if (ch === "%") {
+      while (offset < source.length && source[offset] !== "\n") advance(1);
+      continue;
+    }
+
+    const start = position();
+    const scriptArgument = single;
+    single = false;
+
+    if (ch === "\\") {
+      advance(1);
+      let name = "";
+      if (/[A-Za-z]/.test(source[offset] ?? "")) {
+        while (offset < source.length && /[A-Za-z]/.test(source[offset])) {
+          name += source[offset];
+          advance(1);
+        }
+      } else if (offset < source.length) {
+        name = source[offset];
+        advance(1);
+      }
+      if (IGNORED.has(name)) continue;
+      const macro = lookup(MACROS, name);
+      const greek = lookup(GREEK_LETTERS, name);
+      if (macro) {
+        push("symbol", macro, `\\${name}`, start);
+      } else if (greek) {
+        subscripts(greek, start);
+      } else if (name === "mathbb") {
+        const letter = readArgument("\\mathbb");
+        const sort = lookup(BLACKBOARD, letter);
+        if (!sort) fail(`Unsupported sort \\mathbb{${letter}}: expected \\mathbb{N}, \\mathbb{Z} or \\mathbb{B}`, start);
+        push("symbol", sort!, source.slice(start.offset, offset), start);
+      } else if (WORD_MACROS.has(name)) {
+        word(readArgument(`\\${name}`), start, name);
+      } else if (name === "frac") {
+        // \frac{a}{b} reads as ((a) / (b))
+        push("symbol", "(", "\\frac", start);
+        expectGroup("\\frac");
+        nextFrac = "numerator";
+      } else {
+        fail(name ? `Unsupported macro \\${name}` : "Unexpected '\\' at end of input", start);
+      }
+      continue;
+    }
+
+    if (ch === "{") {
+      advance(1);
+      groups.push({ open: { start, end: position() }, frac: nextFrac });
+      nextFrac = undefined;
+      push("symbol", "(", "{", start);
+      continue;
+    }
+    if (ch === "}") {
+      advance(1);
+      const group = groups.pop();
+      if (!group) fail("Unmatched '}'", start);
+      push("symbol", ")", "}", start);
+      if (group!.frac === "numerator") {
+        push("symbol", "div", "\\frac", start);
+        expectGroup("\\frac");
+        nextFrac = "denominator";
+      } else if (group!.frac === "denominator") {
+        push("symbol", ")", "\\frac", start);
+      }
+      continue;
+    }
+    if (ch === "^") {
+      advance(1);
+      push("symbol", "pow", "^", start);
+      single = true;
+      continue;
+    }
+    if (ch === "_") fail("Subscripts are only supported on names", start);
+
+    if (/[0-9]/.test(ch)) {
+      let end = offset + 1;
+      while (!scriptArgument && end < source.length && /[0-9]/.test(source[end])) end++;
+      const text = source.slice(offset, end);
+      advance(end - offset);
+      push("number", text, text, start);
+      continue;
+    }
+
+    if (isIdentStart(ch) && ch !== "_") {
+      let end = offset + 1;
+      // Unlike TDL, _ starts a subscript here rather than continuing the name
+      while (!scriptArgument && end < source.length && isIdentPart(source[end]) && source[end] !== "_" && source[end] !== "'") end++;
+      const text = source.slice(offset, end);
+      advance(end - offset);
+      subscripts(text, start);
+      continue;
+    }
+
+    const symbol = LATEX_SYMBOLS.find(([spelling]) => source.startsWith(spelling, offset));
+    if (symbol) {
+      advance(symbol[0].length);
+      push("symbol", symbol[1], symbol[0], start);
+      continue;
+    }
+
+    const codePoint = String.fromCodePoint(source.codePointAt(offset)!);
+    advance(codePoint.length);
+    fail(`Unexpected character '${codePoint}'`, start);
+  }
+
+  const unclosed = groups.pop();
+  if (unclosed) throw new DescriptorSyntaxError({ severity: "error", message: "Unclosed '{'", span: unclosed.open });
+  const end = position();
+  tokens.push({ type: "eof", value: "<eof>", text: "", span: { start: end, end } });
+  return tokens;
+}
+
+export function parseLatex(source: string): Expr {
+  return parseTokens(tokenizeLatex(source));
+}
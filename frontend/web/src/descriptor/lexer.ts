@@ -0,0 +1,163 @@
+// descriptor/lexer.ts
+import { Position, Span } from "./ast";
+import { DescriptorSyntaxError } from "./diagnostics";
+
+export type TokenType = "ident" | "number" | "symbol" | "keyword" | "eof";
+
+export interface Token {
+  type: TokenType;
+  // Canonical value: Unicode and ASCII spellings of the same operator share one value
+  value: string;
+  text: string;
+  span: Span;
+}
+
+export const KEYWORDS: Record<string, string> = {
+  forall: "forall",
+  exists: "exists",
+  in: "in",
+  not: "not",
+  and: "and",
+  or: "or",
+  implies: "implies",
+  iff: "iff",
+  true: "true",
+  false: "false",
+  mod: "mod",
+  Nat: "Nat",
+  Int: "Int",
+  Bool: "Bool"
+};
+
+// Longest spellings first so that e.g. "<->" wins over "<" and "->"
+export const SYMBOLS: [string, string][] = [
+  ["<->", "iff"],
+  ["/\\", "and"],
+  ["\\/", "or"],
+  ["->", "implies"],
+  ["=>", "implies"],
+  ["&&", "and"],
+  ["||", "or"],
+  ["!=", "ne"],
+  ["<=", "le"],
+  [">=", "ge"],
+  ["..", ".."],
+  ["∀", "forall"],
+  ["∃", "exists"],
+  ["∈", "in"],
+  ["¬", "not"],
+  ["!", "not"],
+  ["∧", "and"],
+  ["∨", "or"],
+  ["→", "implies"],
+  ["⇒", "implies"],
+  ["↔", "iff"],
+  ["⇔", "iff"],
+  ["≠", "ne"],
+  ["≤", "le"],
+  ["≥", "ge"],
+  ["=", "eq"],
+  ["<", "lt"],
+  [">", "gt"],
+  ["+", "add"],
+  ["-", "sub"],
+  ["−", "sub"],
+  ["*", "mul"],
+  ["·", "mul"],
+  ["×", "mul"],
+  ["/", "div"],
+  ["%", "mod"],
+  ["^", "pow"],
+  ["ℕ", "Nat"],
+  ["ℤ", "Int"],
+  ["𝔹", "Bool"],
+  ["(", "("],
+  [")", ")"],
+  ["[", "["],
+  ["]", "]"],
+  [",", ","],
+  [".", "."],
+  [":", ":"]
+];
+
+export const isIdentStart = (ch: string) => /[A-Za-z_α-ωΑ-Ω]/.test(ch);
+export const isIdentPart = (ch: string) => /[A-Za-z0-9_'α-ωΑ-Ω]/.test(ch);
+
+// "-- " starts a line comment; without the space "x--1" is x - -1, not x followed by a comment
+export const isCommentStart = (source: string, offset: number) =>
+  source.startsWith("--", offset) && (offset + 2 === source.length || /\s/.test(source[offset + 2]));
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): Position => ({ offset, line, column });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+    // Line comments
+    if (isCommentStart(source, offset)) {
+      while (offset < source.length && source[offset] !== "\n") advance(1);
+      continue;
+    }
+
+    const start = position();
+
+    if (/[0-9]/.test(ch)) {
+      let end = offset;
+      while (end < source.length && /[0-9]/.test(source[end])) end++;
+      const text = source.slice(offset, end);
+      advance(end - offset);
+      tokens.push({ type: "number", value: text, text, span: { start, end: position() } });
+      continue;
+    }
+
+    if (isIdentStart(ch)) {
+      let end = offset;
+      while (end < source.length && isIdentPart(source[end])) end++;
+      const text = source.slice(offset, end);
+      advance(end - offset);
+      const keyword = KEYWORDS[text];
+      tokens.push({ type: keyword ? "keyword" : "ident", value: keyword ?? text, text, span: { start, end: position() } });
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(([spelling]) => source.startsWith(spelling, offset));
+    if (symbol) {
+      const [text, value] = symbol;
+      advance(text.length);
+      tokens.push({ type: "symbol", value, text, span: { start, end: position() } });
+      continue;
+    }
+
+    const codePoint = String.fromCodePoint(source.codePointAt(offset)!);
+    advance(codePoint.length);
+    throw new DescriptorSyntaxError({
+      severity: "error",
+      message: `Unexpected character '${codePoint}'`,
+      span: { start, end: position() }
+    });
+  }
+
+  const end = position();
+  tokens.push({ type: "eof", value: "<eof>", text: "", span: { start: end, end } });
+  return tokens;
+}
@@ -0,0 +1,250 @@
+// descriptor/parser.ts
+// Recursive-descent parser for the Theorem Descriptor Language.
+//
+//   formula    := iff
+//   iff        := implies ("↔" implies)*
+//   implies    := or ("→" implies)?
+//   or         := and ("∨" and)*
+//   and        := unary ("∧" unary)*
+//   unary      := "¬" unary | quantified | comparison
+//   quantified := ("∀" | "∃") group ("," group)* "." formula
+//   group      := ident (","? ident)* ("∈" | ":") sort
+//   sort       := "ℕ" | "ℤ" | "Bool" | "[" int ".." int "]"
+//   comparison := sum (("=" | "≠" | "<" | "≤" | ">" | "≥") sum)?
+//   sum        := product (("+" | "-") product)*
+//   product    := factor (("*" | "/" | "mod") factor)*
+//   factor     := "-" factor | atom ("^" factor)?
+//   atom       := int | "true" | "false" | ident | "(" formula ")"
+import { BinaryOp, Binder, CompareOp, Expr, Sort, Span } from "./ast";
+import { DescriptorSyntaxError } from "./diagnostics";
+import { Token, tokenize } from "./lexer";
+
+const COMPARE_TOKENS: CompareOp[] = ["eq", "ne", "lt", "le", "gt", "ge"];
+
+const describe = (token: Token) => (token.type === "eof" ? "end of input" : `'${token.text}'`);
+
+const join = (a: Span, b: Span): Span => ({ start: a.start, end: b.end });
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseTheorem(): Expr {
+    const formula = this.formula();
+    if (this.peek().type !== "eof") {
+      this.fail(`Unexpected ${describe(this.peek())} after end of formula`);
+    }
+    return formula;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== "eof") this.index++;
+    return token;
+  }
+
+  // Operators and punctuation only; identifiers never match an operator value
+  private at(value: string): boolean {
+    const token = this.peek();
+    return (token.type === "symbol" || token.type === "keyword") && token.value === value;
+  }
+
+  private accept(value: string): Token | null {
+    return this.at(value) ? this.next() : null;
+  }
+
+  private expect(value: string, what: string): Token {
+    const token = this.accept(value);
+    if (!token) this.fail(`Expected ${what} but found ${describe(this.peek())}`);
+    return token!;
+  }
+
+  private fail(message: string, span: Span = this.peek().span): never {
+    throw new DescriptorSyntaxError({ severity: "error", message, span });
+  }
+
+  private formula(): Expr {
+    let left = this.implies();
+    while (this.at("iff")) {
+      this.next();
+      const right = this.implies();
+      left = { kind: "binary", op: "iff", left, right, span: join(left.span, right.span) };
+    }
+    return left;
+  }
+
+  private implies(): Expr {
+    const left = this.or();
+    if (!this.accept("implies")) return left;
+    const right = this.implies();
+    return { kind: "binary", op: "implies", left, right, span: join(left.span, right.span) };
+  }
+
+  private or(): Expr {
+    let left = this.and();
+    while (this.accept("or")) {
+      const right = this.and();
+      left = { kind: "binary", op: "or", left, right, span: join(left.span, right.span) };
+    }
+    return left;
+  }
+
+  private and(): Expr {
+    let left = this.unary();
+    while (this.accept("and")) {
+      const right = this.unary();
+      left = { kind: "binary", op: "and", left, right, span: join(left.span, right.span) };
+    }
+    return left;
+  }
+
+  private unary(): Expr {
+    const not = this.accept("not");
+    if (not) {
+      const operand = this.unary();
+      return { kind: "unary", op: "not", operand, span: join(not.span, operand.span) };
+    }
+    if (this.at("forall") || this.at("exists")) return this.quantified();
+    return this.comparison();
+  }
+
+  private quantified(): Expr {
+    const head = this.next();
+    const quantifier = head.value as "forall" | "exists";
+    const binders: Binder[] = [];
+    do {
+      binders.push(...this.binderGroup());
+    } while (this.accept(","));
+    this.expect(".", "'.' before the quantifier body");
+    const body = this.formula();
+    return { kind: "quant", quantifier, binders, body, span: join(head.span, body.span) };
+  }
+
+  private binderGroup(): Binder[] {
+    const names: Token[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== "ident") {
+        this.fail(names.length === 0
+          ? `Expected a variable name but found ${describe(token)}`
+          : `Expected '∈' or ':' followed by a sort after '${names[names.length - 1].text}'`);
+      }
+      names.push(this.next());
+      if (this.at("in") || this.at(":")) break;
+      // Names in one group may be separated by commas or whitespace
+      if (this.at(",") && this.tokens[this.index + 1]?.type === "ident") this.next();
+    }
+    this.next();
+    const sort = this.sort();
+    return names.map(name => ({ name: name.text, sort, span: name.span }));
+  }
+
+  private sort(): Sort {
+    if (this.accept("Nat")) return { kind: "nat" };
+    if (this.accept("Int")) return { kind: "int" };
+    if (this.accept("Bool")) return { kind: "bool" };
+    const open = this.accept("[");
+    if (!open) this.fail(`Expected a sort (ℕ, ℤ, Bool or [lo..hi]) but found ${describe(this.peek())}`);
+    const lo = this.signedInt();
+    this.expect("..", "'..' in range sort");
+    const hi = this.signedInt();
+    const close = this.expect("]", "']' to close range sort");
+    if (lo > hi) this.fail(`Empty range [${lo}..${hi}]: lower bound exceeds upper bound`, join(open!.span, close.span));
+    return { kind: "range", lo, hi };
+  }
+
+  private signedInt(): number {
+    const negative = this.accept("sub");
+    const token = this.peek();
+    if (token.type !== "number") this.fail(`Expected an integer bound but found ${describe(token)}`);
+    const value = this.integer(this.next());
+    return negative ? -value : value;
+  }
+
+  private integer(token: Token): number {
+    const value = Number(token.value);
+    if (!Number.isSafeInteger(value)) this.fail(`Integer literal ${token.text} is too large`, token.span);
+    return value;
+  }
+
+  private comparison(): Expr {
+    const left = this.sum();
+    const op = COMPARE_TOKENS.find(value => this.at(value));
+    if (!op) return left;
+    this.next();
+    const right = this.sum();
+    if (COMPARE_TOKENS.some(value => this.at(value))) {
+      this.fail("Chained comparisons are not supported; combine them with '∧'");
+    }
+    return { kind: "binary", op, left, right, span: join(left.span, right.span) };
+  }
+
+  private sum(): Expr {
+    let left = this.product();
+    for (;;) {
+      const op: BinaryOp | null = this.accept("add") ? "add" : this.accept("sub") ? "sub" : null;
+      if (!op) return left;
+      const right = this.product();
+      left = { kind: "binary", op, left, right, span: join(left.span, right.span) };
+    }
+  }
+
+  private product(): Expr {
+    let left = this.factor();
+    for (;;) {
+      const op: BinaryOp | null = this.accept("mul") ? "mul" : this.accept("div") ? "div" : this.accept("mod") ? "mod" : null;
+      if (!op) return left;
+      const right = this.factor();
+      left = { kind: "binary", op, left, right, span: join(left.span, right.span) };
+    }
+  }
+
+  private factor(): Expr {
+    const minus = this.accept("sub");
+    if (minus) {
+      const operand = this.factor();
+      return { kind: "unary", op: "neg", operand, span: join(minus.span, operand.span) };
+    }
+    const base = this.atom();
+    if (!this.accept("pow")) return base;
+    const exponent = this.factor();
+    return { kind: "binary", op: "pow", left: base, right: exponent, span: join(base.span, exponent.span) };
+  }
+
+  private atom(): Expr {
+    const token = this.peek();
+    if (token.type === "number") {
+      this.next();
+      return { kind: "int", value: this.integer(token), span: token.span };
+    }
+    if (token.type === "ident") {
+      this.next();
+      return { kind: "var", name: token.text, span: token.span };
+    }
+    if (this.accept("true")) return { kind: "bool", value: true, span: token.span };
+    if (this.accept("false")) return { kind: "bool", value: false, span: token.span };
+    if (this.accept("(")) {
+      const inner = this.formula();
+      const close = this.expect(")", `')' to match '(' at line ${token.span.start.line}, column ${token.span.start.column}`);
+      return { ...inner, span: join(token.span, close.span) };
+    }
+    if (this.at("forall") || this.at("exists")) {
+      this.fail("Quantifiers inside arithmetic must be parenthesised");
+    }
+    this.fail(`Expected an expression but found ${describe(token)}`);
+  }
+}
+
+export function parseTheorem(source: string): Expr {
+  return parseTokens(tokenize(source));
+}
+
+// For front ends with their own lexer, such as the LaTeX input in latex.ts
+export function parseTokens(tokens: Token[]): Expr {
+  return new Parser(tokens).parseTheorem();
+}
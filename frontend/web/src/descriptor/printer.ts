@@ -0,0 +1,258 @@
+// descriptor/printer.ts
+// Pretty-printers back to Theorem Descriptor Language source, to LaTeX math and to
+// presentation MathML. Parentheses are only emitted where the grammar in parser.ts
+// needs them, so parse(print(ast)) and parseLatex(printLatex(ast)) have the same
+// shape as ast.
+import { BINARY_SYMBOLS, BinaryOp, Binder, Expr, Sort, sortToString } from "./ast";
+import { GREEK_LETTERS } from "./latex";
+
+// Binding strength of each level in the grammar, loosest first
+const enum Level {
+  Top = 0,
+  Iff = 1,
+  Implies = 2,
+  Or = 3,
+  And = 4,
+  Unary = 5,
+  Compare = 6,
+  Sum = 7,
+  Product = 8,
+  Neg = 9,
+  Pow = 10,
+  Atom = 11
+}
+
+// [own level, minimum level of the left operand, minimum level of the right operand]
+const BINARY_LEVELS: Record<BinaryOp, [Level, Level, Level]> = {
+  iff: [Level.Iff, Level.Iff, Level.Implies],
+  implies: [Level.Implies, Level.Or, Level.Implies],
+  or: [Level.Or, Level.Or, Level.And],
+  and: [Level.And, Level.And, Level.Unary],
+  eq: [Level.Compare, Level.Sum, Level.Sum],
+  ne: [Level.Compare, Level.Sum, Level.Sum],
+  lt: [Level.Compare, Level.Sum, Level.Sum],
+  le: [Level.Compare, Level.Sum, Level.Sum],
+  gt: [Level.Compare, Level.Sum, Level.Sum],
+  ge: [Level.Compare, Level.Sum, Level.Sum],
+  add: [Level.Sum, Level.Sum, Level.Product],
+  sub: [Level.Sum, Level.Sum, Level.Product],
+  mul: [Level.Product, Level.Product, Level.Neg],
+  div: [Level.Product, Level.Product, Level.Neg],
+  mod: [Level.Product, Level.Product, Level.Neg],
+  pow: [Level.Pow, Level.Atom, Level.Neg]
+};
+
+// Consecutive binders of the same sort share one "x, y ∈ ℤ" group
+function binderGroups(binders: Binder[]): { names: string[]; sort: Sort }[] {
+  const groups: { names: string[]; sort: Sort }[] = [];
+  let names: string[] = [];
+  binders.forEach((binder, i) => {
+    names.push(binder.name);
+    const next = binders[i + 1];
+    if (!next || sortToString(next.sort) !== sortToString(binder.sort)) {
+      groups.push({ names, sort: binder.sort });
+      names = [];
+    }
+  });
+  return groups;
+}
+
+function printBinders(binders: Binder[]): string {
+  return binderGroups(binders)
+    .map(({ names, sort }) => `${names.join(", ")} ∈ ${sortToString(sort)}`)
+    .join(", ");
+}
+
+function print(expr: Expr, min: Level): string {
+  const wrap = (level: Level, text: string) => (level < min ? `(${text})` : text);
+  switch (expr.kind) {
+    case "int":
+      return expr.value < 0 ? wrap(Level.Neg, String(expr.value)) : String(expr.value);
+    case "bool":
+      return expr.value ? "true" : "false";
+    case "var":
+      return expr.name;
+    case "unary": {
+      if (expr.op === "not") return wrap(Level.Unary, `¬${print(expr.operand, Level.Unary)}`);
+      const operand = print(expr.operand, Level.Neg);
+      return wrap(Level.Neg, operand.startsWith("-") ? `-(${operand})` : `-${operand}`);
+    }
+    case "binary": {
+      const [level, left, right] = BINARY_LEVELS[expr.op];
+      const symbol = expr.op === "mod" ? "mod" : BINARY_SYMBOLS[expr.op];
+      // Sums stay spaced so that "a - -b" never lexes as a "--" comment
+      const spaced = level <= Level.Sum || expr.op === "mod";
+      const text = spaced
+        ? `${print(expr.left, left)} ${symbol} ${print(expr.right, right)}`
+        : `${print(expr.left, left)}${symbol}${print(expr.right, right)}`;
+      return wrap(level, text);
+    }
+    case "quant": {
+      // A quantifier body extends as far right as possible, so anything but the
+      // top of a formula or another quantifier's body needs parentheses
+      const text = `${expr.quantifier === "forall" ? "∀" : "∃"} ${printBinders(expr.binders)}. ${print(expr.body, Level.Top)}`;
+      return min === Level.Top ? text : `(${text})`;
+    }
+  }
+}
+
+export function printTheorem(ast: Expr): string {
+  return print(ast, Level.Top);
+}
+
+// ---------------------------------------------------------------------------
+// LaTeX
+
+const LATEX_SYMBOLS: Record<BinaryOp, string> = {
+  add: "+",
+  sub: "-",
+  mul: "\\cdot",
+  div: "/",
+  mod: "\\bmod",
+  pow: "^",
+  eq: "=",
+  ne: "\\neq",
+  lt: "<",
+  le: "\\leq",
+  gt: ">",
+  ge: "\\geq",
+  and: "\\land",
+  or: "\\lor",
+  implies: "\\rightarrow",
+  iff: "\\leftrightarrow"
+};
+
+const GREEK_MACROS = new Map(Object.entries(GREEK_LETTERS).map(([macro, letter]) => [letter, macro]));
+
+// Name, optional subscript and primes: x_12' is printed as x_{12}'
+const NAME_PARTS = /^([^_']+)(?:_([^_']+))?('*)$/;
+
+function latexName(name: string): string {
+  const parts = NAME_PARTS.exec(name);
+  if (!parts) return `\\mathit{${name.replace(/_/g, "\\_")}}`;
+  const [, base, subscript, primes] = parts;
+  const greek = GREEK_MACROS.get(base);
+  const head = greek ? `\\${greek}` : base.length === 1 ? base : `\\mathit{${base}}`;
+  return `${head}${subscript ? `_{${subscript}}` : ""}${primes}`;
+}
+
+function latexSort(sort: Sort): string {
+  switch (sort.kind) {
+    case "nat": return "\\mathbb{N}";
+    case "int": return "\\mathbb{Z}";
+    case "bool": return "\\mathbb{B}";
+    case "range": return `[${sort.lo} \\ldots ${sort.hi}]`;
+  }
+}
+
+function printTex(expr: Expr, min: Level): string {
+  const wrap = (level: Level, text: string) => (level < min ? `(${text})` : text);
+  switch (expr.kind) {
+    case "int":
+      return expr.value < 0 ? wrap(Level.Neg, String(expr.value)) : String(expr.value);
+    case "bool":
+      return expr.value ? "\\top" : "\\bot";
+    case "var":
+      return latexName(expr.name);
+    case "unary": {
+      if (expr.op === "not") return wrap(Level.Unary, `\\neg ${printTex(expr.operand, Level.Unary)}`);
+      const operand = printTex(expr.operand, Level.Neg);
+      return wrap(Level.Neg, operand.startsWith("-") ? `-(${operand})` : `-${operand}`);
+    }
+    case "binary": {
+      const [level, left, right] = BINARY_LEVELS[expr.op];
+      // The braces already group the exponent
+      if (expr.op === "pow") return wrap(level, `${printTex(expr.left, left)}^{${printTex(expr.right, Level.Top)}}`);
+      return wrap(level, `${printTex(expr.left, left)} ${LATEX_SYMBOLS[expr.op]} ${printTex(expr.right, right)}`);
+    }
+    case "quant": {
+      const binders = binderGroups(expr.binders)
+        .map(({ names, sort }) => `${names.map(latexName).join(", ")} \\in ${latexSort(sort)}`)
+        .join(", ");
+      const text = `\\${expr.quantifier} ${binders}.\\; ${printTex(expr.body, Level.Top)}`;
+      return min === Level.Top ? text : `(${text})`;
+    }
+  }
+}
+
+// Math-mode LaTeX, without the surrounding $...$
+export function printLatex(ast: Expr): string {
+  return printTex(ast, Level.Top);
+}
+
+// ---------------------------------------------------------------------------
+// MathML
+
+// Presentation MathML as plain data; components/Formula.tsx turns it into elements
+export interface MathNode {
+  tag: "mrow" | "mi" | "mn" | "mo" | "msub" | "msup" | "mfrac";
+  text?: string;
+  children?: MathNode[];
+  attributes?: Record<string, string>;
+}
+
+const mrow = (...children: MathNode[]): MathNode => ({ tag: "mrow", children });
+const mo = (text: string): MathNode => ({ tag: "mo", text });
+const mn = (value: number): MathNode => ({ tag: "mn", text: String(value) });
+// Single letters are italic by default; longer names are variables too, not function names
+const mi = (text: string): MathNode =>
+  [...text].length === 1 ? { tag: "mi", text } : { tag: "mi", text, attributes: { mathvariant: "italic" } };
+
+const MATHML_SYMBOLS: Record<BinaryOp, string> = { ...BINARY_SYMBOLS, sub: "−", mul: "·", mod: "mod" };
+
+function mathName(name: string): MathNode {
+  const parts = NAME_PARTS.exec(name);
+  if (!parts) return mi(name);
+  const [, base, subscript, primes] = parts;
+  const head = mi(base + "′".repeat(primes.length));
+  if (!subscript) return head;
+  return { tag: "msub", children: [head, /^[0-9]+$/.test(subscript) ? mn(Number(subscript)) : mi(subscript)] };
+}
+
+function mathSort(sort: Sort): MathNode {
+  switch (sort.kind) {
+    case "nat": return { tag: "mi", text: "ℕ" };
+    case "int": return { tag: "mi", text: "ℤ" };
+    case "bool": return { tag: "mi", text: "𝔹" };
+    case "range": return mrow(mo("["), mathInt(sort.lo), mo("…"), mathInt(sort.hi), mo("]"));
+  }
+}
+
+const mathInt = (value: number): MathNode => (value < 0 ? mrow(mo("−"), mn(-value)) : mn(value));
+
+function printMath(expr: Expr, min: Level): MathNode {
+  const wrap = (level: Level, node: MathNode) => (level < min ? mrow(mo("("), node, mo(")")) : node);
+  switch (expr.kind) {
+    case "int":
+      return expr.value < 0 ? wrap(Level.Neg, mathInt(expr.value)) : mn(expr.value);
+    case "bool":
+      return { tag: "mi", text: expr.value ? "true" : "false", attributes: { mathvariant: "normal" } };
+    case "var":
+      return mathName(expr.name);
+    case "unary":
+      return expr.op === "not"
+        ? wrap(Level.Unary, mrow(mo("¬"), printMath(expr.operand, Level.Unary)))
+        : wrap(Level.Neg, mrow(mo("−"), printMath(expr.operand, Level.Neg)));
+    case "binary": {
+      const [level, left, right] = BINARY_LEVELS[expr.op];
+      if (expr.op === "pow") {
+        return wrap(level, { tag: "msup", children: [printMath(expr.left, left), printMath(expr.right, Level.Top)] });
+      }
+      return wrap(level, mrow(printMath(expr.left, left), mo(MATHML_SYMBOLS[expr.op]), printMath(expr.right, right)));
+    }
+    case "quant": {
+      const binders = binderGroups(expr.binders).flatMap(({ names, sort }, i) => [
+        ...(i > 0 ? [mo(",")] : []),
+        ...names.flatMap((name, j) => (j > 0 ? [mo(","), mathName(name)] : [mathName(name)])),
+        mo("∈"),
+        mathSort(sort)
+      ]);
+      const node = mrow(mo(expr.quantifier === "forall" ? "∀" : "∃"), ...binders, mo("."), printMath(expr.body, Level.Top));
+      return min === Level.Top ? node : mrow(mo("("), node, mo(")"));
+    }
+  }
+}
+
+export function printMathML(ast: Expr): MathNode {
+  return printMath(ast, Level.Top);
+}
@@ -0,0 +1,83 @@
+// descriptor/typecheck.ts
+import { BINARY_SYMBOLS, Expr, Sort, ValueType, isArithOp, isCompareOp, sortValueType } from "./ast";
+import { Diagnostic } from "./diagnostics";
+
+export type Scope = ReadonlyMap<string, Sort>;
+
+// Infers the value type of expr, pushing a diagnostic for every sort error found along the way
+export function inferType(expr: Expr, scope: Scope, diagnostics: Diagnostic[]): ValueType {
+  const error = (message: string, at: Expr = expr) => diagnostics.push({ severity: "error", message, span: at.span });
+  const expectType = (operand: Expr, expected: ValueType, context: string) => {
+    const actual = inferType(operand, scope, diagnostics);
+    if (actual !== expected) error(`${context} expects ${expected === "int" ? "an integer" : "a boolean"} operand, got ${actual}`, operand);
+  };
+
+  switch (expr.kind) {
+    case "int":
+      return "int";
+    case "bool":
+      return "bool";
+    case "var": {
+      const sort = scope.get(expr.name);
+      if (!sort) {
+        error(`Unbound variable '${expr.name}'; declare it with ∀ or ∃`);
+        return "int";
+      }
+      return sortValueType(sort);
+    }
+    case "unary":
+      if (expr.op === "neg") {
+        expectType(expr.operand, "int", "'-'");
+        return "int";
+      }
+      expectType(expr.operand, "bool", "'¬'");
+      return "bool";
+    case "binary": {
+      const symbol = `'${BINARY_SYMBOLS[expr.op]}'`;
+      if (isArithOp(expr.op)) {
+        expectType(expr.left, "int", symbol);
+        expectType(expr.right, "int", symbol);
+        return "int";
+      }
+      if (expr.op === "eq" || expr.op === "ne") {
+        const left = inferType(expr.left, scope, diagnostics);
+        const right = inferType(expr.right, scope, diagnostics);
+        if (left !== right) error(`${symbol} compares ${left} with ${right}`);
+        return "bool";
+      }
+      if (isCompareOp(expr.op)) {
+        expectType(expr.left, "int", symbol);
+        expectType(expr.right, "int", symbol);
+        return "bool";
+      }
+      expectType(expr.left, "bool", symbol);
+      expectType(expr.right, "bool", symbol);
+      return "bool";
+    }
+    case "quant": {
+      const inner = new Map(scope);
+      const seen = new Set<string>();
+      for (const binder of expr.binders) {
+        if (seen.has(binder.name)) {
+          diagnostics.push({ severity: "error", message: `Variable '${binder.name}' is bound twice`, span: binder.span });
+        } else if (scope.has(binder.name)) {
+          diagnostics.push({ severity: "warning", message: `'${binder.name}' shadows an outer variable`, span: binder.span });
+        }
+        seen.add(binder.name);
+        inner.set(binder.name, binder.sort);
+      }
+      const body = inferType(expr.body, inner, diagnostics);
+      if (body !== "bool") error("Quantifier body must be a boolean formula", expr.body);
+      return "bool";
+    }
+  }
+}
+
+export function checkTheorem(ast: Expr): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const type = inferType(ast, new Map(), diagnostics);
+  if (type !== "bool") {
+    diagnostics.push({ severity: "error", message: "A theorem must be a boolean formula, not an integer expression", span: ast.span });
+  }
+  return diagnostics;
+}
@@ -0,0 +1,181 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig, FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { EncryptedChunk, EncryptedProgram, EncryptedTheorem, EncryptedWitness } from "./ciphertexts";
+import { CounterexampleWitness, WitnessVault, witnessFromLanes } from "./prover/witness";
+
+export type { EncryptedChunk, EncryptedProgram, EncryptedTheorem, EncryptedWitness };
+
+// One input proof covers at most 2048 bits, i.e. 64 euint32 values
+export const MAX_WORDS_PER_INPUT = 64;
+// TheoremProverFHE.MAX_TEXT_WORDS: an encrypted statement is at most 768 bytes. Each word is
+// an euint32 input that storeEncryptedTheorem verifies and stores for about 120k gas, so a
+// full 192-word statement costs about 23M gas
+export const MAX_TEXT_WORDS = 192;
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      if (!window.ethereum) throw new Error("No injected wallet");
+      await initSDK();
+      return createInstance({ ...SepoliaConfig, network: window.ethereum });
+    })();
+    // Allow a retry after a failed initialisation (e.g. relayer unreachable)
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+// Pack UTF-8 bytes big-endian into 32-bit words, zero-padding the last one
+export function packWords(data: Uint8Array): number[] {
+  const words: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    let word = 0;
+    for (let j = 0; j < 4; j++) {
+      word = (word << 8) | (i + j < data.length ? data[i + j] : 0);
+    }
+    words.push(word >>> 0);
+  }
+  return words;
+}
+
+export function unpackWords(words: number[], byteLength: number): Uint8Array {
+  const data = new Uint8Array(words.length * 4);
+  words.forEach((word, i) => {
+    data[i * 4] = (word >>> 24) & 0xff;
+    data[i * 4 + 1] = (word >>> 16) & 0xff;
+    data[i * 4 + 2] = (word >>> 8) & 0xff;
+    data[i * 4 + 3] = word & 0xff;
+  });
+  return data.slice(0, byteLength);
+}
+
+// Encrypt a batch of 32-bit values as euint32 inputs bound to contractAddress/userAddress
+export async function encryptWords(words: number[], contractAddress: string, userAddress: string): Promise<EncryptedChunk[]> {
+  const instance = await getFhevmInstance();
+  const chunks: EncryptedChunk[] = [];
+  for (let i = 0; i < words.length; i += MAX_WORDS_PER_INPUT) {
+    const input = instance.createEncryptedInput(contractAddress, userAddress);
+    for (const word of words.slice(i, i + MAX_WORDS_PER_INPUT)) input.add32(word);
+    const { handles, inputProof } = await input.encrypt();
+    chunks.push({
+      handles: handles.map(h => ethers.hexlify(h)),
+      inputProof: ethers.hexlify(inputProof)
+    });
+  }
+  return chunks;
+}
+
+export async function encryptTheorem(theoremData: string, contractAddress: string, userAddress: string): Promise<EncryptedTheorem> {
+  if (!ethers.isAddress(contractAddress)) {
+    throw new Error("TheoremProverFHE address is not configured");
+  }
+  const bytes = ethers.toUtf8Bytes(theoremData);
+  const words = packWords(bytes);
+  if (words.length > MAX_TEXT_WORDS) {
+    throw new Error(`Statement is ${bytes.length} bytes encoded; at most ${MAX_TEXT_WORDS * 4} can be encrypted`);
+  }
+  const chunks = await encryptWords(words, contractAddress, userAddress);
+  return { contractAddress, userAddress, byteLength: bytes.length, chunks };
+}
+
+// Register the ciphertexts with TheoremProverFHE, which verifies the input proofs and grants
+// the sender user decryption; until then the handles decrypt for no one
+export async function storeEncryptedTheorem(prover: ethers.Contract, encrypted: EncryptedTheorem): Promise<EncryptedTheorem> {
+  const tx = await prover.storeEncryptedTheorem(
+    encrypted.chunks.map(c => c.handles),
+    encrypted.chunks.map(c => c.inputProof)
+  );
+  await tx.wait();
+  return { ...encrypted, textTx: tx.hash };
+}
+
+export function theoremHandles(encrypted: EncryptedTheorem): string[] {
+  return encrypted.chunks.flatMap(c => c.handles);
+}
+
+// Encrypt a compiled theorem as one input: euint32 words followed by the ebool lane
+export async function encryptProgram(
+  program: { words: number[]; bools: boolean[] },
+  contractAddress: string,
+  userAddress: string
+): Promise<EncryptedProgram> {
+  if (!ethers.isAddress(contractAddress)) {
+    throw new Error("TheoremProverFHE address is not configured");
+  }
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const w of program.words) input.add32(w);
+  for (const b of program.bools) input.addBool(b);
+  const { handles, inputProof } = await input.encrypt();
+  const hex = handles.map(h => ethers.hexlify(h));
+  return {
+    contractAddress,
+    userAddress,
+    wordHandles: hex.slice(0, program.words.length),
+    boolHandles: hex.slice(program.words.length),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Decrypt handles the signer has been granted access to, via relayer user decryption
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<Record<string, bigint | boolean | string>> {
+  const instance = await getFhevmInstance();
+  const userAddress = await signer.getAddress();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+  return instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    startTimestamp,
+    durationDays
+  );
+}
+
+export async function decryptProgram(encrypted: EncryptedProgram, signer: ethers.Signer): Promise<{ words: number[]; bools: boolean[] }> {
+  const clear = await userDecryptHandles([...encrypted.wordHandles, ...encrypted.boolHandles], encrypted.contractAddress, signer);
+  return {
+    words: encrypted.wordHandles.map(h => Number(clear[h]) >>> 0),
+    bools: encrypted.boolHandles.map(h => clear[h] === true || clear[h] === 1n)
+  };
+}
+
+// The owner's theorem text; decrypts only once storeEncryptedTheorem has granted access
+export async function decryptTheorem(encrypted: EncryptedTheorem, signer: ethers.Signer): Promise<string> {
+  const handles = theoremHandles(encrypted);
+  const clear = await userDecryptHandles(handles, encrypted.contractAddress, signer);
+  return ethers.toUtf8String(unpackWords(handles.map(h => Number(clear[h]) >>> 0), encrypted.byteLength));
+}
+
+// storeWitness inputs sent from the connected wallet
+export async function browserWitnessVault(prover: WitnessVault["prover"], sender: string): Promise<WitnessVault> {
+  const instance = await getFhevmInstance();
+  return { prover, sender, createInput: (contractAddress, userAddress) => instance.createEncryptedInput(contractAddress, userAddress) };
+}
+
+// Only the owner named in storeWitness can decrypt
+export async function decryptWitness(encrypted: EncryptedWitness, signer: ethers.Signer): Promise<CounterexampleWitness> {
+  const clear = await userDecryptHandles([...encrypted.valueHandles, ...encrypted.flagHandles], encrypted.contractAddress, signer);
+  return witnessFromLanes(
+    encrypted.bindings,
+    encrypted.valueHandles.map(h => BigInt(clear[h] as bigint)),
+    encrypted.flagHandles.map(h => clear[h] === true || clear[h] === 1n)
+  );
+}
@@ -0,0 +1,18 @@
+// formats/compress.ts
+// gzip via the Compression Streams API, available both in browsers and in Node 18+
+import { ethers } from "ethers";
+
+const pipe = async (data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const reader = new Blob([new Uint8Array(data)]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) chunks.push(chunk.value as Uint8Array);
+  return ethers.getBytes(ethers.concat(chunks));
+};
+
+export async function gzipBase64(text: string): Promise<string> {
+  return ethers.encodeBase64(await pipe(ethers.toUtf8Bytes(text), new CompressionStream("gzip")));
+}
+
+export async function gunzipBase64(data: string): Promise<string> {
+  return ethers.toUtf8String(await pipe(ethers.decodeBase64(data), new DecompressionStream("gzip")));
+}
@@ -0,0 +1,115 @@
+// formats/dimacs.ts
+// DIMACS CNF reader/writer. Parse errors are collected per line instead of stopping at
+// the first one, so a whole benchmark file can be fixed in one pass.
+import { Cnf } from "../prover/sat/cnf";
+import { gunzipBase64, gzipBase64 } from "./compress";
+
+export interface DimacsError {
+  line: number;
+  message: string;
+}
+
+export interface DimacsParseResult {
+  cnf: Cnf | null;
+  comments: string[];
+  errors: DimacsError[];
+}
+
+export function parseDimacs(text: string): DimacsParseResult {
+  const errors: DimacsError[] = [];
+  const comments: string[] = [];
+  const clauses: number[][] = [];
+  let header: { numVars: number; numClauses: number; line: number } | null = null;
+  let current: number[] = [];
+  let currentStart = 0;
+
+  // Last line read, for errors about the file as a whole
+  let lastLine = 1;
+  for (const [i, raw] of text.split(/\r?\n/).entries()) {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (trimmed === "") continue;
+    // SATLIB files end with a '%' line followed by a stray '0'
+    if (trimmed.startsWith("%")) break;
+    lastLine = line;
+    if (trimmed.startsWith("c")) {
+      comments.push(trimmed.slice(1).trim());
+      continue;
+    }
+    if (trimmed.startsWith("p")) {
+      const parts = trimmed.split(/\s+/);
+      if (header) {
+        errors.push({ line, message: `Duplicate problem line (first one at line ${header.line})` });
+      } else if (parts.length !== 4 || parts[1] !== "cnf" || !/^\d+$/.test(parts[2]) || !/^\d+$/.test(parts[3])) {
+        errors.push({ line, message: "Expected problem line 'p cnf <variables> <clauses>'" });
+      } else {
+        header = { numVars: Number(parts[2]), numClauses: Number(parts[3]), line };
+      }
+      continue;
+    }
+    if (!header) {
+      errors.push({ line, message: "Clause before the 'p cnf' problem line" });
+      continue;
+    }
+    for (const token of trimmed.split(/\s+/)) {
+      if (!/^-?\d+$/.test(token)) {
+        errors.push({ line, message: `Invalid literal '${token}'` });
+        continue;
+      }
+      const lit = Number(token);
+      if (lit === 0) {
+        clauses.push(current);
+        current = [];
+        continue;
+      }
+      if (Math.abs(lit) > header.numVars) {
+        errors.push({ line, message: `Literal ${lit} exceeds the declared ${header.numVars} variables` });
+        continue;
+      }
+      if (current.length === 0) currentStart = line;
+      current.push(lit);
+    }
+  }
+
+  if (!header) {
+    errors.push({ line: 1, message: "Missing 'p cnf <variables> <clauses>' problem line" });
+    return { cnf: null, comments, errors };
+  }
+  const { numVars, numClauses } = header;
+  if (current.length > 0) errors.push({ line: currentStart, message: "Last clause is not terminated by 0" });
+  if (clauses.length !== numClauses) {
+    errors.push({ line: lastLine, message: `Header declares ${numClauses} clauses but ${clauses.length} were found` });
+  }
+  return { cnf: errors.length === 0 ? { numVars, clauses } : null, comments, errors };
+}
+
+export function toDimacs(cnf: Cnf, comments: string[] = []): string {
+  const lines = comments.map(c => `c ${c}`);
+  if (cnf.names) {
+    for (const [v, name] of Object.entries(cnf.names)) lines.push(`c var ${v} ${name}`);
+  }
+  lines.push(`p cnf ${cnf.numVars} ${cnf.clauses.length}`);
+  for (const clause of cnf.clauses) lines.push([...clause, 0].join(" "));
+  return lines.join("\n") + "\n";
+}
+
+// Instances above this size are gzip-compressed before they go into a record
+export const COMPRESSION_THRESHOLD = 4096;
+
+export type StoredCnf =
+  | { encoding: "dimacs"; numVars: number; numClauses: number; data: string }
+  | { encoding: "dimacs+gzip"; numVars: number; numClauses: number; data: string };
+
+export async function storeCnf(cnf: Cnf): Promise<StoredCnf> {
+  const text = toDimacs(cnf);
+  const base = { numVars: cnf.numVars, numClauses: cnf.clauses.length };
+  if (text.length <= COMPRESSION_THRESHOLD) return { ...base, encoding: "dimacs", data: text };
+  return { ...base, encoding: "dimacs+gzip", data: await gzipBase64(text) };
+}
+
+export async function loadCnf(stored: StoredCnf): Promise<Cnf> {
+  const text = stored.encoding === "dimacs+gzip" ? await gunzipBase64(stored.data) : stored.data;
+  const { cnf, errors } = parseDimacs(text);
+  if (!cnf) throw new Error(`Stored CNF is corrupt: line ${errors[0].line}: ${errors[0].message}`);
+  return cnf;
+}
@@ -0,0 +1,12 @@
+// formats/download.ts
+export function downloadText(filename: string, text: string, type = "text/plain") {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Turn a theorem name into something safe to use as a file name
+export const fileStem = (name: string) => name.trim().replace(/[^A-Za-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "") || "theorem";
@@ -0,0 +1,49 @@
+// formats/latex.ts
+// Standalone LaTeX document for a descriptor theorem. The statement is typeset from the
+// AST with printLatex, so it reads the same whether it was written in TDL or LaTeX; the
+// original source is kept as a comment.
+import { Expr, printLatex } from "../descriptor";
+
+export interface LatexExportOptions {
+  source?: string;
+  category?: string;
+}
+
+const TEXT_ESCAPES: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "#": "\\#",
+  "%": "\\%",
+  "&": "\\&",
+  "_": "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}"
+};
+
+// Text outside $...$ is escaped; math segments of names are kept as written
+export function latexText(text: string): string {
+  return text
+    .split(/(\$[^$]*\$)/)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(/[\\#%&_{}~^$]/g, ch => TEXT_ESCAPES[ch] ?? "\\$")))
+    .join("");
+}
+
+export function printLatexDocument(ast: Expr, name: string, options: LatexExportOptions = {}): string {
+  const lines = [`% ${name}`];
+  if (options.source) lines.push(...options.source.split("\n").map(line => `% ${line}`));
+  lines.push(
+    "\\documentclass{article}",
+    "\\usepackage{amsmath, amssymb, amsthm}",
+    "\\newtheorem*{claim}{Theorem}",
+    "\\begin{document}",
+    `\\begin{claim}[{${latexText(name)}}]`,
+    "\\[",
+    `  ${printLatex(ast)}`,
+    "\\]",
+    "\\end{claim}"
+  );
+  if (options.category) lines.push(`\\noindent Category: ${latexText(options.category)}`);
+  lines.push("\\end{document}");
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,231 @@
+// formats/smtlib.ts
+// SMT-LIB v2 export of descriptor theorems and parsing of solver replies. The script
+// asserts ¬φ over the outer ∀ variables declared as constants, so `unsat` means φ is
+// valid and a `sat` model is a counterexample. Division and modulo are guarded to
+// keep the descriptor's x/0 = 0 and x mod 0 = x instead of SMT-LIB's unspecified values.
+import { Binder, Expr, Sort, Span, inferType } from "../descriptor";
+import { Assignment } from "../prover/evaluate";
+import { universalPrefix } from "../prover/search";
+
+export class SmtLibError extends Error {
+  constructor(message: string, public readonly span?: Span) {
+    super(message);
+    this.name = "SmtLibError";
+  }
+}
+
+// x^n is unfolded into an n-ary product
+const MAX_UNFOLDED_EXPONENT = 64;
+
+const RESERVED = new Set([
+  "_", "!", "as", "let", "exists", "forall", "match", "par", "true", "false", "not", "and", "or", "xor", "=>",
+  "ite", "distinct", "div", "mod", "abs", "Int", "Bool"
+]);
+
+export const smtSymbol = (name: string) =>
+  /^[A-Za-z~!@$%^&*_+=<>.?/-][A-Za-z0-9~!@$%^&*_+=<>.?/-]*$/.test(name) && !RESERVED.has(name) ? name : `|${name}|`;
+
+const smtInt = (value: number | bigint) => (value < 0 ? `(- ${-value})` : String(value));
+
+const sortName = (sort: Sort) => (sort.kind === "bool" ? "Bool" : "Int");
+
+// Membership constraint for ℕ and range sorts; null when the SMT sort is exact
+function sortGuard(sort: Sort, name: string): string | null {
+  switch (sort.kind) {
+    case "nat": return `(>= ${name} 0)`;
+    case "range": return `(and (<= ${smtInt(sort.lo)} ${name}) (<= ${name} ${smtInt(sort.hi)}))`;
+    default: return null;
+  }
+}
+
+function isLinear(expr: Expr): boolean {
+  const constant = (e: Expr): boolean =>
+    e.kind === "int" || (e.kind === "unary" && e.op === "neg" && constant(e.operand)) ||
+    (e.kind === "binary" && ["add", "sub", "mul"].includes(e.op) && constant(e.left) && constant(e.right));
+  switch (expr.kind) {
+    case "int":
+    case "bool":
+    case "var": return true;
+    case "unary": return isLinear(expr.operand);
+    case "quant": return isLinear(expr.body);
+    case "binary":
+      if (expr.op === "mul") return (constant(expr.left) || constant(expr.right)) && isLinear(expr.left) && isLinear(expr.right);
+      if (expr.op === "div" || expr.op === "mod") return expr.right.kind === "int" && isLinear(expr.left);
+      if (expr.op === "pow") return constant(expr.left) || (expr.right.kind === "int" && expr.right.value <= 1 && isLinear(expr.left));
+      return isLinear(expr.left) && isLinear(expr.right);
+  }
+}
+
+const hasQuantifier = (expr: Expr): boolean =>
+  expr.kind === "quant" ||
+  (expr.kind === "unary" && hasQuantifier(expr.operand)) ||
+  (expr.kind === "binary" && (hasQuantifier(expr.left) || hasQuantifier(expr.right)));
+
+class SmtPrinter {
+  constructor(private scope: Map<string, Sort>) {}
+
+  print(expr: Expr): string {
+    switch (expr.kind) {
+      case "int": return smtInt(expr.value);
+      case "bool": return expr.value ? "true" : "false";
+      case "var": return smtSymbol(expr.name);
+      case "unary": return `(${expr.op === "not" ? "not" : "-"} ${this.print(expr.operand)})`;
+      case "binary": return this.binary(expr);
+      case "quant": {
+        const outer = this.scope;
+        this.scope = new Map(outer);
+        for (const binder of expr.binders) this.scope.set(binder.name, binder.sort);
+        const body = this.print(expr.body);
+        this.scope = outer;
+
+        const vars = expr.binders.map(b => `(${smtSymbol(b.name)} ${sortName(b.sort)})`).join(" ");
+        const guards = expr.binders.map(b => sortGuard(b.sort, smtSymbol(b.name))).filter((g): g is string => g !== null);
+        const guard = guards.length > 1 ? `(and ${guards.join(" ")})` : guards[0];
+        const guarded = !guard ? body : expr.quantifier === "forall" ? `(=> ${guard} ${body})` : `(and ${guard} ${body})`;
+        return `(${expr.quantifier} (${vars}) ${guarded})`;
+      }
+    }
+  }
+
+  private binary(expr: Extract<Expr, { kind: "binary" }>): string {
+    const left = this.print(expr.left);
+    const right = this.print(expr.right);
+    switch (expr.op) {
+      case "add": return `(+ ${left} ${right})`;
+      case "sub": return `(- ${left} ${right})`;
+      case "mul": return `(* ${left} ${right})`;
+      case "div": return expr.right.kind === "int" && expr.right.value !== 0 ? `(div ${left} ${right})` : `(ite (= ${right} 0) 0 (div ${left} ${right}))`;
+      case "mod": return expr.right.kind === "int" && expr.right.value !== 0 ? `(mod ${left} ${right})` : `(ite (= ${right} 0) ${left} (mod ${left} ${right}))`;
+      case "pow": return this.power(expr.left, expr.right);
+      case "eq": return `(= ${left} ${right})`;
+      case "ne": return `(distinct ${left} ${right})`;
+      case "lt": return `(< ${left} ${right})`;
+      case "le": return `(<= ${left} ${right})`;
+      case "gt": return `(> ${left} ${right})`;
+      case "ge": return `(>= ${left} ${right})`;
+      case "and": return `(and ${left} ${right})`;
+      case "or": return `(or ${left} ${right})`;
+      case "implies": return `(=> ${left} ${right})`;
+      // = on Bool is ↔ in SMT-LIB
+      case "iff": return `(= ${left} ${right})`;
+    }
+  }
+
+  private power(base: Expr, exponent: Expr): string {
+    if (exponent.kind !== "int") throw new SmtLibError("Exponentiation with a non-constant exponent has no SMT-LIB counterpart", exponent.span);
+    if (exponent.value < 0) return "0";
+    if (exponent.value > MAX_UNFOLDED_EXPONENT) {
+      throw new SmtLibError(`Exponent ${exponent.value} is too large to unfold (at most ${MAX_UNFOLDED_EXPONENT})`, exponent.span);
+    }
+    if (exponent.value === 0) return "1";
+    const factor = this.print(base);
+    return exponent.value === 1 ? factor : `(* ${Array(exponent.value).fill(factor).join(" ")})`;
+  }
+}
+
+export interface SmtLibScript {
+  text: string;
+  // Outer ∀ variables declared with declare-fun; a sat model assigns exactly these
+  constants: Binder[];
+  logic: string;
+}
+
+export interface SmtLibOptions {
+  name?: string;
+  source?: string;
+  // Append (get-model) after (check-sat); solvers report an error for it on unsat
+  getModel?: boolean;
+}
+
+export function printSmtLib(ast: Expr, options: SmtLibOptions = {}): SmtLibScript {
+  const { binders, body } = universalPrefix(ast);
+  const scope = new Map<string, Sort>();
+  for (const binder of binders) scope.set(binder.name, binder.sort);
+  if (inferType(body, scope, []) !== "bool") throw new SmtLibError("A theorem must be a boolean formula", body.span);
+
+  const logic = `${hasQuantifier(body) ? "" : "QF_"}${isLinear(body) ? "LIA" : "NIA"}`;
+  const lines: string[] = [];
+  if (options.name) lines.push(`; ${options.name}`);
+  if (options.source) lines.push(...options.source.split("\n").map(line => `; ${line}`));
+  lines.push("; unsat means the theorem is valid; a model is a counterexample");
+  lines.push(`(set-logic ${logic})`, "(set-option :produce-models true)");
+
+  // A later binder of the same name shadows the earlier one, so only the last is declared
+  const constants = binders.filter((b, i) => !binders.slice(i + 1).some(later => later.name === b.name));
+  for (const binder of constants) {
+    const name = smtSymbol(binder.name);
+    lines.push(`(declare-fun ${name} () ${sortName(binder.sort)})`);
+    const guard = sortGuard(binder.sort, name);
+    if (guard) lines.push(`(assert ${guard})`);
+  }
+  lines.push(`(assert (not ${new SmtPrinter(scope).print(body)}))`, "(check-sat)");
+  if (options.getModel) lines.push("(get-model)");
+  return { text: lines.join("\n") + "\n", constants, logic };
+}
+
+// ---------------------------------------------------------------------------
+// Solver replies
+
+export type SExpr = string | SExpr[];
+
+export function parseSExprs(text: string): SExpr[] {
+  const tokens = text.match(/\|[^|]*\||"(?:[^"]|"")*"|;[^\n]*|[()]|[^\s()|";]+/g) ?? [];
+  const stack: SExpr[][] = [[]];
+  for (const token of tokens) {
+    if (token.startsWith(";")) continue;
+    if (token === "(") {
+      stack.push([]);
+    } else if (token === ")") {
+      if (stack.length === 1) throw new SmtLibError("Unbalanced ')' in solver output");
+      const list = stack.pop()!;
+      stack[stack.length - 1].push(list);
+    } else {
+      stack[stack.length - 1].push(token);
+    }
+  }
+  if (stack.length !== 1) throw new SmtLibError("Unterminated list in solver output");
+  return stack[0];
+}
+
+const unquoteSymbol = (symbol: string) => (symbol.startsWith("|") ? symbol.slice(1, -1) : symbol);
+
+function modelValue(value: SExpr): number | boolean | null {
+  if (value === "true" || value === "false") return value === "true";
+  if (typeof value === "string") return /^[0-9]+$/.test(value) ? Number(value) : null;
+  if (value.length === 2 && value[0] === "-" && typeof value[1] === "string" && /^[0-9]+$/.test(value[1])) return -Number(value[1]);
+  return null;
+}
+
+export type SmtAnswer =
+  | { status: "sat"; model: Assignment }
+  | { status: "unsat" }
+  | { status: "unknown"; reason: string };
+
+// Read `sat` / `unsat` / `unknown` followed by an optional (get-model) reply. Model
+// entries that are not constants with literal values (e.g. auxiliary functions) are skipped.
+export function parseSmtAnswer(output: string): SmtAnswer {
+  const replies = parseSExprs(output);
+  const status = replies.find(r => r === "sat" || r === "unsat" || r === "unknown");
+  const error = replies.find((r): r is SExpr[] => Array.isArray(r) && r[0] === "error");
+  if (!status) {
+    return { status: "unknown", reason: error ? `Solver error: ${String(error[1]).replace(/^"|"$/g, "")}` : "No check-sat answer in solver output" };
+  }
+  if (status === "unsat") return { status: "unsat" };
+  if (status === "unknown") return { status: "unknown", reason: "Solver answered unknown" };
+
+  const model: Assignment = {};
+  const after = replies.slice(replies.indexOf(status) + 1);
+  for (const reply of after) {
+    if (!Array.isArray(reply)) continue;
+    // z3 used to wrap the model in (model ...); newer solvers return the bare list
+    const entries = reply[0] === "model" ? reply.slice(1) : reply;
+    for (const entry of entries) {
+      if (!Array.isArray(entry) || entry[0] !== "define-fun" || entry.length !== 5) continue;
+      const [, name, params, , value] = entry;
+      if (typeof name !== "string" || !Array.isArray(params) || params.length > 0) continue;
+      const parsed = modelValue(value);
+      if (parsed !== null) model[unquoteSymbol(name)] = parsed;
+    }
+  }
+  return { status: "sat", model };
+}
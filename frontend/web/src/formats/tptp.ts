@@ -0,0 +1,785 @@
+// formats/tptp.ts
+// TPTP reader/writer mapped onto the descriptor AST. Covers the FOF and CNF dialects
+// plus the integer-arithmetic fragment of TFF ($int, $sum, $less, ...). Uninterpreted
+// functions and predicates have no counterpart in the descriptor language and are
+// rejected; 0-ary symbols become universally quantified Bool (atoms) or ℤ (constants)
+// variables, which preserves validity of the conjecture.
+import { BinaryOp, Binder, Diagnostic, Expr, Position, Sort, Span, checkTheorem, inferType, isArithOp, isCompareOp } from "../descriptor";
+import { KEYWORDS } from "../descriptor/lexer";
+import { Cnf } from "../prover/sat/cnf";
+
+export class TptpError extends Error {
+  constructor(public readonly diagnostic: Diagnostic) {
+    super(`line ${diagnostic.span.start.line}, column ${diagnostic.span.start.column}: ${diagnostic.message}`);
+    this.name = "TptpError";
+  }
+}
+
+export type TptpDialect = "fof" | "tff" | "cnf";
+
+export interface TptpParseResult {
+  ast: Expr | null;
+  // Name of the conjecture (or of the first formula for refutation problems)
+  name: string | null;
+  diagnostics: Diagnostic[];
+}
+
+// ---------------------------------------------------------------------------
+// Lexer
+
+type TokenKind = "lower" | "upper" | "dollar" | "quoted" | "int" | "symbol" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  span: Span;
+}
+
+// Longest spellings first
+const SYMBOLS = ["<=>", "<~>", "=>", "<=", "~|", "~&", "!=", "(", ")", "[", "]", ",", ".", ":", "!", "?", "~", "&", "|", "=", ">", "*"];
+
+const fail = (message: string, span: Span): never => {
+  throw new TptpError({ severity: "error", message, span });
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): Position => ({ offset, line, column });
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+  const take = (kind: TokenKind, length: number) => {
+    const start = position();
+    const text = source.slice(offset, offset + length);
+    advance(length);
+    tokens.push({ kind, text, span: { start, end: position() } });
+  };
+
+  while (offset < source.length) {
+    const ch = source[offset];
+    const rest = source.slice(offset);
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+    if (ch === "%") {
+      while (offset < source.length && source[offset] !== "\n") advance(1);
+      continue;
+    }
+    if (rest.startsWith("/*")) {
+      const start = position();
+      const end = source.indexOf("*/", offset + 2);
+      if (end < 0) fail("Unterminated block comment", { start, end: start });
+      advance(end + 2 - offset);
+      continue;
+    }
+
+    const number = /^[+-]?[0-9]+/.exec(rest);
+    if (number) {
+      const after = rest[number[0].length];
+      if (after === "/" || (after === "." && /[0-9]/.test(rest[number[0].length + 1] ?? "")) || after === "E" || after === "e") {
+        const start = position();
+        fail("Only integer numbers are supported; rationals and reals have no descriptor counterpart", { start, end: start });
+      }
+      take("int", number[0].length);
+      continue;
+    }
+
+    const word = /^\$?\$?[A-Za-z][A-Za-z0-9_]*/.exec(rest);
+    if (word) {
+      const kind: TokenKind = word[0].startsWith("$") ? "dollar" : /[A-Z]/.test(word[0][0]) ? "upper" : "lower";
+      take(kind, word[0].length);
+      continue;
+    }
+
+    if (ch === "'") {
+      let end = offset + 1;
+      while (end < source.length && source[end] !== "'") end += source[end] === "\\" ? 2 : 1;
+      if (end >= source.length) fail("Unterminated quoted name", { start: position(), end: position() });
+      take("quoted", end + 1 - offset);
+      continue;
+    }
+    if (ch === '"') fail("Distinct objects (\"...\") are not supported", { start: position(), end: position() });
+
+    const symbol = SYMBOLS.find(s => rest.startsWith(s));
+    if (symbol) {
+      take("symbol", symbol.length);
+      continue;
+    }
+    fail(`Unexpected character '${ch}'`, { start: position(), end: position() });
+  }
+
+  const end = position();
+  tokens.push({ kind: "eof", text: "", span: { start: end, end } });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+const PREMISE_ROLES = ["axiom", "hypothesis", "definition", "assumption", "lemma", "theorem", "corollary", "plain", "unknown", "negated_conjecture"];
+
+const ARITHMETIC: Record<string, BinaryOp> = {
+  $sum: "add",
+  $difference: "sub",
+  $product: "mul",
+  $quotient_e: "div",
+  $remainder_e: "mod"
+};
+
+const PREDICATES: Record<string, BinaryOp> = {
+  $less: "lt",
+  $lesseq: "le",
+  $greater: "gt",
+  $greatereq: "ge"
+};
+
+type SymbolType = "int" | "bool";
+
+// Application of a word to arguments, before we know whether it is a term or a formula
+interface RawAtom {
+  token: Token;
+  args: RawAtom[] | null;
+  span: Span;
+}
+
+const join = (a: Span, b: Span): Span => ({ start: a.start, end: b.end });
+
+const describe = (token: Token) => (token.kind === "eof" ? "end of input" : `'${token.text}'`);
+
+const unquote = (text: string) => text.slice(1, -1).replace(/\\(.)/g, "$1");
+
+// TPTP names that are descriptor keywords or not identifiers get a safe spelling
+function descriptorName(name: string): string {
+  const ident = name.replace(/[^A-Za-z0-9_]/g, "_").replace(/^(?=[0-9_])/, "c");
+  return KEYWORDS[ident] ? `${ident}_` : ident;
+}
+
+class TptpParser {
+  private index = 0;
+  private dialect: TptpDialect = "fof";
+  private scope = new Map<string, SymbolType>();
+  // Free variables of the current CNF clause, implicitly universally quantified
+  private freeVars = new Map<string, Span>();
+  // 0-ary symbols in order of declaration / first use
+  readonly symbols = new Map<string, { type: SymbolType; span: Span }>();
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== "eof") this.index++;
+    return token;
+  }
+
+  private at(text: string): boolean {
+    const token = this.peek();
+    return token.kind === "symbol" && token.text === text;
+  }
+
+  private accept(text: string): Token | null {
+    return this.at(text) ? this.next() : null;
+  }
+
+  private expect(text: string, what: string): Token {
+    return this.accept(text) ?? fail(`Expected ${what} but found ${describe(this.peek())}`, this.peek().span);
+  }
+
+  parseProblem(): TptpParseResult {
+    const premises: Expr[] = [];
+    let conjecture: { name: string; formula: Expr } | null = null;
+    let firstName: string | null = null;
+
+    while (this.peek().kind !== "eof") {
+      const head = this.next();
+      if (head.kind === "lower" && head.text === "include") {
+        fail("include directives are not supported; paste the included axioms into the problem", head.span);
+      }
+      if (head.kind !== "lower" || !["fof", "tff", "cnf"].includes(head.text)) {
+        fail(`Expected fof(...), tff(...) or cnf(...) but found ${describe(head)}`, head.span);
+      }
+      this.dialect = head.text as TptpDialect;
+      this.expect("(", "'(' after " + head.text);
+      const nameToken = this.next();
+      if (!["lower", "upper", "int", "quoted"].includes(nameToken.kind)) fail(`Expected a formula name but found ${describe(nameToken)}`, nameToken.span);
+      const name = nameToken.kind === "quoted" ? unquote(nameToken.text) : nameToken.text;
+      this.expect(",", "',' after the formula name");
+      const roleToken = this.next();
+      const role = roleToken.text;
+      if (roleToken.kind !== "lower") fail(`Expected a formula role but found ${describe(roleToken)}`, roleToken.span);
+      this.expect(",", "',' after the formula role");
+
+      if (role === "type") {
+        this.typeDeclaration();
+      } else {
+        this.freeVars.clear();
+        let formula = this.logicFormula();
+        if (this.freeVars.size > 0) formula = this.closeFreeVars(formula);
+        if (role === "conjecture") {
+          if (conjecture) fail("Only one conjecture per problem is supported", roleToken.span);
+          conjecture = { name, formula };
+        } else if (PREMISE_ROLES.includes(role)) {
+          premises.push(formula);
+        } else {
+          fail(`Unsupported formula role '${role}'`, roleToken.span);
+        }
+        firstName ??= name;
+      }
+
+      // Skip the optional source and useful-info annotations
+      if (this.accept(",")) this.skipAnnotations();
+      this.expect(")", `')' to close ${head.text}(...)`);
+      this.expect(".", "'.' after the annotated formula");
+    }
+
+    if (!conjecture && premises.length === 0) fail("The problem contains no formulas", this.peek().span);
+    let theorem: Expr;
+    if (conjecture) {
+      theorem = premises.length === 0
+        ? conjecture.formula
+        : { kind: "binary", op: "implies", left: conjunction(premises), right: conjecture.formula, span: join(premises[0].span, conjecture.formula.span) };
+    } else {
+      // Refutation problem: the premises are claimed to be unsatisfiable
+      const all = conjunction(premises);
+      theorem = { kind: "unary", op: "not", operand: all, span: all.span };
+    }
+
+    if (this.symbols.size > 0) {
+      const binders: Binder[] = [...this.symbols].map(([name, { type, span }]) => ({
+        name: descriptorName(name),
+        sort: { kind: type },
+        span
+      }));
+      theorem = { kind: "quant", quantifier: "forall", binders, body: theorem, span: theorem.span };
+    }
+    return { ast: theorem, name: conjecture?.name ?? firstName, diagnostics: [] };
+  }
+
+  private skipAnnotations() {
+    let depth = 0;
+    while (depth > 0 || !this.at(")")) {
+      const token = this.next();
+      if (token.kind === "eof") fail("Unterminated annotation", token.span);
+      if (token.text === "(" || token.text === "[") depth++;
+      if (token.text === ")" || token.text === "]") depth--;
+    }
+  }
+
+  private typeDeclaration() {
+    if (this.accept("(")) {
+      this.typeDeclaration();
+      this.expect(")", "')' to close the type declaration");
+      return;
+    }
+    const symbol = this.next();
+    if (symbol.kind !== "lower") fail(`Expected a symbol to declare but found ${describe(symbol)}`, symbol.span);
+    this.expect(":", "':' in the type declaration");
+    const type = this.type();
+    const known = this.symbols.get(symbol.text);
+    if (known && known.type !== type) fail(`'${symbol.text}' is already used as ${known.type === "int" ? "a $int term" : "a formula"}`, symbol.span);
+    this.symbols.set(symbol.text, { type, span: symbol.span });
+  }
+
+  private type(): SymbolType {
+    const token = this.next();
+    if (token.kind === "dollar" && token.text === "$int") return "int";
+    if (token.kind === "dollar" && token.text === "$o") return "bool";
+    return fail(`Unsupported type ${describe(token)}; only $int and $o can be mapped to descriptor sorts`, token.span);
+  }
+
+  private closeFreeVars(formula: Expr): Expr {
+    const binders: Binder[] = [...this.freeVars].map(([name, span]) => ({ name: descriptorName(name), sort: { kind: "int" }, span }));
+    return { kind: "quant", quantifier: "forall", binders, body: formula, span: formula.span };
+  }
+
+  // logic_formula := unitary (nonassoc unitary | ("&" unitary)+ | ("|" unitary)+)?
+  private logicFormula(): Expr {
+    const left = this.unitary();
+    const token = this.peek();
+    if (token.kind !== "symbol") return left;
+    // reversed: the right operand was written first ("<=")
+    const binary = (op: BinaryOp, l: Expr, r: Expr, reversed = false): Expr =>
+      ({ kind: "binary", op, left: l, right: r, span: reversed ? join(r.span, l.span) : join(l.span, r.span) });
+    const not = (operand: Expr): Expr => ({ kind: "unary", op: "not", operand, span: operand.span });
+
+    switch (token.text) {
+      case "<=>": this.next(); return binary("iff", left, this.unitary());
+      case "=>": this.next(); return binary("implies", left, this.unitary());
+      case "<=": this.next(); return binary("implies", this.unitary(), left, true);
+      case "<~>": this.next(); return not(binary("iff", left, this.unitary()));
+      case "~|": this.next(); return not(binary("or", left, this.unitary()));
+      case "~&": this.next(); return not(binary("and", left, this.unitary()));
+      case "&":
+      case "|": {
+        const op: BinaryOp = token.text === "&" ? "and" : "or";
+        let result = left;
+        while (this.accept(token.text)) result = binary(op, result, this.unitary());
+        if (this.at("&") || this.at("|")) fail("Mixing '&' and '|' requires parentheses", this.peek().span);
+        return result;
+      }
+      default:
+        return left;
+    }
+  }
+
+  private unitary(): Expr {
+    const token = this.peek();
+    if (this.accept("(")) {
+      const inner = this.logicFormula();
+      const close = this.expect(")", `')' to match '(' at line ${token.span.start.line}, column ${token.span.start.column}`);
+      return { ...inner, span: join(token.span, close.span) };
+    }
+    if (this.accept("~")) {
+      const operand = this.unitary();
+      return { kind: "unary", op: "not", operand, span: join(token.span, operand.span) };
+    }
+    if (this.at("!") || this.at("?")) return this.quantified();
+    return this.atomicFormula();
+  }
+
+  private quantified(): Expr {
+    const token = this.next();
+    if (this.dialect === "cnf") fail("Quantifiers are not allowed in cnf(...) formulas", token.span);
+    this.expect("[", "'[' to open the variable list");
+    const binders: Binder[] = [];
+    const variables: string[] = [];
+    do {
+      const variable = this.next();
+      if (variable.kind !== "upper") fail(`Expected a variable but found ${describe(variable)}`, variable.span);
+      const type: SymbolType = this.accept(":") ? this.type() : "int";
+      variables.push(variable.text);
+      binders.push({ name: descriptorName(variable.text), sort: { kind: type }, span: variable.span });
+    } while (this.accept(","));
+    this.expect("]", "']' to close the variable list");
+    this.expect(":", "':' after the variable list");
+
+    const outer = this.scope;
+    this.scope = new Map(outer);
+    binders.forEach((binder, i) => this.scope.set(variables[i], binder.sort.kind === "bool" ? "bool" : "int"));
+    const body = this.unitary();
+    this.scope = outer;
+
+    const quantifier = token.text === "!" ? "forall" : "exists";
+    return { kind: "quant", quantifier, ...recoverSorts(quantifier, binders, body), span: join(token.span, body.span) };
+  }
+
+  private atomicFormula(): Expr {
+    const raw = this.rawAtom();
+    const eq = this.accept("=") ? "eq" : this.accept("!=") ? "ne" : null;
+    if (!eq) return this.toFormula(raw);
+    const left = this.toTerm(raw);
+    const right = this.toTerm(this.rawAtom());
+    return { kind: "binary", op: eq, left, right, span: join(left.span, right.span) };
+  }
+
+  private rawAtom(): RawAtom {
+    const token = this.next();
+    if (!["lower", "upper", "dollar", "quoted", "int"].includes(token.kind)) {
+      fail(`Expected a term or atom but found ${describe(token)}`, token.span);
+    }
+    if (!this.accept("(")) return { token, args: null, span: token.span };
+    const args: RawAtom[] = [];
+    do args.push(this.rawAtom());
+    while (this.accept(","));
+    const close = this.expect(")", `')' to close the arguments of '${token.text}'`);
+    return { token, args, span: join(token.span, close.span) };
+  }
+
+  private useSymbol(raw: RawAtom, type: SymbolType): Expr {
+    const name = raw.token.kind === "quoted" ? unquote(raw.token.text) : raw.token.text;
+    if (raw.args) {
+      const what = type === "int" ? "function" : "predicate";
+      fail(`Uninterpreted ${what} '${name}/${raw.args.length}' is not supported; only 0-ary symbols and TPTP arithmetic can be mapped`, raw.span);
+    }
+    const known = this.symbols.get(name);
+    if (known && known.type !== type) {
+      fail(`'${name}' is used both as ${known.type === "int" ? "a term" : "a formula"} and as ${type === "int" ? "a term" : "a formula"}`, raw.span);
+    }
+    if (!known) this.symbols.set(name, { type, span: raw.span });
+    return { kind: "var", name: descriptorName(name), span: raw.span };
+  }
+
+  private variable(raw: RawAtom, type: SymbolType): Expr {
+    const name = raw.token.text;
+    if (raw.args) fail(`Variable '${name}' cannot be applied to arguments`, raw.span);
+    const bound = this.scope.get(name);
+    if (!bound) {
+      if (this.dialect !== "cnf" || type === "bool") fail(`Unbound variable '${name}'`, raw.span);
+      if (!this.freeVars.has(name)) this.freeVars.set(name, raw.span);
+    } else if (bound !== type) {
+      fail(`Variable '${name}' is ${bound === "int" ? "a $int" : "a $o"} but is used as ${type === "int" ? "a term" : "a formula"}`, raw.span);
+    }
+    return { kind: "var", name: descriptorName(name), span: raw.span };
+  }
+
+  private arity(raw: RawAtom, count: number): RawAtom[] {
+    if (raw.args?.length !== count) fail(`'${raw.token.text}' expects ${count} argument${count === 1 ? "" : "s"}`, raw.span);
+    return raw.args!;
+  }
+
+  private toFormula(raw: RawAtom): Expr {
+    const { token } = raw;
+    switch (token.kind) {
+      case "upper":
+        return this.variable(raw, "bool");
+      case "lower":
+      case "quoted":
+        return this.useSymbol(raw, "bool");
+      case "dollar": {
+        if ((token.text === "$true" || token.text === "$false") && !raw.args) {
+          return { kind: "bool", value: token.text === "$true", span: raw.span };
+        }
+        const op = PREDICATES[token.text];
+        if (!op) return fail(`Unsupported predicate '${token.text}'`, raw.span);
+        const [a, b] = this.arity(raw, 2).map(arg => this.toTerm(arg));
+        return { kind: "binary", op, left: a, right: b, span: raw.span };
+      }
+      default:
+        return fail(`Expected a formula but found ${describe(token)}`, raw.span);
+    }
+  }
+
+  private toTerm(raw: RawAtom): Expr {
+    const { token } = raw;
+    switch (token.kind) {
+      case "int": {
+        const value = Number(token.text);
+        if (!Number.isSafeInteger(value)) fail(`Integer literal ${token.text} is too large`, raw.span);
+        return { kind: "int", value, span: raw.span };
+      }
+      case "upper":
+        return this.variable(raw, "int");
+      case "lower":
+      case "quoted":
+        return this.useSymbol(raw, "int");
+      case "dollar": {
+        if (token.text === "$uminus") {
+          const [operand] = this.arity(raw, 1).map(arg => this.toTerm(arg));
+          return { kind: "unary", op: "neg", operand, span: raw.span };
+        }
+        const op = ARITHMETIC[token.text];
+        if (!op) {
+          const hint = /^\$(quotient|remainder)/.test(token.text) ? "; only the Euclidean $quotient_e/$remainder_e match descriptor semantics" : "";
+          return fail(`Unsupported function '${token.text}'${hint}`, raw.span);
+        }
+        const [a, b] = this.arity(raw, 2).map(arg => this.toTerm(arg));
+        return { kind: "binary", op, left: a, right: b, span: raw.span };
+      }
+      default:
+        return fail(`Expected a term but found ${describe(token)}`, raw.span);
+    }
+  }
+}
+
+function conjunction(formulas: Expr[]): Expr {
+  return formulas.reduce((left, right) => ({ kind: "binary", op: "and", left, right, span: join(left.span, right.span) }));
+}
+
+function flattenAnd(expr: Expr): Expr[] {
+  return expr.kind === "binary" && expr.op === "and" ? [...flattenAnd(expr.left), ...flattenAnd(expr.right)] : [expr];
+}
+
+// Turn the canonical bound guards written by printTptp back into ℕ and [lo..hi] sorts:
+//   ! [N: $int] : (($lesseq(3, N) & $lesseq(N, 10)) => body)   ~>   ∀ N ∈ [3..10]. body
+//   ? [N: $int] : ($lesseq(0, N) & body)                        ~>   ∃ N ∈ ℕ. body
+function recoverSorts(quantifier: "forall" | "exists", binders: Binder[], body: Expr): { binders: Binder[]; body: Expr } {
+  const split = body.kind === "binary" && body.op === (quantifier === "forall" ? "implies" : "and") ? body : null;
+  if (!split) return { binders, body };
+
+  const bounds = new Map<string, { lo?: number; hi?: number }>();
+  const entry = (name: string) => bounds.get(name) ?? bounds.set(name, {}).get(name)!;
+  const isIntBinder = (e: Expr): e is Extract<Expr, { kind: "var" }> =>
+    e.kind === "var" && binders.some(b => b.name === e.name && b.sort.kind === "int");
+  for (const guard of flattenAnd(split.left)) {
+    if (guard.kind !== "binary" || guard.op !== "le") return { binders, body };
+    const { left, right } = guard;
+    if (left.kind === "int" && isIntBinder(right) && entry(right.name).lo === undefined) {
+      entry(right.name).lo = left.value;
+    } else if (isIntBinder(left) && right.kind === "int" && entry(left.name).hi === undefined) {
+      entry(left.name).hi = right.value;
+    } else {
+      return { binders, body };
+    }
+  }
+
+  const sorts = new Map<string, Sort>();
+  for (const [name, { lo, hi }] of bounds) {
+    if (lo === undefined) return { binders, body };
+    if (hi === undefined) {
+      if (lo !== 0) return { binders, body };
+      sorts.set(name, { kind: "nat" });
+    } else {
+      if (lo > hi) return { binders, body };
+      sorts.set(name, { kind: "range", lo, hi });
+    }
+  }
+  return { binders: binders.map(b => ({ ...b, sort: sorts.get(b.name) ?? b.sort })), body: split.right };
+}
+
+export function parseTptp(source: string): TptpParseResult {
+  try {
+    const result = new TptpParser(tokenize(source)).parseProblem();
+    const diagnostics = checkTheorem(result.ast!);
+    return { ...result, ast: diagnostics.some(d => d.severity === "error") ? null : result.ast, diagnostics };
+  } catch (e) {
+    if (e instanceof TptpError) return { ast: null, name: null, diagnostics: [e.diagnostic] };
+    throw e;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Printer
+
+const TPTP_ARITHMETIC: Partial<Record<BinaryOp, string>> = {
+  add: "$sum",
+  sub: "$difference",
+  mul: "$product",
+  div: "$quotient_e",
+  mod: "$remainder_e",
+  lt: "$less",
+  le: "$lesseq",
+  gt: "$greater",
+  ge: "$greatereq"
+};
+
+const TPTP_CONNECTIVES: Partial<Record<BinaryOp, string>> = {
+  and: "&",
+  or: "|",
+  implies: "=>",
+  iff: "<=>"
+};
+
+// x^n is unfolded into a product; keep that from exploding
+const MAX_UNFOLDED_EXPONENT = 16;
+
+// Quote a formula name unless it already is a TPTP lower_word
+export const tptpName = (name: string) =>
+  /^[a-z][A-Za-z0-9_]*$/.test(name) ? name : `'${name.replace(/[\\']/g, c => `\\${c}`)}'`;
+
+// Injective renaming of descriptor identifiers into TPTP upper_word (variables) or lower_word (symbols)
+class NameTable {
+  private readonly names = new Map<string, string>();
+  private readonly taken = new Set<string>();
+
+  constructor(private readonly variables: boolean) {}
+
+  get(name: string): string {
+    const known = this.names.get(name);
+    if (known) return known;
+    let base = name.replace(/[^A-Za-z0-9_]/g, "_");
+    if (this.variables) base = /^[a-z]/.test(base) ? base[0].toUpperCase() + base.slice(1) : /^[A-Z]/.test(base) ? base : `V${base}`;
+    else base = /^[A-Z]/.test(base) ? base[0].toLowerCase() + base.slice(1) : /^[a-z]/.test(base) ? base : `c${base}`;
+    let candidate = base;
+    for (let i = 1; this.taken.has(candidate); i++) candidate = `${base}${i}`;
+    this.names.set(name, candidate);
+    this.taken.add(candidate);
+    return candidate;
+  }
+}
+
+const guardAtoms = (binder: Binder, name: string): string[] => {
+  switch (binder.sort.kind) {
+    case "nat": return [`$lesseq(0, ${name})`];
+    case "range": return [`$lesseq(${binder.sort.lo}, ${name})`, `$lesseq(${name}, ${binder.sort.hi})`];
+    default: return [];
+  }
+};
+
+class TptpPrinter {
+  private readonly variables = new NameTable(true);
+  private readonly constants = new NameTable(false);
+  // Descriptor variables printed as 0-ary symbols, with their TPTP spelling
+  private readonly symbolNames = new Map<string, string>();
+  private scope = new Map<string, Sort>();
+  // Symbols hidden by an inner binder of the same name
+  private shadowed = new Set<string>();
+
+  constructor(symbols: Binder[]) {
+    for (const binder of symbols) {
+      this.symbolNames.set(binder.name, this.constants.get(binder.name));
+      this.scope.set(binder.name, binder.sort);
+    }
+  }
+
+  private isBool(expr: Expr): boolean {
+    return inferType(expr, this.scope, []) === "bool";
+  }
+
+  symbol(name: string): string {
+    return this.symbolNames.get(name)!;
+  }
+
+  private name(name: string): string {
+    return this.symbolNames.has(name) && !this.shadowed.has(name) ? this.symbol(name) : this.variables.get(name);
+  }
+
+  term(expr: Expr): string {
+    switch (expr.kind) {
+      case "int":
+        return String(expr.value);
+      case "var":
+        return this.name(expr.name);
+      case "unary":
+        return `$uminus(${this.term(expr.operand)})`;
+      case "binary": {
+        if (expr.op === "pow") return this.power(expr.left, expr.right);
+        return `${TPTP_ARITHMETIC[expr.op]}(${this.term(expr.left)}, ${this.term(expr.right)})`;
+      }
+      default:
+        return fail("Expected an integer expression", expr.span);
+    }
+  }
+
+  private power(base: Expr, exponent: Expr): string {
+    if (exponent.kind !== "int") {
+      return fail("Exponentiation with a non-constant exponent has no TPTP counterpart", exponent.span);
+    }
+    if (exponent.value < 0) return "0";
+    if (exponent.value > MAX_UNFOLDED_EXPONENT) {
+      return fail(`Exponent ${exponent.value} is too large to unfold into $product (at most ${MAX_UNFOLDED_EXPONENT})`, exponent.span);
+    }
+    if (exponent.value === 0) return "1";
+    const factor = this.term(base);
+    let result = factor;
+    for (let i = 1; i < exponent.value; i++) result = `$product(${factor}, ${result})`;
+    return result;
+  }
+
+  // Formulas are printed fully parenthesised except for flat chains of one associative connective
+  formula(expr: Expr): string {
+    switch (expr.kind) {
+      case "bool":
+        return expr.value ? "$true" : "$false";
+      case "var":
+        return this.name(expr.name);
+      case "unary":
+        return `~ ${this.formula(expr.operand)}`;
+      case "binary": {
+        const { op } = expr;
+        if (isArithOp(op)) return fail("Expected a formula", expr.span);
+        if (op === "eq" || op === "ne") {
+          if (this.isBool(expr.left)) {
+            const iff = `(${this.formula(expr.left)} <=> ${this.formula(expr.right)})`;
+            return op === "eq" ? iff : `~ ${iff}`;
+          }
+          return `${this.term(expr.left)} ${op === "eq" ? "=" : "!="} ${this.term(expr.right)}`;
+        }
+        if (isCompareOp(op)) return `${TPTP_ARITHMETIC[op]}(${this.term(expr.left)}, ${this.term(expr.right)})`;
+        if (op === "and" || op === "or") {
+          const chain: Expr[] = [];
+          let node: Expr = expr;
+          while (node.kind === "binary" && node.op === op) {
+            chain.unshift(node.right);
+            node = node.left;
+          }
+          chain.unshift(node);
+          return `(${chain.map(e => this.formula(e)).join(` ${TPTP_CONNECTIVES[op]} `)})`;
+        }
+        return `(${this.formula(expr.left)} ${TPTP_CONNECTIVES[op]} ${this.formula(expr.right)})`;
+      }
+      case "quant": {
+        const outerScope = this.scope;
+        const outerShadowed = this.shadowed;
+        this.scope = new Map(outerScope);
+        this.shadowed = new Set(outerShadowed);
+        const vars = expr.binders.map(binder => {
+          this.scope.set(binder.name, binder.sort);
+          if (this.symbolNames.has(binder.name)) this.shadowed.add(binder.name);
+          const name = this.variables.get(binder.name);
+          return { binder, name, decl: `${name}: ${binder.sort.kind === "bool" ? "$o" : "$int"}` };
+        });
+        const guards = vars.flatMap(({ binder, name }) => guardAtoms(binder, name));
+        const body = this.formula(expr.body);
+        this.scope = outerScope;
+        this.shadowed = outerShadowed;
+
+        const guard = guards.length > 1 ? `(${guards.join(" & ")})` : guards[0];
+        const guarded = !guard ? body : expr.quantifier === "forall" ? `(${guard} => ${body})` : `(${guard} & ${body})`;
+        return `${expr.quantifier === "forall" ? "!" : "?"} [${vars.map(v => v.decl).join(", ")}] : ${guarded}`;
+      }
+      default:
+        return fail("Expected a formula", expr.span);
+    }
+  }
+}
+
+// FOF can't express arithmetic or typed variables; anything beyond plain propositional
+// structure over the outer atoms goes out as TFF
+function needsTff(expr: Expr): boolean {
+  switch (expr.kind) {
+    case "int": return true;
+    case "bool":
+    case "var": return false;
+    case "unary": return expr.op === "neg" || needsTff(expr.operand);
+    case "binary": return !(expr.op in TPTP_CONNECTIVES) || needsTff(expr.left) || needsTff(expr.right);
+    case "quant": return true;
+  }
+}
+
+export interface TptpExportOptions {
+  // Descriptor source, repeated in a header comment
+  source?: string;
+}
+
+// Print a theorem as a single TPTP conjecture. Outer ∀-bound Bool variables become
+// propositional atoms and ℤ variables spelled like TPTP constants become declared $int
+// symbols, mirroring what parseTptp produces; everything else stays quantified.
+export function printTptp(ast: Expr, name: string, options: TptpExportOptions = {}): string {
+  let symbols: Binder[] = [];
+  let body = ast;
+  if (ast.kind === "quant" && ast.quantifier === "forall") {
+    symbols = ast.binders.filter(b => b.sort.kind === "bool" || (b.sort.kind === "int" && /^[a-z][A-Za-z0-9_]*$/.test(b.name)));
+    const rest = ast.binders.filter(b => !symbols.includes(b));
+    body = rest.length === 0 ? ast.body : { ...ast, binders: rest };
+  }
+  // A symbol bound twice in the prefix would otherwise print as two declarations of one name
+  const names = symbols.map(b => b.name);
+  if (new Set(names).size !== names.length) {
+    symbols = [];
+    body = ast;
+  }
+
+  const printer = new TptpPrinter(symbols);
+  const formula = printer.formula(body);
+  const dialect = needsTff(body) || symbols.some(b => b.sort.kind === "int") ? "tff" : "fof";
+
+  const lines = [`% ${name}`];
+  if (options.source) lines.push(...options.source.split("\n").map(line => `% ${line}`));
+  if (dialect === "tff") {
+    for (const binder of symbols) {
+      const symbol = printer.symbol(binder.name);
+      lines.push(`tff(${symbol}_type, type, ${symbol}: ${binder.sort.kind === "bool" ? "$o" : "$int"}).`);
+    }
+  }
+  lines.push(`${dialect}(${tptpName(name)}, conjecture, ${formula}).`);
+  return lines.join("\n") + "\n";
+}
+
+// Clause set in the CNF dialect; the problem claims the clauses are unsatisfiable
+export function printTptpCnf(cnf: Cnf, name: string): string {
+  const atoms = new NameTable(false);
+  const atom = (v: number) => atoms.get(cnf.names?.[v] ?? `x${v}`);
+  const lines = [`% ${name}`];
+  cnf.clauses.forEach((clause, i) => {
+    const literals = clause.map(lit => (lit > 0 ? atom(lit) : `~ ${atom(-lit)}`));
+    lines.push(`cnf(${tptpName(`c${i + 1}`)}, axiom, ${literals.length === 0 ? "$false" : `(${literals.join(" | ")})`}).`);
+  });
+  return lines.join("\n") + "\n";
+}
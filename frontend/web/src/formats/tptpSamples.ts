@@ -0,0 +1,70 @@
+// formats/tptpSamples.ts
+// Small TPTP problems offered in the create modal; each one parses with parseTptp and
+// survives a printTptp round trip.
+
+export interface TptpSample {
+  name: string;
+  category: string;
+  text: string;
+}
+
+export const TPTP_SAMPLES: TptpSample[] = [
+  {
+    name: "Contraposition",
+    category: "Logic",
+    text: `% Pelletier problem 2: an implication is equivalent to its contrapositive
+fof(contraposition, conjecture, ((p => q) <=> (~ q => ~ p))).
+`
+  },
+  {
+    name: "Modus Ponens",
+    category: "Logic",
+    text: `fof(p_holds, axiom, p).
+fof(p_implies_q, axiom, (p => q)).
+fof(q_holds, conjecture, q).
+`
+  },
+  {
+    name: "Peirce's Law",
+    category: "Logic",
+    text: `fof(peirce, conjecture, (((p => q) => p) => p)).
+`
+  },
+  {
+    name: "Two-Variable Refutation",
+    category: "Logic",
+    text: `% Every assignment of p and q falsifies one of these clauses
+cnf(c1, axiom, (p | q)).
+cnf(c2, axiom, (~ p | q)).
+cnf(c3, axiom, (p | ~ q)).
+cnf(c4, negated_conjecture, (~ p | ~ q)).
+`
+  },
+  {
+    name: "Commutativity of Addition",
+    category: "Algebra",
+    text: `tff(sum_comm, conjecture, ! [X: $int, Y: $int] : $sum(X, Y) = $sum(Y, X)).
+`
+  },
+  {
+    name: "Euclidean Division",
+    category: "Number Theory",
+    text: `tff(div_mod, conjecture, ! [X: $int, Y: $int] :
+    ($greatereq(Y, 1) => X = $sum($product($quotient_e(X, Y), Y), $remainder_e(X, Y)))).
+`
+  },
+  {
+    name: "Small Squares",
+    category: "Number Theory",
+    text: `tff(small_squares, conjecture, ! [N: $int] :
+    (($lesseq(0, N) & $lesseq(N, 10)) => $greatereq($product(N, N), N))).
+`
+  },
+  {
+    name: "Unbounded Successor",
+    category: "Number Theory",
+    text: `tff(a_type, type, a: $int).
+tff(exists_greater, conjecture, ? [X: $int] : ($lesseq(0, X) & $greater(X, a))).
+`
+  }
+];
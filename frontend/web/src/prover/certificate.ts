@@ -0,0 +1,75 @@
+// prover/certificate.ts
+// JSON proof certificates. A certificate is what a "proved" result rests on and is
+// re-verified by checker.ts against the theorem alone:
+//   resolution   lemmas derived from the CNF of ¬φ (or an imported CNF), each by reverse unit
+//                propagation (a chain of resolutions), ending in the empty clause
+//   rewriting    rule applications (prover/rewrite.ts) taking φ to ⊤
+//   enumeration  the leading ∀ binders range over finite domains and every assignment makes
+//                the body exactly true
+// The public record keeps only the keccak256 of the certificate bytes; the bytes are
+// reproduced from the statement (prover/certify.ts) or handed over as a file.
+import { ethers } from "ethers";
+import { Clause } from "./sat/cnf";
+import { REWRITE_RULES, RewriteStep } from "./rewrite";
+
+export const CERTIFICATE_VERSION = 1;
+
+export type ProofCertificate =
+  | { version: typeof CERTIFICATE_VERSION; kind: "resolution"; lemmas: Clause[] }
+  | { version: typeof CERTIFICATE_VERSION; kind: "rewriting"; steps: RewriteStep[] }
+  | { version: typeof CERTIFICATE_VERSION; kind: "enumeration"; binders: string[]; assignments: number };
+
+export class CertificateFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CertificateFormatError";
+  }
+}
+
+export const encodeCertificate = (certificate: ProofCertificate): Uint8Array =>
+  ethers.toUtf8Bytes(JSON.stringify(certificate));
+
+// Over the exact bytes that are reproduced or downloaded
+export const hashCertificate = (bytes: ethers.BytesLike): string => ethers.keccak256(bytes);
+
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isClause = (value: unknown) => Array.isArray(value) && value.every(lit => Number.isInteger(lit) && lit !== 0);
+
+export function decodeCertificate(bytes: ethers.BytesLike): ProofCertificate {
+  let value: any;
+  try {
+    value = JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e: any) {
+    throw new CertificateFormatError(`Certificate is not JSON: ${e.message}`);
+  }
+  if (typeof value !== "object" || value === null) throw new CertificateFormatError("Certificate is not a JSON object");
+  if (value.version !== CERTIFICATE_VERSION) throw new CertificateFormatError(`Unsupported certificate version ${JSON.stringify(value.version)}`);
+  switch (value.kind) {
+    case "resolution":
+      if (!Array.isArray(value.lemmas) || !value.lemmas.every(isClause)) throw new CertificateFormatError("lemmas must be clauses of non-zero literals");
+      return { version: CERTIFICATE_VERSION, kind: "resolution", lemmas: value.lemmas };
+    case "rewriting":
+      if (
+        !Array.isArray(value.steps) ||
+        !value.steps.every((s: any) => REWRITE_RULES.includes(s?.rule) && Array.isArray(s.path) && s.path.every(isCount))
+      ) {
+        throw new CertificateFormatError("steps must be { rule, path } rewrites");
+      }
+      return { version: CERTIFICATE_VERSION, kind: "rewriting", steps: value.steps.map((s: any) => ({ rule: s.rule, path: s.path })) };
+    case "enumeration":
+      if (!Array.isArray(value.binders) || !value.binders.every((b: unknown) => typeof b === "string") || !isCount(value.assignments)) {
+        throw new CertificateFormatError("enumeration needs binders and an assignment count");
+      }
+      return { version: CERTIFICATE_VERSION, kind: "enumeration", binders: value.binders, assignments: value.assignments };
+    default:
+      throw new CertificateFormatError(`Unknown certificate kind ${JSON.stringify(value.kind)}`);
+  }
+}
+
+export function describeCertificate(certificate: ProofCertificate): string {
+  switch (certificate.kind) {
+    case "resolution": return `resolution refutation with ${certificate.lemmas.length} lemmas`;
+    case "rewriting": return `rewriting chain of ${certificate.steps.length} steps`;
+    case "enumeration": return `enumeration of ${certificate.assignments} assignments`;
+  }
+}
@@ -0,0 +1,47 @@
+// prover/certify.ts
+// Re-checking a record's proof. Records only carry the certificate's hash, but the built-in
+// engines are deterministic, so whoever holds the statement reproduces the same bytes by
+// running the same engine again. The bytes must hash to the record's certificateHash before
+// checker.ts looks at them.
+import { ethers } from "ethers";
+import { loadCnf } from "../formats/dimacs";
+import { StoredTheorem, TheoremStatement } from "../store/recordSchema";
+import { CertificateFormatError, decodeCertificate, hashCertificate } from "./certificate";
+import { CheckResult, checkCertificate } from "./checker";
+import { ProverRequest, proverRequest, runProverRequest } from "./engines";
+import { proofCertificateBytes } from "./record";
+import { SearchResult } from "./search";
+
+// A record together with its statement, which records keep off-chain
+export type CertifiedRecord = Pick<StoredTheorem, "certificateHash" | "category"> & TheoremStatement;
+
+export async function loadCertificate(
+  theoremId: string,
+  record: CertifiedRecord,
+  // How to re-run an engine; the browser passes proveInWorker
+  prove: (request: ProverRequest) => Promise<SearchResult> = async request => runProverRequest(request)
+): Promise<Uint8Array> {
+  if (!record.certificateHash) throw new Error(`Theorem ${theoremId} has no proof certificate`);
+  const bytes = proofCertificateBytes(await prove(await proverRequest(record)));
+  if (!bytes || hashCertificate(bytes) !== record.certificateHash) {
+    throw new Error("Running the built-in engine again does not reproduce the recorded certificate");
+  }
+  return bytes;
+}
+
+// Checks the bytes against the record's hash, then the proof against the theorem
+export async function verifyCertificate(record: CertifiedRecord, bytes: ethers.BytesLike): Promise<CheckResult> {
+  if (!record.certificateHash) return { ok: false, error: "The record has no certificate hash" };
+  if (hashCertificate(bytes) !== record.certificateHash) {
+    return { ok: false, error: `Certificate hash ${hashCertificate(bytes)} does not match the record (${record.certificateHash})` };
+  }
+  try {
+    const certificate = decodeCertificate(bytes);
+    const theorem = record.descriptor ? { ast: record.descriptor.ast } : record.cnf ? { cnf: await loadCnf(record.cnf) } : null;
+    if (!theorem) return { ok: false, error: "The record has no formal statement" };
+    return checkCertificate(theorem, certificate);
+  } catch (e) {
+    if (e instanceof CertificateFormatError) return { ok: false, error: e.message };
+    throw e;
+  }
+}
@@ -0,0 +1,171 @@
+// prover/checker.ts
+// Trusted certificate checker. It re-verifies a certificate against the theorem using only
+// the AST, the Tseitin encoder, the evaluator and the rewrite rules, never the engine that
+// produced it, and is meant to stay small enough to audit.
+import { Binder, Expr } from "../descriptor";
+import { BudgetExceededError, EvaluationError, Evaluator, Value, domainOf, forEachAssignment } from "./evaluate";
+import { CERTIFICATE_VERSION, ProofCertificate, describeCertificate } from "./certificate";
+import { applyRule } from "./rewrite";
+import { Clause, Cnf, Literal } from "./sat/cnf";
+import { NotPropositionalError, negatedCnf } from "./sat/tseitin";
+
+// A descriptor theorem, or an imported CNF claimed to be unsatisfiable
+export type CertifiedTheorem = { ast: Expr } | { cnf: Cnf };
+
+export type CheckResult = { ok: true; summary: string } | { ok: false; error: string };
+
+// Instantiation budget for re-running an enumeration
+const MAX_CHECK_STEPS = 20_000_000;
+
+export function checkCertificate(theorem: CertifiedTheorem, certificate: ProofCertificate): CheckResult {
+  if (certificate.version !== CERTIFICATE_VERSION) return { ok: false, error: `Unsupported certificate version ${certificate.version}` };
+  try {
+    const error =
+      certificate.kind === "resolution"
+        ? checkResolution(theorem, certificate.lemmas)
+        : !("ast" in theorem)
+          ? `A ${certificate.kind} certificate needs a descriptor theorem`
+          : certificate.kind === "rewriting"
+            ? checkRewriting(theorem.ast, certificate)
+            : checkEnumeration(theorem.ast, certificate);
+    return error ? { ok: false, error } : { ok: true, summary: `Valid ${describeCertificate(certificate)}` };
+  } catch (e) {
+    if (e instanceof NotPropositionalError || e instanceof EvaluationError || e instanceof BudgetExceededError) {
+      return { ok: false, error: e.message };
+    }
+    throw e;
+  }
+}
+
+// Each lemma must be RUP: assuming its negation, unit propagation over the input clauses
+// and earlier lemmas reaches a conflict. The last lemma must be the empty clause.
+function checkResolution(theorem: CertifiedTheorem, lemmas: Clause[]): string | null {
+  const cnf = "cnf" in theorem ? theorem.cnf : negatedCnf(theorem.ast).cnf;
+  if (lemmas.length === 0 || lemmas[lemmas.length - 1].length !== 0) return "Refutation does not end in the empty clause";
+
+  const clauses: Clause[] = [];
+  const occurrences = new Map<Literal, number[]>();
+  const add = (input: Clause) => {
+    const clause = normalized(input);
+    if (!clause) return;
+    for (const lit of clause) {
+      const list = occurrences.get(lit) ?? [];
+      list.push(clauses.length);
+      occurrences.set(lit, list);
+    }
+    clauses.push(clause);
+  };
+  const inRange = (clause: Clause) => clause.every(lit => lit !== 0 && Math.abs(lit) <= cnf.numVars);
+  for (const clause of cnf.clauses) {
+    if (!inRange(clause)) return "Theorem CNF has a literal out of range";
+    add(clause);
+  }
+
+  for (const [i, lemma] of lemmas.entries()) {
+    if (!inRange(lemma)) return `Lemma ${i + 1} has a literal out of range 1..${cnf.numVars}`;
+    if (!propagatesToConflict(clauses, occurrences, cnf.numVars, lemma)) {
+      return `Lemma ${i + 1} (${lemma.length === 0 ? "empty clause" : lemma.join(" ")}) does not follow by unit propagation`;
+    }
+    add(lemma);
+  }
+  return null;
+}
+
+// Without repeated literals, as the solver reads its input; null for a tautology
+function normalized(clause: Clause): Clause | null {
+  const lits = new Set(clause);
+  for (const lit of lits) if (lits.has(-lit)) return null;
+  return [...lits];
+}
+
+function propagatesToConflict(clauses: Clause[], occurrences: Map<Literal, number[]>, numVars: number, lemma: Clause): boolean {
+  // 1 true, -1 false, 0 unassigned (by variable)
+  const values = new Int8Array(numVars + 1);
+  const valueOf = (lit: Literal) => (lit > 0 ? values[lit] : -values[-lit]);
+  const queue: Literal[] = [];
+  const assign = (lit: Literal): boolean => {
+    const current = valueOf(lit);
+    if (current === -1) return false;
+    if (current === 0) {
+      values[Math.abs(lit)] = lit > 0 ? 1 : -1;
+      queue.push(lit);
+    }
+    return true;
+  };
+
+  for (const lit of lemma) if (!assign(-lit)) return true; // tautology
+  for (const clause of clauses) {
+    if (clause.length === 0) return true;
+    if (clause.length === 1 && !assign(clause[0])) return true;
+  }
+
+  while (queue.length > 0) {
+    // Clauses containing the literal just made false
+    for (const index of occurrences.get(-queue.pop()!) ?? []) {
+      let unassigned: Literal | null = null;
+      let open = 0;
+      let satisfied = false;
+      for (const lit of clauses[index]) {
+        const value = valueOf(lit);
+        if (value === 1) {
+          satisfied = true;
+          break;
+        }
+        if (value === 0) {
+          unassigned = lit;
+          open++;
+        }
+      }
+      if (satisfied || open > 1) continue;
+      if (open === 0 || !assign(unassigned!)) return true;
+    }
+  }
+  return false;
+}
+
+function checkRewriting(ast: Expr, certificate: Extract<ProofCertificate, { kind: "rewriting" }>): string | null {
+  let expr = ast;
+  for (const [i, step] of certificate.steps.entries()) {
+    const next = applyRule(expr, step);
+    if (!next) return `Step ${i + 1}: rule '${step.rule}' does not apply at [${step.path.join(", ")}]`;
+    expr = next;
+  }
+  return expr.kind === "bool" && expr.value ? null : "Rewriting chain does not end in ⊤";
+}
+
+// The leading ∀ binders must all have finite domains and every assignment must make the
+// body exactly true; nested quantifiers over ℕ/ℤ therefore fail the check
+function checkEnumeration(ast: Expr, certificate: Extract<ProofCertificate, { kind: "enumeration" }>): string | null {
+  const binders: Binder[] = [];
+  let body = ast;
+  while (body.kind === "quant" && body.quantifier === "forall") {
+    binders.push(...body.binders);
+    body = body.body;
+  }
+  if (binders.map(b => b.name).join(",") !== certificate.binders.join(",")) {
+    return `Certificate enumerates (${certificate.binders.join(", ")}) but the theorem binds (${binders.map(b => b.name).join(", ")})`;
+  }
+  const domains = binders.map(b => domainOf(b.sort, 0, MAX_CHECK_STEPS));
+  const unbounded = binders.find((_, i) => !domains[i].complete);
+  if (unbounded) {
+    return unbounded.sort.kind === "range"
+      ? `'${unbounded.name}' has more values than the checker enumerates (${MAX_CHECK_STEPS})`
+      : `'${unbounded.name}' ranges over an infinite sort`;
+  }
+
+  const evaluator = new Evaluator({ bound: 0, maxSteps: MAX_CHECK_STEPS });
+  let assignments = 0;
+  let failure: string | null = null;
+  forEachAssignment(binders, domains, new Map<string, Value>(), env => {
+    assignments++;
+    const truth = evaluator.truth(body, env);
+    if (truth.value && truth.exact) return true;
+    const at = binders.map(b => `${b.name} = ${env.get(b.name)}`).join(", ");
+    failure = truth.exact ? `False at ${at || "the only assignment"}` : `Not decided exactly at ${at || "the only assignment"}`;
+    return false;
+  });
+  if (failure) return failure;
+  return assignments === certificate.assignments
+    ? null
+    : `Certificate claims ${certificate.assignments} assignments but the domains have ${assignments}`;
+}
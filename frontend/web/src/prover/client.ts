@@ -0,0 +1,26 @@
+// prover/client.ts
+import { ProverRequest } from "./engines";
+import { ProgressListener } from "./progress";
+import { SearchResult } from "./search";
+import type { ProverWorkerMessage } from "./worker";
+
+// Run a proving engine in a dedicated worker so long searches don't block React; progress
+// events arrive on `onProgress` until the result resolves the promise
+export function proveInWorker(request: ProverRequest, onProgress?: ProgressListener): Promise<SearchResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<ProverWorkerMessage>) => {
+      if (event.data.type === "progress") {
+        onProgress?.(event.data.event);
+        return;
+      }
+      worker.terminate();
+      resolve(event.data.result);
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || "Prover worker failed"));
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,33 @@
+// prover/engines.ts
+// Which built-in engine a theorem goes to, and running it. The browser runs requests in
+// prover/worker.ts; certificate reproduction (certify.ts) on Node calls runProverRequest directly.
+import { Expr } from "../descriptor";
+import { loadCnf } from "../formats/dimacs";
+import { StoredTheorem, TheoremStatement } from "../store/recordSchema";
+import { ProgressListener } from "./progress";
+import { usesSatSolver } from "./record";
+import { SearchOptions, SearchResult, searchCounterexample } from "./search";
+import { Cnf } from "./sat/cnf";
+import { ValidityOptions, checkCnfUnsat, checkPropositionalValidity } from "./sat/validity";
+
+export type ProverRequest =
+  | { engine: "enumeration"; ast: Expr; options?: Omit<SearchOptions, "onProgress"> }
+  | { engine: "cdcl"; ast: Expr; options?: Omit<ValidityOptions, "onProgress"> }
+  | { engine: "cdcl"; cnf: Cnf; options?: Omit<ValidityOptions, "onProgress"> };
+
+// Imported CNF and propositional logic go to the CDCL solver; everything else to bounded search
+export async function proverRequest(theorem: Pick<StoredTheorem, "category"> & TheoremStatement): Promise<ProverRequest> {
+  const ast = theorem.descriptor?.ast;
+  if (ast) return usesSatSolver(theorem.category, ast) ? { engine: "cdcl", ast } : { engine: "enumeration", ast };
+  if (theorem.cnf) return { engine: "cdcl", cnf: await loadCnf(theorem.cnf) };
+  throw new Error("Theorem has no formal statement to search");
+}
+
+export function runProverRequest(request: ProverRequest, onProgress?: ProgressListener): SearchResult {
+  const options = { ...request.options, onProgress };
+  return "cnf" in request
+    ? checkCnfUnsat(request.cnf, options)
+    : request.engine === "cdcl"
+      ? checkPropositionalValidity(request.ast, options)
+      : searchCounterexample(request.ast, options);
+}
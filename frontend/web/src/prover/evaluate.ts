@@ -0,0 +1,258 @@
+// prover/evaluate.ts
+// Evaluator for descriptor ASTs over bounded quantifier domains.
+//
+// Integer arithmetic is exact (bigint). Division and modulo are Euclidean as in SMT-LIB
+// (the remainder is never negative), x / 0 = 0, x mod 0 = x, and negative exponents give 0.
+// Quantifiers over ℕ/ℤ only see [0..bound] / [-bound..bound], so boolean results carry an
+// `exact` flag: false whenever a truncated domain could have changed the answer.
+import { Binder, Expr, Sort, isArithOp } from "../descriptor";
+
+export type Value = bigint | boolean;
+
+export interface Truth {
+  value: boolean;
+  exact: boolean;
+}
+
+export type Assignment = Record<string, number | boolean>;
+
+export class EvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EvaluationError";
+  }
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public readonly steps: number) {
+    super(`Search budget exhausted after ${steps} evaluations`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const MAX_EXPONENT = 4096n;
+
+export interface Domain {
+  values: Value[];
+  // True when values is the whole sort rather than a bounded window of it
+  complete: boolean;
+}
+
+// Every value of a domain costs one step of the budget, so at most maxSteps + 1 values are
+// materialised: a larger [lo..hi] or bound is cut there, and enumerating it still runs out
+// of budget instead of allocating the whole range first
+export function domainOf(sort: Sort, bound: number, maxSteps: number): Domain {
+  const range = (lo: number, hi: number, complete: boolean): Domain => {
+    const last = Math.min(hi, lo + maxSteps);
+    const values: Value[] = [];
+    for (let v = lo; v <= last; v++) values.push(BigInt(v));
+    return { values, complete: complete && last === hi };
+  };
+  switch (sort.kind) {
+    case "bool": return { values: [false, true], complete: true };
+    case "range": return range(sort.lo, sort.hi, true);
+    case "nat": return range(0, bound, false);
+    case "int": return range(-bound, bound, false);
+  }
+}
+
+export function euclideanDiv(a: bigint, b: bigint): bigint {
+  if (b === 0n) return 0n;
+  const r = euclideanMod(a, b);
+  return (a - r) / b;
+}
+
+export function euclideanMod(a: bigint, b: bigint): bigint {
+  if (b === 0n) return a;
+  const r = a % b;
+  return r < 0n ? r + (b < 0n ? -b : b) : r;
+}
+
+export function power(base: bigint, exponent: bigint): bigint {
+  if (exponent < 0n) return 0n;
+  if (exponent > MAX_EXPONENT) throw new EvaluationError(`Exponent ${exponent} exceeds ${MAX_EXPONENT}`);
+  return base ** exponent;
+}
+
+export interface EvaluatorOptions {
+  bound: number;
+  // Hard cap on quantifier instantiations across the whole evaluation
+  maxSteps: number;
+}
+
+export class Evaluator {
+  steps = 0;
+
+  constructor(private readonly options: EvaluatorOptions) {}
+
+  tick() {
+    if (++this.steps > this.options.maxSteps) throw new BudgetExceededError(this.options.maxSteps);
+  }
+
+  domain(binder: Binder): Domain {
+    return domainOf(binder.sort, this.options.bound, this.options.maxSteps);
+  }
+
+  int(expr: Expr, env: Map<string, Value>): bigint {
+    const v = this.value(expr, env);
+    if (typeof v !== "bigint") throw new EvaluationError("Expected an integer expression");
+    return v;
+  }
+
+  truth(expr: Expr, env: Map<string, Value>): Truth {
+    switch (expr.kind) {
+      case "bool":
+        return { value: expr.value, exact: true };
+      case "var": {
+        const v = env.get(expr.name);
+        if (typeof v !== "boolean") throw new EvaluationError(`'${expr.name}' is not a boolean variable in scope`);
+        return { value: v, exact: true };
+      }
+      case "unary": {
+        const inner = this.truth(expr.operand, env);
+        return { value: !inner.value, exact: inner.exact };
+      }
+      case "quant":
+        return this.quantifier(expr, env);
+      case "binary":
+        switch (expr.op) {
+          case "and": return and(this.truth(expr.left, env), () => this.truth(expr.right, env));
+          case "or": return or(this.truth(expr.left, env), () => this.truth(expr.right, env));
+          case "implies": {
+            const left = this.truth(expr.left, env);
+            return or({ value: !left.value, exact: left.exact }, () => this.truth(expr.right, env));
+          }
+          case "iff": {
+            const left = this.truth(expr.left, env);
+            const right = this.truth(expr.right, env);
+            return { value: left.value === right.value, exact: left.exact && right.exact };
+          }
+          case "eq":
+          case "ne": {
+            const left = this.operand(expr.left, env);
+            const right = this.operand(expr.right, env);
+            return { value: (left.value === right.value) === (expr.op === "eq"), exact: left.exact && right.exact };
+          }
+          case "lt": return { value: this.int(expr.left, env) < this.int(expr.right, env), exact: true };
+          case "le": return { value: this.int(expr.left, env) <= this.int(expr.right, env), exact: true };
+          case "gt": return { value: this.int(expr.left, env) > this.int(expr.right, env), exact: true };
+          case "ge": return { value: this.int(expr.left, env) >= this.int(expr.right, env), exact: true };
+          default:
+            throw new EvaluationError("Expected a boolean expression");
+        }
+      case "int":
+        throw new EvaluationError("Expected a boolean expression");
+    }
+  }
+
+  // An operand of = / ≠; boolean operands keep their exactness, as in iff
+  private operand(expr: Expr, env: Map<string, Value>): { value: Value; exact: boolean } {
+    return isBooleanExpr(expr, env) ? this.truth(expr, env) : { value: this.value(expr, env), exact: true };
+  }
+
+  value(expr: Expr, env: Map<string, Value>): Value {
+    switch (expr.kind) {
+      case "int":
+        return BigInt(expr.value);
+      case "var": {
+        const v = env.get(expr.name);
+        if (v === undefined) throw new EvaluationError(`Unbound variable '${expr.name}'`);
+        return v;
+      }
+      case "unary":
+        return expr.op === "neg" ? -this.int(expr.operand, env) : this.truth(expr, env).value;
+      case "binary":
+        switch (expr.op) {
+          case "add": return this.int(expr.left, env) + this.int(expr.right, env);
+          case "sub": return this.int(expr.left, env) - this.int(expr.right, env);
+          case "mul": return this.int(expr.left, env) * this.int(expr.right, env);
+          case "div": return euclideanDiv(this.int(expr.left, env), this.int(expr.right, env));
+          case "mod": return euclideanMod(this.int(expr.left, env), this.int(expr.right, env));
+          case "pow": return power(this.int(expr.left, env), this.int(expr.right, env));
+          default: return this.truth(expr, env).value;
+        }
+      default:
+        return this.truth(expr, env).value;
+    }
+  }
+
+  private quantifier(expr: Extract<Expr, { kind: "quant" }>, env: Map<string, Value>): Truth {
+    const isForall = expr.quantifier === "forall";
+    const domains = expr.binders.map(b => this.domain(b));
+    const complete = domains.every(d => d.complete);
+    let allExact = true;
+    let flipped = false;
+    let decided: Truth | null = null;
+
+    forEachAssignment(expr.binders, domains, env, inner => {
+      this.tick();
+      const t = this.truth(expr.body, inner);
+      if (t.value !== isForall) {
+        // ∀ is decided by an exact false instance, ∃ by an exact true one
+        if (t.exact) {
+          decided = { value: !isForall, exact: true };
+          return false;
+        }
+        flipped = true;
+      }
+      if (!t.exact) allExact = false;
+      return true;
+    });
+
+    return decided ?? { value: flipped ? !isForall : isForall, exact: complete && allExact };
+  }
+}
+
+function isBooleanExpr(expr: Expr, env: Map<string, Value>): boolean {
+  switch (expr.kind) {
+    case "bool":
+    case "quant":
+      return true;
+    case "int":
+      return false;
+    case "var":
+      return typeof env.get(expr.name) === "boolean";
+    case "unary":
+      return expr.op === "not";
+    case "binary":
+      return !isArithOp(expr.op);
+  }
+}
+
+const and = (left: Truth, right: () => Truth): Truth => {
+  if (!left.value && left.exact) return left;
+  const r = right();
+  if (!r.value && r.exact) return r;
+  return { value: left.value && r.value, exact: left.exact && r.exact };
+};
+
+const or = (left: Truth, right: () => Truth): Truth => {
+  if (left.value && left.exact) return left;
+  const r = right();
+  if (r.value && r.exact) return r;
+  return { value: left.value || r.value, exact: left.exact && r.exact };
+};
+
+// Odometer-style enumeration; visit returns false to stop early
+export function forEachAssignment(
+  binders: Binder[],
+  domains: Domain[],
+  base: Map<string, Value>,
+  visit: (env: Map<string, Value>) => boolean
+): void {
+  if (domains.some(d => d.values.length === 0)) return;
+  const indices = binders.map(() => 0);
+  const env = new Map(base);
+  for (;;) {
+    binders.forEach((b, i) => env.set(b.name, domains[i].values[indices[i]]));
+    if (!visit(env)) return;
+    let i = binders.length - 1;
+    while (i >= 0 && ++indices[i] === domains[i].values.length) {
+      indices[i] = 0;
+      i--;
+    }
+    if (i < 0) return;
+  }
+}
+
+export const toAssignmentValue = (v: Value): number | boolean => (typeof v === "boolean" ? v : Number(v));
@@ -0,0 +1,41 @@
+// prover/progress.ts
+// Structured progress the proving engines report while they run. Events are cheap and
+// frequent: the browser streams them from the prover worker to the UI and never stores them.
+// Only milestones (started/finished, see ProofMilestone in store/recordSchema.ts) are
+// written to the record, so a proof costs the same gas however long the search takes.
+
+export type ProofPhase = "encoding" | "solving" | "enumerating";
+
+export interface ProgressEvent {
+  phase: ProofPhase;
+  // CDCL decision level, or the number of enumerated binders
+  depth: number;
+  // CDCL
+  conflicts?: number;
+  clausesLearned?: number;
+  decisions?: number;
+  restarts?: number;
+  // Enumeration: assignments checked out of `total`, and quantifier instantiations so far
+  checked?: number;
+  total?: number;
+  nodesExpanded?: number;
+}
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+const count = (n: number) => n.toLocaleString("en-US");
+
+export function describeProgress(event: ProgressEvent): string {
+  switch (event.phase) {
+    case "encoding":
+      return "Encoding ¬φ as CNF";
+    case "solving":
+      return `CDCL: ${count(event.conflicts ?? 0)} conflicts, ${count(event.clausesLearned ?? 0)} clauses learned, depth ${event.depth}`;
+    case "enumerating":
+      return `Enumerating: ${count(event.checked ?? 0)}${event.total !== undefined ? ` of ${count(event.total)}` : ""} assignments, ${count(event.nodesExpanded ?? 0)} nodes expanded`;
+  }
+}
+
+// Fraction done when the engine knows its total work (enumeration only)
+export const progressFraction = (event: ProgressEvent): number | null =>
+  event.total ? Math.min(1, (event.checked ?? 0) / event.total) : null;
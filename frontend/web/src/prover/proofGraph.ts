@@ -0,0 +1,251 @@
+// prover/proofGraph.ts
+// The structure of a proof certificate as a DAG for the proof visualizer. Each node is a
+// clause, lemma or step together with the inference rule that produced it and its premises,
+// and where possible the span of the theorem source it came from. Unlike checker.ts this
+// is not part of the trusted base; it only recovers which premises each inference used.
+import { Expr, Span, printTheorem, sortToString } from "../descriptor";
+import { CertifiedTheorem } from "./checker";
+import { ProofCertificate } from "./certificate";
+import { RewriteStep, applyRule, childrenOf } from "./rewrite";
+import { universalPrefix } from "./search";
+import { Clause, Cnf, Literal } from "./sat/cnf";
+import { negatedCnf } from "./sat/tseitin";
+
+export interface ProofNode {
+  id: number;
+  // What the node establishes: a clause, a rewrite or a claim about the theorem
+  label: string;
+  rule: string;
+  premises: number[];
+  span?: Span;
+  // Premises left out of the graph because of MAX_GRAPH_NODES
+  hiddenPremises?: number;
+}
+
+export interface ProofGraph {
+  nodes: ProofNode[];
+  // The conclusion; every other node is one of its transitive premises
+  root: number;
+  // Nodes of the full proof left out
+  truncated: number;
+}
+
+// Larger proofs are cut off breadth-first from the conclusion
+export const MAX_GRAPH_NODES = 400;
+
+export function proofGraph(theorem: CertifiedTheorem, certificate: ProofCertificate): ProofGraph {
+  switch (certificate.kind) {
+    case "resolution":
+      return resolutionGraph(theorem, certificate.lemmas);
+    case "rewriting":
+      if (!("ast" in theorem)) throw new Error("A rewriting certificate needs a descriptor theorem");
+      return rewritingGraph(theorem.ast, certificate.steps);
+    case "enumeration":
+      if (!("ast" in theorem)) throw new Error("An enumeration certificate needs a descriptor theorem");
+      return enumerationGraph(theorem.ast, certificate.assignments);
+  }
+}
+
+// Transitive premises of a node, itself included
+export function dependencies(graph: ProofGraph, id: number): Set<number> {
+  const byId = new Map(graph.nodes.map(n => [n.id, n]));
+  const seen = new Set<number>();
+  const stack = [id];
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    stack.push(...(byId.get(next)?.premises ?? []));
+  }
+  return seen;
+}
+
+// Keep what is reachable from the root, breadth-first and at most MAX_GRAPH_NODES nodes
+function prune(nodes: ProofNode[], root: number): ProofGraph {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const kept = new Set<number>([root]);
+  const queue = [root];
+  const reachable = new Set<number>([root]);
+  for (let head = 0; head < queue.length; head++) {
+    for (const premise of byId.get(queue[head])!.premises) {
+      if (reachable.has(premise)) continue;
+      reachable.add(premise);
+      queue.push(premise);
+      if (kept.size < MAX_GRAPH_NODES) kept.add(premise);
+    }
+  }
+  const result = nodes
+    .filter(n => kept.has(n.id))
+    .map(n => {
+      const premises = n.premises.filter(p => kept.has(p));
+      return premises.length === n.premises.length ? n : { ...n, premises, hiddenPremises: n.premises.length - premises.length };
+    });
+  return { nodes: result, root, truncated: reachable.size - kept.size };
+}
+
+function formatClause(clause: Clause, names: Record<number, string> = {}): string {
+  if (clause.length === 0) return "⊥";
+  return clause.map(lit => `${lit < 0 ? "¬" : ""}${names[Math.abs(lit)] ?? `x${Math.abs(lit)}`}`).join(" ∨ ");
+}
+
+// Input clauses are nodes 0..n-1 and lemma i is node n + i. Each lemma's premises are the
+// clauses its unit propagation actually used: the conflict clause and, transitively, the
+// reason clause of every literal that conflict depends on.
+function resolutionGraph(theorem: CertifiedTheorem, lemmas: Clause[]): ProofGraph {
+  let cnf: Cnf;
+  let origins: (Span | null)[] = [];
+  if ("cnf" in theorem) {
+    cnf = theorem.cnf;
+  } else {
+    ({ cnf, origins } = negatedCnf(theorem.ast));
+  }
+  const clauses: Clause[] = [...cnf.clauses];
+  const nodes: ProofNode[] = cnf.clauses.map((clause, id) => ({
+    id,
+    label: formatClause(clause, cnf.names),
+    rule: "input",
+    premises: [],
+    span: origins[id] ?? undefined
+  }));
+
+  const occurrences = new Map<Literal, number[]>();
+  const add = (clause: Clause, index: number) => {
+    for (const lit of clause) {
+      const list = occurrences.get(lit) ?? [];
+      list.push(index);
+      occurrences.set(lit, list);
+    }
+  };
+  clauses.forEach(add);
+
+  for (const lemma of lemmas) {
+    const id = clauses.length;
+    nodes.push({ id, label: formatClause(lemma, cnf.names), rule: "rup", premises: rupPremises(clauses, occurrences, cnf.numVars, lemma) });
+    clauses.push(lemma);
+    add(lemma, id);
+  }
+  return prune(nodes, lemmas.length > 0 ? nodes.length - 1 : 0);
+}
+
+function rupPremises(clauses: Clause[], occurrences: Map<Literal, number[]>, numVars: number, lemma: Clause): number[] {
+  const values = new Int8Array(numVars + 1);
+  // Clause that forced each variable; -1 for the negated lemma literals
+  const reasons = new Int32Array(numVars + 1).fill(-1);
+  const valueOf = (lit: Literal) => (lit > 0 ? values[lit] : -values[-lit]);
+  const queue: Literal[] = [];
+  let conflict = -1;
+  const assign = (lit: Literal, reason: number): boolean => {
+    const current = valueOf(lit);
+    if (current === -1) {
+      conflict = reason;
+      return false;
+    }
+    if (current === 0) {
+      values[Math.abs(lit)] = lit > 0 ? 1 : -1;
+      reasons[Math.abs(lit)] = reason;
+      queue.push(lit);
+    }
+    return true;
+  };
+
+  let done = lemma.some(lit => !assign(-lit, -1));
+  for (let i = 0; !done && i < clauses.length; i++) {
+    if (clauses[i].length === 0) {
+      conflict = i;
+      done = true;
+    } else if (clauses[i].length === 1) {
+      done = !assign(clauses[i][0], i);
+    }
+  }
+  while (!done && queue.length > 0) {
+    for (const index of occurrences.get(-queue.pop()!) ?? []) {
+      let unassigned: Literal | null = null;
+      let open = 0;
+      if (clauses[index].some(lit => valueOf(lit) === 1)) continue;
+      for (const lit of clauses[index]) {
+        if (valueOf(lit) === 0) {
+          unassigned = lit;
+          open++;
+        }
+      }
+      if (open === 0) {
+        conflict = index;
+        done = true;
+      } else if (open === 1) {
+        done = !assign(unassigned!, index);
+      }
+      if (done) break;
+    }
+  }
+  if (conflict < 0) return [];
+
+  const used = new Set<number>();
+  const stack = [conflict];
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    if (used.has(index)) continue;
+    used.add(index);
+    for (const lit of clauses[index]) {
+      const reason = reasons[Math.abs(lit)];
+      if (reason >= 0 && reason !== index) stack.push(reason);
+    }
+  }
+  return [...used].sort((a, b) => a - b);
+}
+
+function subtermAt(expr: Expr, path: number[]): Expr {
+  return path.reduce((node, index) => childrenOf(node)[index], expr);
+}
+
+// Step i is node i + 1 and node 0 is the theorem. A step's premises are the earlier steps
+// whose results are still part of the subterm it rewrites.
+function rewritingGraph(ast: Expr, steps: RewriteStep[]): ProofGraph {
+  const nodes: ProofNode[] = [{ id: 0, label: printTheorem(ast), rule: "theorem", premises: [], span: ast.span }];
+  const producedBy = new Map<Expr, number>();
+  let expr = ast;
+  for (const step of steps) {
+    const before = subtermAt(expr, step.path);
+    const next = applyRule(expr, step);
+    if (!next) throw new Error(`Rule '${step.rule}' does not apply at [${step.path.join(", ")}]`);
+    const premises = new Set<number>();
+    const collect = (node: Expr) => {
+      const producer = producedBy.get(node);
+      if (producer !== undefined) premises.add(producer);
+      else childrenOf(node).forEach(collect);
+    };
+    collect(before);
+    const id = nodes.length;
+    const after = subtermAt(next, step.path);
+    nodes.push({
+      id,
+      label: `${printTheorem(before)} ⟶ ${printTheorem(after)}`,
+      rule: step.rule,
+      premises: premises.size > 0 ? [...premises].sort((a, b) => a - b) : [0],
+      span: before.span
+    });
+    producedBy.set(after, id);
+    expr = next;
+  }
+  return prune(nodes, nodes.length - 1);
+}
+
+function enumerationGraph(ast: Expr, assignments: number): ProofGraph {
+  const { binders, body } = universalPrefix(ast);
+  const nodes: ProofNode[] = binders.map((binder, id) => ({
+    id,
+    label: `${binder.name} ∈ ${sortToString(binder.sort)}`,
+    rule: "domain",
+    premises: [],
+    span: binder.span
+  }));
+  const bodyId = nodes.length;
+  nodes.push({
+    id: bodyId,
+    label: printTheorem(body),
+    rule: `evaluated ${assignments}×`,
+    premises: nodes.map(n => n.id),
+    span: body.span
+  });
+  nodes.push({ id: bodyId + 1, label: printTheorem(ast), rule: "enumeration", premises: [bodyId], span: ast.span });
+  return prune(nodes, bodyId + 1);
+}
@@ -0,0 +1,56 @@
+// prover/record.ts
+// How a proof attempt lands in a theorem record. Shared by the browser flow in App.tsx
+// and the Node-side provers so both write records the same way.
+import { ethers } from "ethers";
+import { Expr } from "../descriptor";
+import { EncryptedWitness } from "../ciphertexts";
+import { ProofMilestone } from "../store/recordSchema";
+import { encodeCertificate, hashCertificate } from "./certificate";
+import { SearchResult } from "./search";
+import { isPropositional } from "./sat/tseitin";
+
+// uint32 id passed to TheoremProverFHE, derived from the draft id chosen before submitting
+export const proverTheoremId = (theoremId: string): number => Number(BigInt(ethers.id(theoremId)) & 0xffffffffn);
+
+// Adapter record id of an on-chain submission, scoped by prover so a redeployed contract starts fresh
+export const submissionKey = (proverAddress: string, submissionId: bigint | number): string =>
+  `sub-${proverAddress.slice(2, 10).toLowerCase()}-${submissionId}`;
+
+// Inverse of submissionKey; null for ids that are not submissions to this prover
+export function submissionIdOfKey(proverAddress: string, key: string): number | null {
+  const prefix = `sub-${proverAddress.slice(2, 10).toLowerCase()}-`;
+  return key.startsWith(prefix) && /^\d+$/.test(key.slice(prefix.length)) ? Number(key.slice(prefix.length)) : null;
+}
+
+// Propositional Logic theorems go to the CDCL solver; everything else to bounded search
+export const usesSatSolver = (category: string, ast: Expr) => category === "Logic" && isPropositional(ast);
+
+// Bytes of the result's certificate, which the record commits to by hash only
+export const proofCertificateBytes = (result: SearchResult): Uint8Array | null =>
+  result.status === "proved" && result.certificate ? encodeCertificate(result.certificate) : null;
+
+// Records are public, so the proof itself (certificate, DRAT trace and the variable names
+// behind it) is left out and only the certificate's hash goes in; whoever holds the
+// statement reproduces it (prover/certify.ts). A counterexample only goes in encrypted
+// for the owner (prover/witness.ts)
+export function proofResultFields(result: SearchResult, encryptedWitness?: EncryptedWitness) {
+  const certificate = proofCertificateBytes(result);
+  return {
+    proofStatus: result.status,
+    proofSteps: result.checked,
+    searchResult:
+      result.status === "proved"
+        ? { ...result, certificate: undefined, drat: undefined, variables: undefined }
+        : result.status === "disproved"
+          ? { ...result, counterexample: null }
+          : result,
+    certificateHash: certificate ? hashCertificate(certificate) : undefined,
+    encryptedWitness
+  };
+}
+
+export const proofMilestone = (name: ProofMilestone["name"], engine?: string): ProofMilestone => ({
+  name,
+  at: Math.floor(Date.now() / 1000),
+  ...(engine ? { engine } : {})
+});
@@ -0,0 +1,234 @@
+// prover/rewrite.ts
+// Equational rewriting of descriptor ASTs towards ⊤. Each rule is a sound equivalence
+// under the language's semantics (Euclidean division, x / 0 = 0, x mod 0 = x), read over
+// the whole of ℕ/ℤ rather than a search window, so a chain ending in ⊤ proves the theorem
+// outright. The rules are part of the trusted base: the certificate checker replays a chain
+// with applyRule and nothing else from this file.
+import { Binder, Expr, Span, isArithOp, isCompareOp } from "../descriptor";
+import { euclideanDiv, euclideanMod, power } from "./evaluate";
+
+export const REWRITE_RULES = ["arith", "compare", "logic", "refl", "excluded-middle", "identity", "quant"] as const;
+
+export type RewriteRule = (typeof REWRITE_RULES)[number];
+
+export interface RewriteStep {
+  rule: RewriteRule;
+  // Child indices from the root to the rewritten subterm (see childrenOf)
+  path: number[];
+}
+
+export const DEFAULT_MAX_REWRITES = 10_000;
+
+type Binary = Extract<Expr, { kind: "binary" }>;
+
+// Children in a fixed order: unary → [operand], binary → [left, right], quant → [body]
+export function childrenOf(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case "unary": return [expr.operand];
+    case "binary": return [expr.left, expr.right];
+    case "quant": return [expr.body];
+    default: return [];
+  }
+}
+
+function withChild(expr: Expr, index: number, child: Expr): Expr {
+  switch (expr.kind) {
+    case "unary": return { ...expr, operand: child };
+    case "binary": return index === 0 ? { ...expr, left: child } : { ...expr, right: child };
+    case "quant": return { ...expr, body: child };
+    default: throw new RangeError(`${expr.kind} has no child ${index}`);
+  }
+}
+
+// Structural equality, ignoring spans
+export function sameExpr(a: Expr, b: Expr): boolean {
+  switch (a.kind) {
+    case "int":
+    case "bool":
+      return b.kind === a.kind && b.value === a.value;
+    case "var":
+      return b.kind === "var" && b.name === a.name;
+    case "unary":
+      return b.kind === "unary" && b.op === a.op && sameExpr(a.operand, b.operand);
+    case "binary":
+      return b.kind === "binary" && b.op === a.op && sameExpr(a.left, b.left) && sameExpr(a.right, b.right);
+    case "quant":
+      return (
+        b.kind === "quant" &&
+        b.quantifier === a.quantifier &&
+        b.binders.length === a.binders.length &&
+        b.binders.every((binder, i) => binder.name === a.binders[i].name && JSON.stringify(binder.sort) === JSON.stringify(a.binders[i].sort)) &&
+        sameExpr(a.body, b.body)
+      );
+  }
+}
+
+const bool = (value: boolean, span: Span): Expr => ({ kind: "bool", value, span });
+const not = (operand: Expr, span: Span): Expr => ({ kind: "unary", op: "not", operand, span });
+const isBool = (expr: Expr, value: boolean) => expr.kind === "bool" && expr.value === value;
+const isInt = (expr: Expr, value: number) => expr.kind === "int" && expr.value === value;
+
+function int(value: bigint, span: Span): Expr | null {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? { kind: "int", value: Number(value), span }
+    : null;
+}
+
+const nonEmpty = (binders: Binder[]) => binders.every(b => b.sort.kind !== "range" || b.sort.lo <= b.sort.hi);
+
+const RULES: Record<RewriteRule, (expr: Expr) => Expr | null> = {
+  // Ground arithmetic on literals
+  arith: expr => {
+    if (expr.kind === "unary" && expr.op === "neg" && expr.operand.kind === "int") return int(-BigInt(expr.operand.value), expr.span);
+    if (expr.kind !== "binary" || !isArithOp(expr.op) || expr.left.kind !== "int" || expr.right.kind !== "int") return null;
+    const a = BigInt(expr.left.value);
+    const b = BigInt(expr.right.value);
+    switch (expr.op) {
+      case "add": return int(a + b, expr.span);
+      case "sub": return int(a - b, expr.span);
+      case "mul": return int(a * b, expr.span);
+      case "div": return int(euclideanDiv(a, b), expr.span);
+      case "mod": return int(euclideanMod(a, b), expr.span);
+      case "pow": return b > 64n ? null : int(power(a, b), expr.span);
+    }
+  },
+
+  // Comparisons of two literals
+  compare: expr => {
+    if (expr.kind !== "binary" || !isCompareOp(expr.op)) return null;
+    const { left, right } = expr;
+    if (left.kind === "bool" && right.kind === "bool" && (expr.op === "eq" || expr.op === "ne")) {
+      return bool((left.value === right.value) === (expr.op === "eq"), expr.span);
+    }
+    if (left.kind !== "int" || right.kind !== "int") return null;
+    const a = left.value;
+    const b = right.value;
+    const results = { eq: a === b, ne: a !== b, lt: a < b, le: a <= b, gt: a > b, ge: a >= b };
+    return bool(results[expr.op], expr.span);
+  },
+
+  // Connectives with a literal operand, and ¬¬p
+  logic: expr => {
+    if (expr.kind === "unary" && expr.op === "not") {
+      if (expr.operand.kind === "bool") return bool(!expr.operand.value, expr.span);
+      if (expr.operand.kind === "unary" && expr.operand.op === "not") return expr.operand.operand;
+      return null;
+    }
+    if (expr.kind !== "binary") return null;
+    const { left, right, span } = expr;
+    switch (expr.op) {
+      case "and":
+        if (isBool(left, false) || isBool(right, false)) return bool(false, span);
+        if (isBool(left, true)) return right;
+        if (isBool(right, true)) return left;
+        return null;
+      case "or":
+        if (isBool(left, true) || isBool(right, true)) return bool(true, span);
+        if (isBool(left, false)) return right;
+        if (isBool(right, false)) return left;
+        return null;
+      case "implies":
+        if (isBool(left, false) || isBool(right, true)) return bool(true, span);
+        if (isBool(left, true)) return right;
+        if (isBool(right, false)) return not(left, span);
+        return null;
+      case "iff":
+        if (isBool(left, true)) return right;
+        if (isBool(right, true)) return left;
+        if (isBool(left, false)) return not(right, span);
+        if (isBool(right, false)) return not(left, span);
+        return null;
+      default:
+        return null;
+    }
+  },
+
+  // t ∘ t for identical sides; every function of the language is total, so t = t always holds
+  refl: expr => {
+    if (expr.kind !== "binary" || !sameExpr(expr.left, expr.right)) return null;
+    switch (expr.op) {
+      case "eq": case "le": case "ge": case "iff": case "implies": return bool(true, expr.span);
+      case "ne": case "lt": case "gt": return bool(false, expr.span);
+      default: return null;
+    }
+  },
+
+  // p ∨ ¬p
+  "excluded-middle": expr => {
+    if (expr.kind !== "binary" || expr.op !== "or") return null;
+    const negates = (a: Expr, b: Expr) => b.kind === "unary" && b.op === "not" && sameExpr(a, b.operand);
+    return negates(expr.left, expr.right) || negates(expr.right, expr.left) ? bool(true, expr.span) : null;
+  },
+
+  // Units and zeros of +, -, *, ^
+  identity: expr => {
+    if (expr.kind !== "binary") return null;
+    const { left, right, span } = expr as Binary;
+    switch (expr.op) {
+      case "add":
+        if (isInt(right, 0)) return left;
+        if (isInt(left, 0)) return right;
+        return null;
+      case "sub":
+        return isInt(right, 0) ? left : null;
+      case "mul":
+        if (isInt(right, 1)) return left;
+        if (isInt(left, 1)) return right;
+        if (isInt(left, 0) || isInt(right, 0)) return { kind: "int", value: 0, span };
+        return null;
+      case "pow":
+        if (isInt(right, 1)) return left;
+        if (isInt(right, 0)) return { kind: "int", value: 1, span };
+        return null;
+      default:
+        return null;
+    }
+  },
+
+  // Quantifiers over a literal body
+  quant: expr => {
+    if (expr.kind !== "quant" || expr.body.kind !== "bool") return null;
+    const forall = expr.quantifier === "forall";
+    // ∀x.⊤ and ∃x.⊥ hold over any domain; ∀x.⊥ and ∃x.⊤ need a value to exist
+    if (expr.body.value === forall) return bool(forall, expr.span);
+    return nonEmpty(expr.binders) ? bool(!forall, expr.span) : null;
+  }
+};
+
+// `expr` with `rule` applied at `path`; null when the rule does not match there
+export function applyRule(expr: Expr, step: RewriteStep): Expr | null {
+  if (!(REWRITE_RULES as readonly string[]).includes(step.rule)) return null;
+  const rewrite = (node: Expr, depth: number): Expr | null => {
+    if (depth === step.path.length) return RULES[step.rule](node);
+    const index = step.path[depth];
+    const child = childrenOf(node)[index];
+    if (!child) return null;
+    const rewritten = rewrite(child, depth + 1);
+    return rewritten && withChild(node, index, rewritten);
+  };
+  return rewrite(expr, 0);
+}
+
+// First match in post-order (innermost, leftmost), so literals fold bottom-up
+function findRedex(expr: Expr, path: number[] = []): RewriteStep | null {
+  const children = childrenOf(expr);
+  for (let i = 0; i < children.length; i++) {
+    const found = findRedex(children[i], [...path, i]);
+    if (found) return found;
+  }
+  const rule = REWRITE_RULES.find(r => RULES[r](expr) !== null);
+  return rule ? { rule, path } : null;
+}
+
+// A chain of steps taking `ast` to ⊤, or null when rewriting gets stuck first
+export function rewriteToTrue(ast: Expr, maxSteps = DEFAULT_MAX_REWRITES): RewriteStep[] | null {
+  const steps: RewriteStep[] = [];
+  let expr = ast;
+  while (!isBool(expr, true)) {
+    const step = steps.length < maxSteps ? findRedex(expr) : null;
+    if (!step) return null;
+    expr = applyRule(expr, step)!;
+    steps.push(step);
+  }
+  return steps;
+}
@@ -0,0 +1,434 @@
+// prover/sat/cdcl.ts
+// Conflict-driven clause learning SAT solver: two watched literals, first-UIP learning,
+// VSIDS branching with phase saving, Luby restarts and activity-based clause deletion.
+// Every learned and deleted clause is logged as a DRAT step, so an UNSAT answer ends
+// with the empty clause and the log can be replayed by a DRAT checker.
+import { ProgressListener } from "../progress";
+import { Clause, Cnf, DratStep, Literal } from "./cnf";
+
+export type SatResult =
+  | { status: "sat"; model: boolean[]; stats: SolverStats }
+  | { status: "unsat"; proof: DratStep[]; stats: SolverStats }
+  | { status: "unknown"; reason: string; stats: SolverStats };
+
+export interface SolverStats {
+  decisions: number;
+  propagations: number;
+  conflicts: number;
+  learned: number;
+  restarts: number;
+}
+
+export interface SolverOptions {
+  maxConflicts?: number;
+  // Skip recording the DRAT log (large instances where only the answer matters)
+  proof?: boolean;
+  // Called every PROGRESS_CONFLICTS conflicts
+  onProgress?: ProgressListener;
+}
+
+const LUBY_UNIT = 100;
+const VAR_DECAY = 0.95;
+const CLAUSE_DECAY = 0.999;
+const PROGRESS_CONFLICTS = 256;
+
+// Internal literal encoding: var v (1-based) → 2v (positive) / 2v+1 (negative)
+const encode = (lit: Literal) => (lit > 0 ? lit << 1 : (-lit << 1) | 1);
+const decode = (code: number): Literal => (code & 1 ? -(code >> 1) : code >> 1);
+const negate = (code: number) => code ^ 1;
+const varOf = (code: number) => code >> 1;
+
+export function luby(i: number): number {
+  // i-th element (1-based) of the Luby sequence 1 1 2 1 1 2 4 ...
+  let k = 1;
+  while ((1 << k) - 1 < i) k++;
+  while ((1 << k) - 1 !== i) {
+    i -= (1 << (k - 1)) - 1;
+    k = 1;
+    while ((1 << k) - 1 < i) k++;
+  }
+  return 1 << (k - 1);
+}
+
+interface StoredClause {
+  lits: number[];
+  learned: boolean;
+  activity: number;
+  deleted: boolean;
+}
+
+export class CdclSolver {
+  private readonly numVars: number;
+  private readonly clauses: StoredClause[] = [];
+  private readonly watches: number[][];
+  // 0 unassigned, 1 true, -1 false (indexed by variable)
+  private readonly values: Int8Array;
+  private readonly levels: Int32Array;
+  private readonly reasons: Int32Array;
+  private readonly phases: Int8Array;
+  private readonly activity: Float64Array;
+  private readonly heap: number[] = [];
+  private readonly heapIndex: Int32Array;
+  private readonly trail: number[] = [];
+  private readonly trailLimits: number[] = [];
+  private qhead = 0;
+  private varIncrement = 1;
+  private clauseIncrement = 1;
+  private learnedLimit: number;
+  private learnedLive = 0;
+  private inconsistent = false;
+  private readonly proof: DratStep[] = [];
+  private readonly logProof: boolean;
+  readonly stats: SolverStats = { decisions: 0, propagations: 0, conflicts: 0, learned: 0, restarts: 0 };
+
+  constructor(cnf: Cnf, private readonly options: SolverOptions = {}) {
+    this.numVars = cnf.numVars;
+    this.logProof = options.proof ?? true;
+    const n = cnf.numVars + 1;
+    this.watches = Array.from({ length: 2 * n }, () => []);
+    this.values = new Int8Array(n);
+    this.levels = new Int32Array(n);
+    this.reasons = new Int32Array(n).fill(-1);
+    this.phases = new Int8Array(n).fill(-1);
+    this.activity = new Float64Array(n);
+    this.heapIndex = new Int32Array(n).fill(-1);
+    for (let v = 1; v <= cnf.numVars; v++) this.heapInsert(v);
+    for (const clause of cnf.clauses) this.addInputClause(clause);
+    this.learnedLimit = Math.max(1000, Math.floor(this.clauses.length / 3));
+  }
+
+  solve(): SatResult {
+    const maxConflicts = this.options.maxConflicts ?? Infinity;
+    if (this.inconsistent || this.propagate() !== -1) return this.unsat();
+
+    let restartIndex = 1;
+    let conflictsUntilRestart = luby(restartIndex) * LUBY_UNIT;
+
+    for (;;) {
+      const conflict = this.propagate();
+      if (conflict !== -1) {
+        this.stats.conflicts++;
+        if (this.decisionLevel() === 0) return this.unsat();
+        const { learned, backjumpLevel } = this.analyze(conflict);
+        this.backtrack(backjumpLevel);
+        this.learn(learned);
+        this.varIncrement /= VAR_DECAY;
+        this.clauseIncrement /= CLAUSE_DECAY;
+
+        if (this.options.onProgress && this.stats.conflicts % PROGRESS_CONFLICTS === 0) {
+          this.options.onProgress({
+            phase: "solving",
+            depth: this.decisionLevel(),
+            conflicts: this.stats.conflicts,
+            clausesLearned: this.stats.learned,
+            decisions: this.stats.decisions,
+            restarts: this.stats.restarts
+          });
+        }
+        if (this.stats.conflicts >= maxConflicts) {
+          return { status: "unknown", reason: `Conflict budget of ${maxConflicts} exhausted`, stats: this.stats };
+        }
+        if (--conflictsUntilRestart === 0) {
+          this.stats.restarts++;
+          this.backtrack(0);
+          conflictsUntilRestart = luby(++restartIndex) * LUBY_UNIT;
+        }
+        continue;
+      }
+
+      if (this.learnedLive >= this.learnedLimit) this.reduceLearned();
+
+      const v = this.pickBranchVariable();
+      if (v === 0) {
+        const model = [false];
+        for (let i = 1; i <= this.numVars; i++) model.push(this.values[i] === 1);
+        return { status: "sat", model, stats: this.stats };
+      }
+      this.stats.decisions++;
+      this.trailLimits.push(this.trail.length);
+      this.assign(this.phases[v] === 1 ? v << 1 : (v << 1) | 1, -1);
+    }
+  }
+
+  private unsat(): SatResult {
+    if (this.logProof) this.proof.push({ kind: "add", clause: [] });
+    return { status: "unsat", proof: this.proof, stats: this.stats };
+  }
+
+  private addInputClause(clause: Clause) {
+    if (this.inconsistent) return;
+    const seen = new Set<number>();
+    const lits: number[] = [];
+    for (const lit of clause) {
+      if (lit === 0 || Math.abs(lit) > this.numVars) throw new RangeError(`Literal ${lit} out of range 1..${this.numVars}`);
+      const code = encode(lit);
+      if (seen.has(negate(code))) return; // tautology
+      if (!seen.has(code)) {
+        seen.add(code);
+        lits.push(code);
+      }
+    }
+    if (lits.length === 0) {
+      this.inconsistent = true;
+      return;
+    }
+    if (lits.length === 1) {
+      const value = this.litValue(lits[0]);
+      if (value === -1) this.inconsistent = true;
+      else if (value === 0) this.assign(lits[0], -1);
+      return;
+    }
+    this.attach({ lits, learned: false, activity: 0, deleted: false });
+  }
+
+  private attach(clause: StoredClause): number {
+    const index = this.clauses.length;
+    this.clauses.push(clause);
+    this.watches[clause.lits[0]].push(index);
+    this.watches[clause.lits[1]].push(index);
+    return index;
+  }
+
+  private litValue(code: number): number {
+    const v = this.values[varOf(code)];
+    return code & 1 ? -v : v;
+  }
+
+  private decisionLevel() {
+    return this.trailLimits.length;
+  }
+
+  private assign(code: number, reason: number) {
+    const v = varOf(code);
+    this.values[v] = code & 1 ? -1 : 1;
+    this.levels[v] = this.decisionLevel();
+    this.reasons[v] = reason;
+    this.trail.push(code);
+  }
+
+  // Returns the index of a conflicting clause, or -1
+  private propagate(): number {
+    while (this.qhead < this.trail.length) {
+      const falseLit = negate(this.trail[this.qhead++]);
+      this.stats.propagations++;
+      const watchers = this.watches[falseLit];
+      let kept = 0;
+      let conflict = -1;
+      for (let i = 0; i < watchers.length; i++) {
+        const ci = watchers[i];
+        const clause = this.clauses[ci];
+        if (clause.deleted) continue;
+        if (conflict !== -1) {
+          watchers[kept++] = ci;
+          continue;
+        }
+        const lits = clause.lits;
+        // Keep the false literal in slot 1
+        if (lits[0] === falseLit) {
+          lits[0] = lits[1];
+          lits[1] = falseLit;
+        }
+        if (this.litValue(lits[0]) === 1) {
+          watchers[kept++] = ci;
+          continue;
+        }
+        let moved = false;
+        for (let k = 2; k < lits.length; k++) {
+          if (this.litValue(lits[k]) !== -1) {
+            lits[1] = lits[k];
+            lits[k] = falseLit;
+            this.watches[lits[1]].push(ci);
+            moved = true;
+            break;
+          }
+        }
+        if (moved) continue;
+        watchers[kept++] = ci;
+        if (this.litValue(lits[0]) === -1) {
+          conflict = ci;
+          this.qhead = this.trail.length;
+        } else {
+          this.assign(lits[0], ci);
+        }
+      }
+      watchers.length = kept;
+      if (conflict !== -1) return conflict;
+    }
+    return -1;
+  }
+
+  private analyze(conflict: number): { learned: number[]; backjumpLevel: number } {
+    const seen = new Uint8Array(this.numVars + 1);
+    const learned: number[] = [0]; // slot 0 reserved for the asserting literal
+    let pathCount = 0;
+    let index = this.trail.length - 1;
+    let clauseIndex = conflict;
+    let uip = -1;
+
+    do {
+      const clause = this.clauses[clauseIndex];
+      if (clause.learned) this.bumpClause(clause);
+      for (let j = uip === -1 ? 0 : 1; j < clause.lits.length; j++) {
+        const code = clause.lits[j];
+        const v = varOf(code);
+        if (seen[v] || this.levels[v] === 0) continue;
+        seen[v] = 1;
+        this.bumpVariable(v);
+        if (this.levels[v] === this.decisionLevel()) pathCount++;
+        else learned.push(code);
+      }
+      while (!seen[varOf(this.trail[index])]) index--;
+      uip = this.trail[index];
+      clauseIndex = this.reasons[varOf(uip)];
+      seen[varOf(uip)] = 0;
+      index--;
+      pathCount--;
+      // The reason clause of uip has uip itself in slot 0, which the loop above skips
+      if (pathCount > 0) this.ensureReasonFirst(clauseIndex, uip);
+    } while (pathCount > 0);
+
+    learned[0] = negate(uip);
+
+    let backjumpLevel = 0;
+    if (learned.length > 1) {
+      // Put the literal with the highest level in slot 1 so it is watched
+      let maxIndex = 1;
+      for (let i = 2; i < learned.length; i++) {
+        if (this.levels[varOf(learned[i])] > this.levels[varOf(learned[maxIndex])]) maxIndex = i;
+      }
+      [learned[1], learned[maxIndex]] = [learned[maxIndex], learned[1]];
+      backjumpLevel = this.levels[varOf(learned[1])];
+    }
+    return { learned, backjumpLevel };
+  }
+
+  private ensureReasonFirst(clauseIndex: number, code: number) {
+    const lits = this.clauses[clauseIndex].lits;
+    if (lits[0] === code) return;
+    const i = lits.indexOf(code);
+    [lits[0], lits[i]] = [lits[i], lits[0]];
+  }
+
+  private learn(lits: number[]) {
+    this.stats.learned++;
+    if (this.logProof) this.proof.push({ kind: "add", clause: lits.map(decode) });
+    if (lits.length === 1) {
+      this.assign(lits[0], -1);
+      return;
+    }
+    const index = this.attach({ lits, learned: true, activity: 0, deleted: false });
+    this.learnedLive++;
+    this.bumpClause(this.clauses[index]);
+    this.assign(lits[0], index);
+  }
+
+  private backtrack(level: number) {
+    if (this.decisionLevel() <= level) return;
+    const limit = this.trailLimits[level];
+    for (let i = this.trail.length - 1; i >= limit; i--) {
+      const v = varOf(this.trail[i]);
+      this.phases[v] = this.values[v];
+      this.values[v] = 0;
+      this.reasons[v] = -1;
+      if (this.heapIndex[v] === -1) this.heapInsert(v);
+    }
+    this.trail.length = limit;
+    this.trailLimits.length = level;
+    this.qhead = limit;
+  }
+
+  // Drop the less active half of the learned clauses that are not currently reasons
+  private reduceLearned() {
+    const locked = new Set<number>();
+    for (const code of this.trail) {
+      const reason = this.reasons[varOf(code)];
+      if (reason >= 0) locked.add(reason);
+    }
+    const candidates = this.clauses
+      .map((c, i) => ({ c, i }))
+      .filter(({ c, i }) => c.learned && !c.deleted && c.lits.length > 2 && !locked.has(i))
+      .sort((a, b) => a.c.activity - b.c.activity);
+    for (const { c } of candidates.slice(0, Math.floor(candidates.length / 2))) {
+      c.deleted = true;
+      this.learnedLive--;
+      if (this.logProof) this.proof.push({ kind: "delete", clause: c.lits.map(decode) });
+    }
+    this.learnedLimit = Math.floor(this.learnedLimit * 1.1);
+  }
+
+  private bumpClause(clause: StoredClause) {
+    clause.activity += this.clauseIncrement;
+    if (clause.activity > 1e20) {
+      for (const c of this.clauses) c.activity *= 1e-20;
+      this.clauseIncrement *= 1e-20;
+    }
+  }
+
+  private bumpVariable(v: number) {
+    this.activity[v] += this.varIncrement;
+    if (this.activity[v] > 1e100) {
+      for (let i = 1; i <= this.numVars; i++) this.activity[i] *= 1e-100;
+      this.varIncrement *= 1e-100;
+    }
+    if (this.heapIndex[v] !== -1) this.heapUp(this.heapIndex[v]);
+  }
+
+  private pickBranchVariable(): number {
+    while (this.heap.length > 0) {
+      const v = this.heapPop();
+      if (this.values[v] === 0) return v;
+    }
+    return 0;
+  }
+
+  // Binary max-heap of variables keyed by activity
+  private heapInsert(v: number) {
+    this.heapIndex[v] = this.heap.length;
+    this.heap.push(v);
+    this.heapUp(this.heap.length - 1);
+  }
+
+  private heapPop(): number {
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    this.heapIndex[top] = -1;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.heapIndex[last] = 0;
+      this.heapDown(0);
+    }
+    return top;
+  }
+
+  private heapUp(i: number) {
+    const v = this.heap[i];
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.activity[this.heap[parent]] >= this.activity[v]) break;
+      this.heap[i] = this.heap[parent];
+      this.heapIndex[this.heap[i]] = i;
+      i = parent;
+    }
+    this.heap[i] = v;
+    this.heapIndex[v] = i;
+  }
+
+  private heapDown(i: number) {
+    const v = this.heap[i];
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= this.heap.length) break;
+      if (child + 1 < this.heap.length && this.activity[this.heap[child + 1]] > this.activity[this.heap[child]]) child++;
+      if (this.activity[this.heap[child]] <= this.activity[v]) break;
+      this.heap[i] = this.heap[child];
+      this.heapIndex[this.heap[i]] = i;
+      i = child;
+    }
+    this.heap[i] = v;
+    this.heapIndex[v] = i;
+  }
+}
+
+export function solveCnf(cnf: Cnf, options?: SolverOptions): SatResult {
+  return new CdclSolver(cnf, options).solve();
+}
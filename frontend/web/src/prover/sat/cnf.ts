@@ -0,0 +1,20 @@
+// prover/sat/cnf.ts
+// CNF in DIMACS conventions: variables are 1..numVars, a literal is ±var.
+
+export type Literal = number;
+export type Clause = Literal[];
+
+export interface Cnf {
+  numVars: number;
+  clauses: Clause[];
+  // Optional names for variables that came from the descriptor (index = variable)
+  names?: Record<number, string>;
+}
+
+export interface DratStep {
+  kind: "add" | "delete";
+  clause: Clause;
+}
+
+export const formatDratStep = (step: DratStep): string =>
+  `${step.kind === "delete" ? "d " : ""}${[...step.clause, 0].join(" ")}`;
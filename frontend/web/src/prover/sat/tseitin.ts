@@ -0,0 +1,160 @@
+// prover/sat/tseitin.ts
+// Tseitin encoding of propositional descriptor formulas. Quantifiers over Bool are
+// expanded (∀p.φ ≡ φ[p:=⊤] ∧ φ[p:=⊥]), so only Bool-sorted binders are accepted.
+import { Expr, Span } from "../../descriptor";
+import { Clause, Cnf, Literal } from "./cnf";
+
+export class NotPropositionalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotPropositionalError";
+  }
+}
+
+// Cap on the number of Tseitin gates, mostly guarding against quantifier expansion blow-up
+const MAX_GATES = 200_000;
+
+export function isPropositional(expr: Expr): boolean {
+  switch (expr.kind) {
+    case "bool":
+    case "var":
+      return true;
+    case "int":
+      return false;
+    case "unary":
+      return expr.op === "not" && isPropositional(expr.operand);
+    case "binary":
+      if (!["and", "or", "implies", "iff", "eq", "ne"].includes(expr.op)) return false;
+      return isPropositional(expr.left) && isPropositional(expr.right);
+    case "quant":
+      return expr.binders.every(b => b.sort.kind === "bool") && isPropositional(expr.body);
+  }
+}
+
+export interface TseitinResult {
+  cnf: Cnf;
+  // Literal equivalent to the whole formula
+  root: Literal;
+  // Free (outermost ∀) variables by name
+  inputs: Record<string, number>;
+  // Sub-formula each clause encodes, by clause index; null for the constant ⊤ unit
+  origins: (Span | null)[];
+}
+
+export function tseitin(formula: Expr): TseitinResult {
+  const clauses: Clause[] = [];
+  const origins: (Span | null)[] = [];
+  const names: Record<number, string> = {};
+  const inputs: Record<string, number> = {};
+  let numVars = 0;
+  let gates = 0;
+  let trueLit: Literal | null = null;
+
+  const fresh = (): number => {
+    if (++gates > MAX_GATES) throw new NotPropositionalError(`Formula expands to more than ${MAX_GATES} gates`);
+    return ++numVars;
+  };
+
+  const emit = (span: Span | null, ...gate: Clause[]) => {
+    for (const clause of gate) {
+      clauses.push(clause);
+      origins.push(span);
+    }
+  };
+
+  const constant = (value: boolean): Literal => {
+    if (trueLit === null) {
+      trueLit = fresh();
+      emit(null, [trueLit]);
+    }
+    return value ? trueLit : -trueLit;
+  };
+
+  const gateAnd = (a: Literal, b: Literal, span: Span): Literal => {
+    const g = fresh();
+    emit(span, [-g, a], [-g, b], [g, -a, -b]);
+    return g;
+  };
+
+  const gateOr = (a: Literal, b: Literal, span: Span): Literal => {
+    const g = fresh();
+    emit(span, [g, -a], [g, -b], [-g, a, b]);
+    return g;
+  };
+
+  const gateIff = (a: Literal, b: Literal, span: Span): Literal => {
+    const g = fresh();
+    emit(span, [-g, -a, b], [-g, a, -b], [g, a, b], [g, -a, -b]);
+    return g;
+  };
+
+  // env maps a descriptor variable to its literal (an input, or a constant after expansion)
+  const encode = (expr: Expr, env: Map<string, Literal>): Literal => {
+    switch (expr.kind) {
+      case "bool":
+        return constant(expr.value);
+      case "var": {
+        const lit = env.get(expr.name);
+        if (lit === undefined) throw new NotPropositionalError(`Unbound variable '${expr.name}'`);
+        return lit;
+      }
+      case "int":
+        throw new NotPropositionalError("Integer constants are not propositional");
+      case "unary":
+        if (expr.op !== "not") throw new NotPropositionalError("Arithmetic negation is not propositional");
+        return -encode(expr.operand, env);
+      case "binary": {
+        const a = encode(expr.left, env);
+        const b = encode(expr.right, env);
+        switch (expr.op) {
+          case "and": return gateAnd(a, b, expr.span);
+          case "or": return gateOr(a, b, expr.span);
+          case "implies": return gateOr(-a, b, expr.span);
+          case "iff":
+          case "eq": return gateIff(a, b, expr.span);
+          case "ne": return -gateIff(a, b, expr.span);
+          default: throw new NotPropositionalError(`Operator '${expr.op}' is not propositional`);
+        }
+      }
+      case "quant": {
+        if (expr.binders.some(b => b.sort.kind !== "bool")) {
+          throw new NotPropositionalError("Only quantifiers over Bool are propositional");
+        }
+        // Expand ∀/∃ over every assignment of the bound Bool variables
+        let acc: Literal | null = null;
+        const count = 1 << expr.binders.length;
+        for (let mask = 0; mask < count; mask++) {
+          const inner = new Map(env);
+          expr.binders.forEach((b, i) => inner.set(b.name, constant(((mask >> i) & 1) === 1)));
+          const instance = encode(expr.body, inner);
+          acc = acc === null ? instance : expr.quantifier === "forall" ? gateAnd(acc, instance, expr.span) : gateOr(acc, instance, expr.span);
+        }
+        return acc!;
+      }
+    }
+  };
+
+  // The outermost ∀ prefix becomes free input variables so a countermodel can be read back
+  let body = formula;
+  const env = new Map<string, Literal>();
+  while (body.kind === "quant" && body.quantifier === "forall" && body.binders.every(b => b.sort.kind === "bool")) {
+    for (const b of body.binders) {
+      const v = fresh();
+      env.set(b.name, v);
+      inputs[b.name] = v;
+      names[v] = b.name;
+    }
+    body = body.body;
+  }
+
+  const root = encode(body, env);
+  return { cnf: { numVars, clauses, names }, root, inputs, origins };
+}
+
+// CNF that is unsatisfiable exactly when the formula is valid
+export function negatedCnf(formula: Expr): TseitinResult {
+  const result = tseitin(formula);
+  result.cnf.clauses.push([-result.root]);
+  result.origins.push(formula.span);
+  return result;
+}
@@ -0,0 +1,74 @@
+// prover/sat/validity.ts
+import { Expr } from "../../descriptor";
+import { CERTIFICATE_VERSION } from "../certificate";
+import { Assignment } from "../evaluate";
+import { ProgressListener } from "../progress";
+import { SearchResult } from "../search";
+import { SatResult, solveCnf } from "./cdcl";
+import { Cnf } from "./cnf";
+import { NotPropositionalError, negatedCnf } from "./tseitin";
+
+export const DEFAULT_MAX_CONFLICTS = 200_000;
+// Longer traces are reported by length only (records never carry the trace)
+export const MAX_STORED_DRAT_STEPS = 500;
+// Satisfying assignments of bigger instances are not copied into the record
+export const MAX_STORED_MODEL_VARS = 200;
+
+export interface ValidityOptions {
+  maxConflicts?: number;
+  onProgress?: ProgressListener;
+}
+
+// φ is valid iff the Tseitin CNF of ¬φ is unsatisfiable
+export function checkPropositionalValidity(ast: Expr, options: ValidityOptions = {}): SearchResult {
+  options.onProgress?.({ phase: "encoding", depth: 0 });
+  let encoded;
+  try {
+    encoded = negatedCnf(ast);
+  } catch (e) {
+    if (e instanceof NotPropositionalError) return { status: "unknown", reason: e.message, checked: 0 };
+    throw e;
+  }
+
+  const result = solveCnf(encoded.cnf, {
+    maxConflicts: options.maxConflicts ?? DEFAULT_MAX_CONFLICTS,
+    onProgress: options.onProgress
+  });
+  return toSearchResult(result, encoded.cnf, encoded.inputs);
+}
+
+// A CNF theorem (e.g. imported from DIMACS) claims its clauses are unsatisfiable
+export function checkCnfUnsat(cnf: Cnf, options: ValidityOptions = {}): SearchResult {
+  const result = solveCnf(cnf, { maxConflicts: options.maxConflicts ?? DEFAULT_MAX_CONFLICTS, onProgress: options.onProgress });
+  const inputs: Record<string, number> = {};
+  if (cnf.numVars <= MAX_STORED_MODEL_VARS) {
+    for (let v = 1; v <= cnf.numVars; v++) inputs[cnf.names?.[v] ?? `x${v}`] = v;
+  }
+  return toSearchResult(result, cnf, inputs);
+}
+
+function toSearchResult(result: SatResult, cnf: Cnf, inputs: Record<string, number>): SearchResult {
+  switch (result.status) {
+    case "unsat":
+      return {
+        status: "proved",
+        method: "cdcl",
+        checked: result.stats.conflicts,
+        drat: result.proof.length <= MAX_STORED_DRAT_STEPS ? result.proof : undefined,
+        dratLength: result.proof.length,
+        variables: cnf.names,
+        certificate: {
+          version: CERTIFICATE_VERSION,
+          kind: "resolution",
+          lemmas: result.proof.filter(step => step.kind === "add").map(step => step.clause)
+        }
+      };
+    case "sat": {
+      const counterexample: Assignment = {};
+      for (const [name, v] of Object.entries(inputs)) counterexample[name] = result.model[v];
+      return { status: "disproved", counterexample: Object.keys(counterexample).length > 0 ? counterexample : null, checked: result.stats.conflicts };
+    }
+    case "unknown":
+      return { status: "unknown", reason: result.reason, checked: result.stats.conflicts };
+  }
+}
@@ -0,0 +1,148 @@
+// prover/search.ts
+// Deterministic bounded counterexample search.
+//
+// The leading ∀ binders of a theorem are enumerated and the body evaluated for each
+// assignment. A false instance is a concrete counterexample. Exhausting a finite domain
+// (Bool and [lo..hi] binders only) is a proof by enumeration; exhausting a truncated ℕ/ℤ
+// window only shows there is no counterexample up to the bound, and an ∃ with no witness
+// inside the window only that none was found.
+import { Binder, Expr } from "../descriptor";
+import { CERTIFICATE_VERSION, ProofCertificate } from "./certificate";
+import { DratStep } from "./sat/cnf";
+import {
+  Assignment,
+  BudgetExceededError,
+  EvaluationError,
+  Evaluator,
+  forEachAssignment,
+  toAssignmentValue,
+  Value
+} from "./evaluate";
+import { ProgressListener } from "./progress";
+import { rewriteToTrue } from "./rewrite";
+
+export const DEFAULT_BOUND = 20;
+export const DEFAULT_MAX_STEPS = 2_000_000;
+const PROGRESS_ASSIGNMENTS = 4096;
+
+export type SearchResult =
+  | {
+      status: "proved";
+      method: "rewriting" | "exhaustive" | "evaluation" | "cdcl" | "smt";
+      checked: number;
+      // SMT only: the external solver that answered unsat
+      solver?: string;
+      // CDCL only: DRAT trace of the refutation of ¬φ and names of the input variables
+      drat?: DratStep[];
+      dratLength?: number;
+      variables?: Record<number, string>;
+      // Checked by prover/checker.ts; stored apart from the record, which keeps its hash
+      certificate?: ProofCertificate;
+    }
+  | { status: "disproved"; counterexample: Assignment | null; checked: number }
+  // unwitnessed: some instance was false only because an ∃ found no witness within the
+  // bound, so the theorem is undecided rather than free of counterexamples
+  | { status: "bounded"; bound: number; checked: number; unwitnessed?: boolean }
+  | { status: "unknown"; reason: string; checked: number };
+
+export interface SearchOptions {
+  bound?: number;
+  maxSteps?: number;
+  // Called every PROGRESS_ASSIGNMENTS assignments
+  onProgress?: ProgressListener;
+}
+
+// Peel nested ∀ prefixes (∀x. ∀y. φ) into one binder list
+export function universalPrefix(ast: Expr): { binders: Binder[]; body: Expr } {
+  const binders: Binder[] = [];
+  let body = ast;
+  while (body.kind === "quant" && body.quantifier === "forall") {
+    binders.push(...body.binders);
+    body = body.body;
+  }
+  return { binders, body };
+}
+
+export function searchCounterexample(ast: Expr, options: SearchOptions = {}): SearchResult {
+  // A rewriting chain to ⊤ proves the theorem over all of ℕ/ℤ, not just the search window
+  const rewrites = rewriteToTrue(ast);
+  if (rewrites) {
+    return {
+      status: "proved",
+      method: "rewriting",
+      checked: rewrites.length,
+      certificate: { version: CERTIFICATE_VERSION, kind: "rewriting", steps: rewrites }
+    };
+  }
+
+  const bound = options.bound ?? DEFAULT_BOUND;
+  const evaluator = new Evaluator({ bound, maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS });
+  const { binders, body } = universalPrefix(ast);
+  const domains = binders.map(b => evaluator.domain(b));
+  const complete = domains.every(d => d.complete);
+  const total = domains.reduce((product, d) => product * d.values.length, 1);
+
+  let falsified: { assignment: Assignment } | null = null;
+  let allExact = true;
+  let unwitnessed = false;
+  let checked = 0;
+
+  try {
+    forEachAssignment(binders, domains, new Map<string, Value>(), env => {
+      evaluator.tick();
+      checked++;
+      if (options.onProgress && checked % PROGRESS_ASSIGNMENTS === 0) {
+        options.onProgress({ phase: "enumerating", depth: binders.length, checked, total, nodesExpanded: evaluator.steps });
+      }
+      const t = evaluator.truth(body, env);
+      if (!t.value && t.exact) {
+        const assignment: Assignment = {};
+        for (const b of binders) assignment[b.name] = toAssignmentValue(env.get(b.name)!);
+        falsified = { assignment };
+        return false;
+      }
+      if (!t.exact) allExact = false;
+      if (!t.value) unwitnessed = true;
+      return true;
+    });
+  } catch (e) {
+    if (e instanceof BudgetExceededError || e instanceof EvaluationError) {
+      return { status: "unknown", reason: e.message, checked };
+    }
+    throw e;
+  }
+
+  const found = falsified as { assignment: Assignment } | null;
+  if (found) return { status: "disproved", counterexample: binders.length > 0 ? found.assignment : null, checked };
+  if (complete && allExact) {
+    return {
+      status: "proved",
+      method: binders.length > 0 ? "exhaustive" : "evaluation",
+      checked,
+      certificate: { version: CERTIFICATE_VERSION, kind: "enumeration", binders: binders.map(b => b.name), assignments: checked }
+    };
+  }
+  return unwitnessed ? { status: "bounded", bound, checked, unwitnessed } : { status: "bounded", bound, checked };
+}
+
+export function describeSearchResult(result: SearchResult): string {
+  switch (result.status) {
+    case "proved":
+      if (result.method === "cdcl") return `Valid: ¬φ refuted by CDCL after ${result.checked} conflicts (${result.dratLength ?? 0} DRAT steps)`;
+      if (result.method === "smt") return `Valid: ¬φ is unsat according to ${result.solver ?? "an SMT solver"}`;
+      if (result.method === "rewriting") return `Proved by rewriting to ⊤ in ${result.checked} steps`;
+      return result.method === "exhaustive"
+        ? `Proved by exhaustive enumeration of ${result.checked} assignments`
+        : "Proved by direct evaluation";
+    case "disproved":
+      return result.counterexample
+        ? `Counterexample: ${Object.entries(result.counterexample).map(([k, v]) => `${k} = ${v}`).join(", ")}`
+        : "Disproved";
+    case "bounded":
+      return result.unwitnessed
+        ? `No witness found up to bound ${result.bound} (${result.checked} assignments checked)`
+        : `No counterexample up to bound ${result.bound} (${result.checked} assignments checked)`;
+    case "unknown":
+      return `Inconclusive: ${result.reason}`;
+  }
+}
@@ -0,0 +1,208 @@
+// prover/witness.ts
+// Typed counterexample witnesses. A disproof keeps the falsifying assignment as one
+// { name, sort, value } binding per variable, encrypted for the theorem owner through
+// TheoremProverFHE.storeWitness; the record only keeps the handles (EncryptedWitness).
+// explainWitness plugs a decrypted witness back into the AST and evaluates it node by
+// node, so the owner sees which sub-expression makes the claim false.
+import { ethers } from "ethers";
+import { Expr, Sort, Span, isArithOp, printTheorem, sortToString } from "../descriptor";
+import { EncryptedWitness } from "../ciphertexts";
+import { BudgetExceededError, EvaluationError, Evaluator, Value } from "./evaluate";
+import { DEFAULT_BOUND, DEFAULT_MAX_STEPS, SearchResult, universalPrefix } from "./search";
+
+export interface WitnessBinding {
+  name: string;
+  sort: Sort;
+  value: number | boolean;
+}
+
+export interface CounterexampleWitness {
+  bindings: WitnessBinding[];
+}
+
+export class WitnessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WitnessError";
+  }
+}
+
+// Bool sorts go to the ebool lane, everything else to euint64 values
+const isFlag = (sort: Sort) => sort.kind === "bool";
+
+function checkBinding({ name, sort, value }: WitnessBinding) {
+  const fits =
+    sort.kind === "bool"
+      ? typeof value === "boolean"
+      : typeof value === "number" &&
+        Number.isSafeInteger(value) &&
+        (sort.kind !== "nat" || value >= 0) &&
+        (sort.kind !== "range" || (value >= sort.lo && value <= sort.hi));
+  if (!fits) throw new WitnessError(`${name} = ${value} is not a value of ${sortToString(sort)}`);
+}
+
+// The typed witness of a disproof; null when the engine reported no assignment. Variables
+// outside the theorem's ∀ prefix (propositional atoms, DIMACS variables) are Bool.
+export function witnessOf(result: SearchResult, ast: Expr | null): CounterexampleWitness | null {
+  if (result.status !== "disproved" || !result.counterexample) return null;
+  const binders = ast ? universalPrefix(ast).binders : [];
+  const bindings = Object.entries(result.counterexample).map(([name, value]) => {
+    const binding: WitnessBinding = {
+      name,
+      sort: binders.find(b => b.name === name)?.sort ?? (typeof value === "boolean" ? { kind: "bool" } : { kind: "int" }),
+      value
+    };
+    checkBinding(binding);
+    return binding;
+  });
+  return { bindings };
+}
+
+// Integers as 64-bit two's complement, booleans as flags, each lane in binding order
+export function witnessLanes(witness: CounterexampleWitness): { values: bigint[]; flags: boolean[] } {
+  const values: bigint[] = [];
+  const flags: boolean[] = [];
+  for (const binding of witness.bindings) {
+    if (isFlag(binding.sort)) flags.push(binding.value as boolean);
+    else values.push(BigInt.asUintN(64, BigInt(binding.value)));
+  }
+  return { values, flags };
+}
+
+// Inverse of witnessLanes over the binding shapes kept in EncryptedWitness
+export function witnessFromLanes(bindings: EncryptedWitness["bindings"], values: bigint[], flags: boolean[]): CounterexampleWitness {
+  const valueCount = bindings.filter(b => !isFlag(b.sort)).length;
+  if (valueCount !== values.length || bindings.length - valueCount !== flags.length) {
+    throw new WitnessError(`Witness has ${values.length} values and ${flags.length} flags for ${bindings.length} bindings`);
+  }
+  let v = 0;
+  let f = 0;
+  const witness = {
+    bindings: bindings.map(({ name, sort }) => ({
+      name,
+      sort,
+      value: isFlag(sort) ? flags[f++] : Number(BigInt.asIntN(64, values[v++]))
+    }))
+  };
+  witness.bindings.forEach(checkBinding);
+  return witness;
+}
+
+// The parts of a relayer-sdk (or hardhat fhevm) encrypted input the witness uses
+export interface WitnessInput {
+  add64(value: bigint): unknown;
+  addBool(value: boolean): unknown;
+  encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+}
+
+export interface WitnessVault {
+  // TheoremProverFHE connected to `sender`, the account the input proof is bound to
+  prover: ethers.BaseContract;
+  sender: string;
+  createInput(contractAddress: string, userAddress: string): WitnessInput;
+}
+
+// Encrypt the witness and have TheoremProverFHE grant `owner` alone the right to decrypt it
+export async function storeWitness(vault: WitnessVault, witness: CounterexampleWitness, owner: string): Promise<EncryptedWitness> {
+  const { values, flags } = witnessLanes(witness);
+  const proverAddress = await vault.prover.getAddress();
+  const input = vault.createInput(proverAddress, vault.sender);
+  for (const value of values) input.add64(value);
+  for (const flag of flags) input.addBool(flag);
+  const { handles, inputProof } = await input.encrypt();
+  const hex = handles.map(h => ethers.hexlify(h));
+  const valueHandles = hex.slice(0, values.length);
+  const flagHandles = hex.slice(values.length);
+
+  const tx: ethers.ContractTransactionResponse = await vault.prover.getFunction("storeWitness")(
+    owner,
+    valueHandles,
+    flagHandles,
+    ethers.hexlify(inputProof)
+  );
+  await tx.wait();
+  return {
+    contractAddress: proverAddress,
+    owner,
+    bindings: witness.bindings.map(({ name, sort }) => ({ name, sort })),
+    valueHandles,
+    flagHandles,
+    witnessTx: tx.hash
+  };
+}
+
+// Integer terms and variables; everything else is a formula with an exactness flag
+const isTerm = (expr: Expr) =>
+  expr.kind === "int" || expr.kind === "var" || (expr.kind === "unary" && expr.op === "neg") || (expr.kind === "binary" && isArithOp(expr.op));
+
+export interface ExplanationNode {
+  // Printed sub-expression and its value under the witness
+  text: string;
+  value: string;
+  // False when a nested quantifier was only decided over the search window
+  exact: boolean;
+  span: Span;
+  // Why the node has its value, where that is not just its children's values
+  note?: string;
+  children: ExplanationNode[];
+}
+
+export interface WitnessExplanation {
+  tree: ExplanationNode;
+  // The instance evaluates exactly to false, i.e. the witness really refutes the theorem
+  refutes: boolean;
+}
+
+// Evaluate `ast` under the witness: the leading ∀ binders take the witness values and every
+// sub-expression of the instance gets its own node. Nested quantifiers are leaves.
+export function explainWitness(ast: Expr, witness: CounterexampleWitness, bound = DEFAULT_BOUND): WitnessExplanation {
+  const evaluator = new Evaluator({ bound, maxSteps: DEFAULT_MAX_STEPS });
+  const env = new Map<string, Value>(witness.bindings.map(b => [b.name, typeof b.value === "boolean" ? b.value : BigInt(b.value)]));
+  const { binders, body } = universalPrefix(ast);
+  const unbound = binders.find(b => !env.has(b.name));
+  if (unbound) throw new WitnessError(`Witness has no value for '${unbound.name}'`);
+
+  const explain = (expr: Expr): ExplanationNode => {
+    const node: ExplanationNode = { text: printTheorem(expr), value: "", exact: true, span: expr.span, children: [] };
+    try {
+      if (isTerm(expr)) {
+        node.value = String(evaluator.value(expr, env));
+      } else {
+        const truth = evaluator.truth(expr, env);
+        node.value = String(truth.value);
+        node.exact = truth.exact;
+      }
+    } catch (e) {
+      if (!(e instanceof EvaluationError || e instanceof BudgetExceededError)) throw e;
+      node.value = "?";
+      node.exact = false;
+      node.note = e.message;
+      return node;
+    }
+    if (expr.kind === "var") {
+      node.note = "from the witness";
+    } else if (expr.kind === "quant") {
+      node.note = node.exact ? "decided over a finite domain" : `checked up to bound ${bound} only`;
+    } else {
+      // Literals are their own value and get no node
+      const operands = expr.kind === "unary" ? [expr.operand] : expr.kind === "binary" ? [expr.left, expr.right] : [];
+      node.children = operands.filter(e => e.kind !== "int" && e.kind !== "bool").map(explain);
+    }
+    return node;
+  };
+
+  const instance = explain(body);
+  const refutes = instance.value === "false" && instance.exact;
+  if (binders.length === 0) return { tree: instance, refutes };
+  return {
+    tree: {
+      text: printTheorem(ast),
+      value: instance.value === "false" ? "false" : "?",
+      exact: instance.exact,
+      span: ast.span,
+      note: `instance ${binders.map(b => `${b.name} = ${env.get(b.name)}`).join(", ")}`,
+      children: [instance]
+    },
+    refutes
+  };
+}
@@ -0,0 +1,17 @@
+// prover/worker.ts
+// Web Worker entry point: runs a proving engine off the main thread and streams its
+// progress events back before the result.
+import { ProverRequest, runProverRequest } from "./engines";
+import { ProgressEvent } from "./progress";
+import { SearchResult } from "./search";
+
+export type ProverWorkerMessage =
+  | { type: "progress"; event: ProgressEvent }
+  | { type: "result"; result: SearchResult };
+
+const post = (message: ProverWorkerMessage) => (self as unknown as Worker).postMessage(message);
+
+self.onmessage = (event: MessageEvent<ProverRequest>) => {
+  const result = runProverRequest(event.data, progress => post({ type: "progress", event: progress }));
+  post({ type: "result", result });
+};
@@ -0,0 +1,70 @@
+// store/db.ts
+// IndexedDB database behind the theorem cache, the offline draft queue and the statements
+// kept off-chain
+export const DB_NAME = "theorem-prover-fhe";
+const DB_VERSION = 2;
+
+export type StoreName = "theorems" | "sync" | "drafts" | "statements";
+
+let opened: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!opened) {
+    opened = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") throw new Error("IndexedDB is not available");
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          // Keyed by adapter as well, so switching deployments never mixes entries
+          db.createObjectStore("theorems", { keyPath: ["adapter", "id"] }).createIndex("adapter", "adapter");
+          db.createObjectStore("sync", { keyPath: "adapter" });
+          db.createObjectStore("drafts", { keyPath: "id" });
+        }
+        // Content-addressed, so the same statement is found from any deployment's record
+        if (event.oldVersion < 2) db.createObjectStore("statements", { keyPath: "hash" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again (e.g. after the user allows storage)
+    opened.catch(() => { opened = null; });
+  }
+  return opened;
+}
+
+const result = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDb();
+  return result<T | undefined>(db.transaction(store).objectStore(store).get(key));
+}
+
+// Everything in `store`, or only the values whose `index` equals `key`
+export async function getAll<T>(store: StoreName, index?: { name: string; key: IDBValidKey }): Promise<T[]> {
+  const db = await openDb();
+  const objects = db.transaction(store).objectStore(store);
+  return result<T[]>(index ? objects.index(index.name).getAll(index.key) : objects.getAll());
+}
+
+// Writes all values in one transaction
+export async function put(store: StoreName, values: unknown[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, "readwrite");
+  const objects = tx.objectStore(store);
+  for (const value of values) objects.put(value);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function remove(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  await result(db.transaction(store, "readwrite").objectStore(store).delete(key));
+}
@@ -0,0 +1,58 @@
+// store/drafts.ts
+// Theorems written while offline. Encryption needs the relayer, so drafts are kept in
+// plaintext in this browser's IndexedDB until they are submitted, then deleted.
+import { StatementSyntax } from "../descriptor";
+import { Cnf } from "../prover/sat/cnf";
+import * as db from "./db";
+
+export interface TheoremDraft {
+  name: string;
+  category: string;
+  description: string;
+  statement: string;
+  // Drafts saved before LaTeX input have TDL statements
+  syntax?: StatementSyntax;
+  cnf: Cnf | null;
+  // Mixed into the record's statementHash (store/recordSchema.ts)
+  salt?: string;
+}
+
+export interface QueuedDraft {
+  id: string;
+  draft: TheoremDraft;
+  createdAt: number;
+  // "failed" drafts stay queued until the user retries or discards them
+  status: "queued" | "submitting" | "failed";
+  error?: string;
+}
+
+export async function queueDraft(draft: TheoremDraft): Promise<QueuedDraft> {
+  const queued: QueuedDraft = {
+    id: `draft-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    draft,
+    createdAt: Math.floor(Date.now() / 1000),
+    status: "queued"
+  };
+  await db.put("drafts", [queued]);
+  return queued;
+}
+
+// Oldest first, the order they are submitted in
+export async function listDrafts(): Promise<QueuedDraft[]> {
+  const drafts = await db.getAll<QueuedDraft>("drafts");
+  return drafts.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export const updateDraft = (draft: QueuedDraft) => db.put("drafts", [draft]);
+
+export const removeDraft = (id: string) => db.remove("drafts", id);
+
+// A draft left "submitting" by a closed tab may or may not have reached the chain
+export async function markInterruptedDrafts(): Promise<void> {
+  const interrupted = (await db.getAll<QueuedDraft>("drafts")).filter(draft => draft.status === "submitting");
+  await db.put("drafts", interrupted.map(draft => ({
+    ...draft,
+    status: "failed",
+    error: "Submission was interrupted; check the repository before retrying"
+  })));
+}
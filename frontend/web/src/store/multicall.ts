@@ -0,0 +1,77 @@
+// store/multicall.ts
+// Batched eth_call through Multicall3, which is deployed at the same address on Sepolia and
+// most public chains. Where it is missing (e.g. a fresh Hardhat node) the calls are sent
+// individually in parallel, so callers never need to care.
+import { ethers } from "ethers";
+
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)"
+];
+
+// Calls per eth_call; keeps the request well under typical RPC gas and size limits
+const MAX_BATCH = 100;
+
+export interface Call {
+  target: string;
+  callData: string;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+const available = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+function hasMulticall(provider: ethers.Provider): Promise<boolean> {
+  let known = available.get(provider);
+  if (!known) {
+    known = provider.getCode(MULTICALL3_ADDRESS).then(code => code !== "0x", () => false);
+    available.set(provider, known);
+  }
+  return known;
+}
+
+export async function multicall(provider: ethers.Provider, calls: Call[]): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+  if (!(await hasMulticall(provider))) {
+    return Promise.all(calls.map(call =>
+      provider.call({ to: call.target, data: call.callData }).then(
+        returnData => ({ success: true, returnData }),
+        () => ({ success: false, returnData: "0x" })
+      )
+    ));
+  }
+
+  const multicall3 = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: CallResult[] = [];
+  for (let i = 0; i < calls.length; i += MAX_BATCH) {
+    const batch = calls.slice(i, i + MAX_BATCH).map(call => ({ ...call, allowFailure: true }));
+    const returned: ethers.Result = await multicall3.aggregate3(batch);
+    results.push(...returned.map(([success, returnData]: [boolean, string]) => ({ success, returnData })));
+  }
+  return results;
+}
+
+// Call one view function of `contract` once per argument list and decode the results;
+// failed calls come back as undefined
+export async function multicallFunction<T = ethers.Result>(
+  contract: ethers.Contract,
+  fn: string,
+  argLists: unknown[][]
+): Promise<(T | undefined)[]> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  const target = await contract.getAddress();
+  const results = await multicall(
+    provider,
+    argLists.map(args => ({ target, callData: contract.interface.encodeFunctionData(fn, args) }))
+  );
+  return results.map(({ success, returnData }) => {
+    if (!success) return undefined;
+    const decoded = contract.interface.decodeFunctionResult(fn, returnData);
+    return (decoded.length === 1 ? decoded[0] : decoded) as T;
+  });
+}
@@ -0,0 +1,251 @@
+// store/recordSchema.ts
+// Versioned schema of the theorem record JSON stored under `theorem_<id>`. Records are
+// upgraded through MIGRATIONS when they are read and validated before use; one that does not
+// validate is quarantined together with the reasons instead of being dropped.
+//
+// Records are public, so they never hold a theorem's formal statement: only its salted
+// statementHash. The statement stays in the owner's browser (store/statements.ts), can be
+// recovered from the owner's encryptedTheorem, and is handed to a prover as a file.
+import { ethers } from "ethers";
+import { TheoremDescriptor } from "../descriptor";
+import { EncryptedProgram, EncryptedTheorem, EncryptedWitness } from "../ciphertexts";
+import { StoredCnf } from "../formats/dimacs";
+import { SearchResult } from "../prover/search";
+
+export const SCHEMA_VERSION = 3;
+
+export const PROOF_STATUSES = ["pending", "proving", "proved", "disproved", "bounded", "unknown", "error"] as const;
+
+// "bounded": no counterexample up to searchResult.bound, which is not a proof
+export type ProofStatus = (typeof PROOF_STATUSES)[number];
+
+// The only progress a proof writes on-chain; live progress stays in the browser (prover/progress.ts)
+export const MILESTONE_NAMES = ["started", "finished"] as const;
+
+export interface ProofMilestone {
+  name: (typeof MILESTONE_NAMES)[number];
+  // Unix time the milestone was written
+  at: number;
+  // "enumeration", "cdcl" or an SMT solver; unknown until the engine is chosen
+  engine?: string;
+}
+
+// A theorem's formal statement: a descriptor theorem or an imported DIMACS instance, which
+// the theorem claims is unsatisfiable
+export interface TheoremStatement {
+  // Random hex mixed into statementHash so a short statement cannot be found by hashing
+  // guesses; absent from statements that version 2 records published in the clear
+  salt?: string;
+  descriptor?: TheoremDescriptor;
+  cnf?: StoredCnf;
+}
+
+export interface StoredTheorem {
+  schemaVersion: typeof SCHEMA_VERSION;
+  theoremName: string;
+  category: string;
+  // Public like the name; only the statement is encrypted
+  description?: string;
+  owner: string;
+  timestamp: number;
+  proofStatus: ProofStatus;
+  // Early records hold a base64 string; later ones relayer-sdk ciphertexts
+  encryptedTheorem: EncryptedTheorem | string;
+  proofSteps?: number;
+  // Milestones of the latest proof attempt, oldest first
+  milestones?: ProofMilestone[];
+  // statementHash() of the theorem's statement, which is kept off-chain
+  statementHash?: string;
+  // Statement a version 2 client wrote into the record in the clear
+  publishedStatement?: TheoremStatement;
+  encryptedProgram?: EncryptedProgram;
+  submissionTx?: string;
+  searchResult?: SearchResult;
+  // keccak256 of the proof certificate (prover/certificate.ts) backing a "proved" status
+  certificateHash?: string;
+  // Counterexample of a "disproved" status; searchResult never holds it in the clear
+  encryptedWitness?: EncryptedWitness;
+  // Set by the prover worker
+  proofRequestId?: string;
+  encryptedTheoremHash?: string;
+  // Status the pre-release random simulator reported, kept when the record was migrated
+  legacyProofStatus?: string;
+}
+
+export interface QuarantinedRecord {
+  errors: string[];
+  // The stored value as far as it could be decoded: JSON, text or hex bytes
+  raw: unknown;
+}
+
+export type ParsedRecord =
+  | { ok: true; record: StoredTheorem; fromVersion: number }
+  | ({ ok: false } & QuarantinedRecord);
+
+type Json = Record<string, any>;
+
+// MIGRATIONS[n] turns a version n record into version n + 1; unversioned records are version 0
+const MIGRATIONS: Record<number, (record: Json) => Json> = {
+  0: record => {
+    const upgraded: Json = { ...record, schemaVersion: 1, proofStatus: record.proofStatus || "pending" };
+    if (typeof record.timestamp === "string" && /^\d+$/.test(record.timestamp)) upgraded.timestamp = Number(record.timestamp);
+    // Before the bounded search existed, "proved"/"disproved" came from a random simulator
+    if ((record.proofStatus === "proved" || record.proofStatus === "disproved") && !record.searchResult) {
+      upgraded.proofStatus = "unknown";
+      upgraded.legacyProofStatus = record.proofStatus;
+    }
+    return upgraded;
+  },
+  // currentStep counted a fixed 1..10 loop; it gives way to milestones
+  1: ({ currentStep, ...record }) => ({ ...record, schemaVersion: 2 }),
+  // The statement moves off-chain; what older records already published stays readable
+  2: ({ descriptor, cnf, ...record }) => ({
+    ...record,
+    schemaVersion: 3,
+    ...(descriptor || cnf ? { publishedStatement: { descriptor, cnf } } : {})
+  })
+};
+
+const isObject = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value);
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === "string");
+const isDescriptor = (v: any) =>
+  isObject(v) && typeof v.source === "string" && isObject(v.ast) && typeof v.ast.kind === "string" && (v.syntax === undefined || v.syntax === "latex");
+const isStoredCnf = (v: any) =>
+  isObject(v) && (v.encoding === "dimacs" || v.encoding === "dimacs+gzip") && isCount(v.numVars) && isCount(v.numClauses) && typeof v.data === "string";
+
+// Every reason a value is not a statement; empty when it is one
+export function validateStatement(value: unknown): string[] {
+  if (!isObject(value)) return ["statement is not a JSON object"];
+  const errors: string[] = [];
+  if (value.salt !== undefined && !ethers.isHexString(value.salt)) errors.push("salt: expected hex");
+  if (value.descriptor !== undefined && !isDescriptor(value.descriptor)) errors.push("descriptor: expected { source, ast, syntax? }");
+  if (value.cnf !== undefined && !isStoredCnf(value.cnf)) errors.push("cnf: expected a stored CNF");
+  if (value.descriptor === undefined && value.cnf === undefined) errors.push("statement has neither a descriptor nor a CNF");
+  return errors;
+}
+
+// Over the salt and the statement's text; the AST is derived from the source
+export const statementHash = (statement: TheoremStatement): string =>
+  ethers.keccak256(
+    ethers.toUtf8Bytes(
+      JSON.stringify([
+        statement.salt ?? "",
+        statement.descriptor?.syntax ?? "tdl",
+        statement.descriptor?.source ?? null,
+        statement.cnf?.data ?? null
+      ])
+    )
+  );
+
+// The statement of `record`: the one it published, or `candidate` (from the owner's browser
+// or a shared file) when it hashes to the record's statementHash; null otherwise
+export function recordStatement(
+  record: Pick<StoredTheorem, "statementHash" | "publishedStatement">,
+  candidate?: TheoremStatement | null
+): TheoremStatement | null {
+  if (record.publishedStatement) return record.publishedStatement;
+  return candidate && record.statementHash && statementHash(candidate) === record.statementHash ? candidate : null;
+}
+
+// Every reason a value is not a current-version record; empty when it is one
+export function validateRecord(value: unknown): string[] {
+  if (!isObject(value)) return ["record is not a JSON object"];
+  const errors: string[] = [];
+  const expect = (field: string, ok: boolean, what: string) => {
+    if (!ok) errors.push(`${field}: expected ${what}, got ${JSON.stringify(value[field]) ?? "nothing"}`);
+  };
+  const optional = (field: string, ok: (v: any) => boolean, what: string) => {
+    if (value[field] !== undefined) expect(field, ok(value[field]), what);
+  };
+
+  expect("schemaVersion", value.schemaVersion === SCHEMA_VERSION, `${SCHEMA_VERSION}`);
+  expect("theoremName", typeof value.theoremName === "string", "a string");
+  expect("category", typeof value.category === "string", "a string");
+  optional("description", v => typeof v === "string", "a string");
+  expect("owner", typeof value.owner === "string", "an address");
+  expect("timestamp", isCount(value.timestamp), "a Unix time");
+  expect("proofStatus", PROOF_STATUSES.includes(value.proofStatus), PROOF_STATUSES.join(" | "));
+  expect(
+    "encryptedTheorem",
+    typeof value.encryptedTheorem === "string" || (isObject(value.encryptedTheorem) && Array.isArray(value.encryptedTheorem.chunks)),
+    "ciphertext chunks or a legacy string"
+  );
+  optional("proofSteps", isCount, "a step count");
+  optional(
+    "milestones",
+    v => Array.isArray(v) && v.every(m => isObject(m) && MILESTONE_NAMES.includes(m.name) && isCount(m.at)),
+    "a list of { name, at } milestones"
+  );
+  optional("statementHash", v => ethers.isHexString(v, 32), "a keccak256 hash");
+  optional("publishedStatement", v => validateStatement(v).length === 0, "{ descriptor?, cnf? }");
+  optional(
+    "encryptedProgram",
+    v => isObject(v) && isStringArray(v.wordHandles) && isStringArray(v.boolHandles) && typeof v.inputProof === "string",
+    "{ wordHandles, boolHandles, inputProof }"
+  );
+  optional("submissionTx", v => ethers.isHexString(v, 32), "a transaction hash");
+  optional(
+    "searchResult",
+    v => isObject(v) && ["proved", "disproved", "bounded", "unknown"].includes(v.status) && isCount(v.checked),
+    "a search result"
+  );
+  optional("certificateHash", v => ethers.isHexString(v, 32), "a keccak256 hash");
+  optional(
+    "encryptedWitness",
+    v =>
+      isObject(v) &&
+      ethers.isAddress(v.owner) &&
+      Array.isArray(v.bindings) &&
+      v.bindings.every((b: unknown) => isObject(b) && typeof b.name === "string" && isObject(b.sort) && typeof b.sort.kind === "string") &&
+      isStringArray(v.valueHandles) &&
+      isStringArray(v.flagHandles) &&
+      v.valueHandles.length + v.flagHandles.length === v.bindings.length,
+    "{ owner, bindings, valueHandles, flagHandles }"
+  );
+  optional("proofRequestId", v => typeof v === "string", "a request id");
+  optional("encryptedTheoremHash", v => typeof v === "string", "a hash");
+  return errors;
+}
+
+export function upgradeRecord(value: unknown): ParsedRecord {
+  if (!isObject(value)) return { ok: false, errors: ["record is not a JSON object"], raw: value };
+  const fromVersion = value.schemaVersion ?? 0;
+  if (!isCount(fromVersion)) return { ok: false, errors: [`schemaVersion: ${JSON.stringify(fromVersion)} is not a version`], raw: value };
+  if (fromVersion > SCHEMA_VERSION) {
+    return { ok: false, errors: [`schemaVersion ${fromVersion} is newer than this client supports (${SCHEMA_VERSION})`], raw: value };
+  }
+
+  let record = value;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) record = MIGRATIONS[version](record);
+  const errors = validateRecord(record);
+  return errors.length > 0 ? { ok: false, errors, raw: value } : { ok: true, record: record as StoredTheorem, fromVersion };
+}
+
+// Bytes from getData or a DataStored log; null for an empty key
+export function parseRecord(bytes: string): ParsedRecord | null {
+  if (ethers.dataLength(bytes) === 0) return null;
+  let text: string;
+  try {
+    text = ethers.toUtf8String(bytes);
+  } catch {
+    return { ok: false, errors: ["record is not UTF-8 text"], raw: bytes };
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e: any) {
+    return { ok: false, errors: [`record is not JSON: ${e.message}`], raw: text };
+  }
+  return upgradeRecord(value);
+}
+
+// The data/quarantine pair a listed entry carries
+export function recordFields(bytes: string | undefined): { data: StoredTheorem | null; quarantine?: QuarantinedRecord } {
+  const parsed = bytes ? parseRecord(bytes) : null;
+  if (!parsed) return { data: null };
+  return parsed.ok ? { data: parsed.record } : { data: null, quarantine: { errors: parsed.errors, raw: parsed.raw } };
+}
+
+export const encodeRecord = (record: StoredTheorem | Omit<StoredTheorem, "schemaVersion">) =>
+  ethers.toUtf8Bytes(JSON.stringify({ ...record, schemaVersion: SCHEMA_VERSION }));
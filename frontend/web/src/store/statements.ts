@@ -0,0 +1,38 @@
+// store/statements.ts
+// Formal statements of the theorems submitted from this browser. Their records only carry
+// the salted statementHash (store/recordSchema.ts), so the statements are kept here, keyed
+// by that hash. Another browser of the owner recovers one by decrypting the record's
+// encryptedTheorem; provers get it as the file Export Statement downloads.
+import { ethers } from "ethers";
+import { StoredTheorem, TheoremStatement, recordStatement, statementHash } from "./recordSchema";
+import * as db from "./db";
+
+interface StoredStatement {
+  hash: string;
+  statement: TheoremStatement;
+}
+
+export const newSalt = () => ethers.hexlify(ethers.randomBytes(16));
+
+export async function saveStatement(statement: TheoremStatement): Promise<string> {
+  const hash = statementHash(statement);
+  await db.put("statements", [{ hash, statement }]);
+  return hash;
+}
+
+// The statements this browser holds for `hashes`, by hash
+export async function loadStatements(hashes: string[]): Promise<Record<string, TheoremStatement>> {
+  const found: Record<string, TheoremStatement> = {};
+  for (const hash of new Set(hashes)) {
+    const stored = await db.get<StoredStatement>("statements", hash);
+    if (stored) found[hash] = stored.statement;
+  }
+  return found;
+}
+
+// The statement of a record, published by it or held by this browser
+export async function localStatement(record: Pick<StoredTheorem, "statementHash" | "publishedStatement">): Promise<TheoremStatement | null> {
+  if (record.publishedStatement || !record.statementHash) return recordStatement(record);
+  const { [record.statementHash]: statement } = await loadStatements([record.statementHash]);
+  return recordStatement(record, statement);
+}
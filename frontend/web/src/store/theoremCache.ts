@@ -0,0 +1,157 @@
+// store/theoremCache.ts
+// IndexedDB copy of the theorem list, so a reload renders at once and the repository can be
+// browsed offline. Each entry records the block of its latest update. A sync replays only
+// the DataStored logs after the cached block (their values are the records themselves) and
+// reads only new or unfinished submissions. The first sync and "Load more" fill the cache
+// with network pages from theoremStore.ts.
+import { ethers } from "ethers";
+import { submissionIdOfKey, submissionKey } from "../prover/record";
+import { toSubmission } from "../submissions";
+import * as db from "./db";
+import { multicallFunction } from "./multicall";
+import { SCHEMA_VERSION, recordFields, upgradeRecord } from "./recordSchema";
+import { providerOf } from "./theoremIndex";
+import { LOG_BLOCK_RANGE, recordKeyId } from "./theoremLog";
+import { StoredTheoremEntry, TheoremCursor, loadTheoremPage } from "./theoremStore";
+
+// Largest page TheoremProverFHE.getSubmissions serves (MAX_PAGE_SIZE)
+const SUBMISSION_PAGE_SIZE = 100;
+
+export interface CachedTheorem extends StoredTheoremEntry {
+  adapter: string;
+  // Block of the latest update applied to this entry
+  blockNumber: number;
+}
+
+interface SyncState {
+  adapter: string;
+  // Every DataStored log up to this block has been applied
+  syncedBlock: number;
+  // Submissions with a higher id are new since the last sync
+  submissionCount: number;
+  // Where "Load more" continues below the cached pages; null once nothing is left
+  cursor: TheoremCursor | null;
+}
+
+export interface CachedTheorems {
+  entries: CachedTheorem[];
+  cursor: TheoremCursor | null;
+  syncedBlock: number;
+}
+
+const adapterKey = async (adapter: ethers.Contract) => (await adapter.getAddress()).toLowerCase();
+
+// Entries cached by an older client are upgraded to the current schema as they are read
+const upgradeCached = (entry: CachedTheorem): CachedTheorem => {
+  if (!entry.data || entry.data.schemaVersion === SCHEMA_VERSION) return entry;
+  const parsed = upgradeRecord(entry.data);
+  return parsed.ok
+    ? { ...entry, data: parsed.record }
+    : { ...entry, data: null, quarantine: { errors: parsed.errors, raw: parsed.raw } };
+};
+
+const cachedEntries = async (adapter: string) =>
+  (await db.getAll<CachedTheorem>("theorems", { name: "adapter", key: adapter })).map(upgradeCached);
+
+// What the cache holds for an adapter, without touching the network
+export async function readTheoremCache(adapterAddress: string): Promise<CachedTheorems | null> {
+  const adapter = adapterAddress.toLowerCase();
+  const state = await db.get<SyncState>("sync", adapter);
+  if (!state) return null;
+  return { entries: await cachedEntries(adapter), cursor: state.cursor, syncedBlock: state.syncedBlock };
+}
+
+// Entries are written before the sync state, so an interrupted save only means the same
+// blocks are replayed next time
+async function save(state: SyncState, changed: CachedTheorem[]): Promise<CachedTheorems> {
+  await db.put("theorems", changed);
+  await db.put("sync", [state]);
+  return { entries: await cachedEntries(state.adapter), cursor: state.cursor, syncedBlock: state.syncedBlock };
+}
+
+export async function syncTheoremCache(
+  adapter: ethers.Contract,
+  prover: ethers.Contract | null,
+  options: { fromBlock?: number } = {}
+): Promise<CachedTheorems> {
+  const key = await adapterKey(adapter);
+  const state = await db.get<SyncState>("sync", key);
+  const head = await providerOf(adapter).getBlockNumber();
+  if (!state) {
+    // Nothing cached yet: take the newest page from the network and follow the log from here
+    const page = await loadTheoremPage(adapter, prover, null, options);
+    return save(
+      { adapter: key, syncedBlock: head, submissionCount: page.start.submissions, cursor: page.cursor },
+      page.entries.map(entry => ({ ...entry, adapter: key, blockNumber: head }))
+    );
+  }
+
+  const proverAddress = prover ? await prover.getAddress() : null;
+  const cached = new Map((await cachedEntries(key)).map(entry => [entry.id, entry]));
+  const changed = new Map<string, CachedTheorem>();
+  const entry = (id: string): CachedTheorem =>
+    changed.get(id) ?? cached.get(id) ?? { adapter: key, id, data: null, blockNumber: 0 };
+
+  for (let start = state.syncedBlock + 1; start <= head; start += LOG_BLOCK_RANGE) {
+    const end = Math.min(start + LOG_BLOCK_RANGE - 1, head);
+    for (const log of await adapter.queryFilter(adapter.filters.DataStored(), start, end)) {
+      if (!("args" in log)) continue;
+      const id = recordKeyId(log.args.key);
+      if (id === null) continue;
+      // Records of another prover deployment's submissions are not listed
+      if (id.startsWith("sub-") && (!proverAddress || submissionIdOfKey(proverAddress, id) === null)) continue;
+      changed.set(id, { ...entry(id), quarantine: undefined, ...recordFields(log.args.value), blockNumber: log.blockNumber });
+    }
+  }
+
+  let submissionCount = state.submissionCount;
+  if (prover && proverAddress) {
+    const total = Number(await prover.submissionCount());
+    for (let offset = state.submissionCount; offset < total; offset += SUBMISSION_PAGE_SIZE) {
+      const page: ethers.Result[] = await prover.getSubmissions(offset, Math.min(SUBMISSION_PAGE_SIZE, total - offset));
+      for (const submission of page.map(toSubmission)) {
+        const id = submissionKey(proverAddress, submission.submissionId);
+        changed.set(id, { ...entry(id), submission, blockNumber: head });
+      }
+    }
+
+    // Earlier submissions whose search was still running, or whose record arrived first
+    const stale = [...new Set([...cached.keys(), ...changed.keys()])]
+      .map(entry)
+      .filter(e => {
+        const submissionId = submissionIdOfKey(proverAddress, e.id);
+        return submissionId !== null && submissionId <= state.submissionCount && e.submission?.status !== "completed";
+      });
+    const refreshed = await multicallFunction<ethers.Result>(
+      prover,
+      "getSubmission",
+      stale.map(e => [submissionIdOfKey(proverAddress, e.id)])
+    );
+    stale.forEach((e, i) => {
+      const result = refreshed[i];
+      if (result) changed.set(e.id, { ...e, submission: toSubmission(result), blockNumber: head });
+    });
+    submissionCount = total;
+  }
+
+  return save({ ...state, syncedBlock: head, submissionCount }, [...changed.values()]);
+}
+
+// The next network page below the cached ones
+export async function extendTheoremCache(
+  adapter: ethers.Contract,
+  prover: ethers.Contract | null,
+  options: { fromBlock?: number } = {}
+): Promise<CachedTheorems> {
+  const key = await adapterKey(adapter);
+  const state = await db.get<SyncState>("sync", key);
+  if (!state) return syncTheoremCache(adapter, prover, options);
+  if (!state.cursor) return { entries: await cachedEntries(key), cursor: null, syncedBlock: state.syncedBlock };
+
+  const head = await providerOf(adapter).getBlockNumber();
+  const page = await loadTheoremPage(adapter, prover, state.cursor, options);
+  return save(
+    { ...state, cursor: page.cursor },
+    page.entries.map(entry => ({ ...entry, adapter: key, blockNumber: head }))
+  );
+}
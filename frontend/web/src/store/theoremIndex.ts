@@ -0,0 +1,169 @@
+// store/theoremIndex.ts
+// Index of off-chain theorem ids, oldest first. It is the DataStored log (theoremLog.ts)
+// plus a paged checkpoint of that log, so a reader only scans the blocks since the
+// checkpoint. `theorem_index` holds the IndexMeta; `theorem_index_<n>` holds the ids at
+// positions [n * pageSize, (n + 1) * pageSize). Submitting never writes the index; only
+// reconcileIndex does. Where no checkpoint exists, the old `theorem_keys` array stands in.
+import { ethers } from "ethers";
+import { multicallFunction } from "./multicall";
+import { scanTheoremLogs } from "./theoremLog";
+
+export const INDEX_KEY = "theorem_index";
+export const LEGACY_KEYS_KEY = "theorem_keys";
+export const INDEX_PAGE_SIZE = 100;
+
+export interface IndexMeta {
+  version: 1;
+  pageSize: number;
+  count: number;
+  // Number of ids copied from theorem_keys when the index was created
+  migratedLegacy?: number;
+  // Last block whose logged theorems are all in the pages
+  syncedBlock?: number;
+}
+
+export const indexPageKey = (page: number) => `${INDEX_KEY}_${page}`;
+
+// getData returns "0x" for keys that were never written
+export function decodeJson<T>(bytes: string | undefined): T | null {
+  if (!bytes || ethers.dataLength(bytes) === 0) return null;
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch (e) {
+    console.error("Error parsing stored JSON:", e);
+    return null;
+  }
+}
+
+async function writeJson(adapter: ethers.Contract, key: string, value: unknown) {
+  const tx = await adapter.setData(key, ethers.toUtf8Bytes(JSON.stringify(value)));
+  await tx.wait();
+}
+
+export function providerOf(adapter: ethers.Contract): ethers.Provider {
+  const provider = adapter.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  return provider;
+}
+
+const unique = (ids: string[]) => [...new Set(ids)];
+
+async function readPages(adapter: ethers.Contract, meta: IndexMeta, from: number, to: number): Promise<string[]> {
+  to = Math.min(to, meta.count);
+  if (from >= to) return [];
+  const first = Math.floor(from / meta.pageSize);
+  const last = Math.floor((to - 1) / meta.pageSize);
+  const pages = await multicallFunction<string>(
+    adapter,
+    "getData",
+    Array.from({ length: last - first + 1 }, (_, i) => [indexPageKey(first + i)])
+  );
+  const ids = pages.flatMap(page => decodeJson<string[]>(page) ?? []);
+  return ids.slice(from - first * meta.pageSize, to - first * meta.pageSize);
+}
+
+// Appends after position meta.count, rewriting the partly filled last page
+async function writePages(adapter: ethers.Contract, meta: IndexMeta, ids: string[]) {
+  let position = meta.count;
+  for (let i = 0; i < ids.length;) {
+    const page = Math.floor(position / meta.pageSize);
+    const offset = position % meta.pageSize;
+    const kept = offset === 0 ? [] : (decodeJson<string[]>(await adapter.getData(indexPageKey(page))) ?? []).slice(0, offset);
+    const added = ids.slice(i, i + meta.pageSize - offset);
+    await writeJson(adapter, indexPageKey(page), [...kept, ...added]);
+    position += added.length;
+    i += added.length;
+  }
+}
+
+// Log entries after a starting block, per adapter; each call only scans the new blocks
+const tails = new Map<string, { toBlock: number; ids: string[] }>();
+
+async function logTail(adapter: ethers.Contract, fromBlock: number): Promise<string[]> {
+  const key = `${await adapter.getAddress()}:${fromBlock}`;
+  const head = await providerOf(adapter).getBlockNumber();
+  let tail = tails.get(key) ?? { toBlock: fromBlock - 1, ids: [] };
+  if (head > tail.toBlock) {
+    const found = await scanTheoremLogs(adapter, tail.toBlock + 1, head);
+    tail = { toBlock: head, ids: unique([...tail.ids, ...found.map(entry => entry.id)]) };
+    tails.set(key, tail);
+  }
+  return tail.ids;
+}
+
+export interface IndexView {
+  count: number;
+  // Ids at positions [from, to), oldest first
+  read(from: number, to: number): Promise<string[]>;
+}
+
+// `fromBlock` is where the log is scanned from when there is no checkpoint to start at,
+// normally the adapter's deployment block
+export async function openIndex(adapter: ethers.Contract, fromBlock: number): Promise<IndexView> {
+  const [metaBytes, legacyBytes] = await multicallFunction<string>(adapter, "getData", [[INDEX_KEY], [LEGACY_KEYS_KEY]]);
+  const meta = decodeJson<IndexMeta>(metaBytes);
+  const tail = await logTail(adapter, meta?.syncedBlock !== undefined ? meta.syncedBlock + 1 : fromBlock);
+
+  if (!meta) {
+    const ids = unique([...(decodeJson<string[]>(legacyBytes) ?? []), ...tail]);
+    return { count: ids.length, read: async (from, to) => ids.slice(from, to) };
+  }
+
+  // Tail entries include later writes (proof results) to ids the pages already hold
+  const checkpointed = new Set(tail.length > 0 ? await readPages(adapter, meta, 0, meta.count) : []);
+  const extra = tail.filter(id => !checkpointed.has(id));
+  return {
+    count: meta.count + extra.length,
+    read: async (from, to) => [
+      ...(await readPages(adapter, meta, from, to)),
+      ...extra.slice(Math.max(0, from - meta.count), Math.max(0, to - meta.count))
+    ]
+  };
+}
+
+export interface ReconcileReport {
+  meta: IndexMeta;
+  // Logged theorem ids missing from the index, in the order they were first written
+  orphans: string[];
+  // Indexed ids whose record is empty
+  missing: string[];
+}
+
+// Put every logged theorem the checkpoint lacks back into the pages and advance
+// syncedBlock to the head. The meta record is written last, so an interrupted run is simply
+// repeated. Only one reconciler should run at a time; submitters never write the index.
+export async function reconcileIndex(
+  adapter: ethers.Contract,
+  options: {
+    fromBlock: number;
+    // Scan from fromBlock even when the checkpoint has a syncedBlock
+    rescan?: boolean;
+    dryRun?: boolean;
+    onProgress?: (block: number, toBlock: number) => void;
+  }
+): Promise<ReconcileReport> {
+  const head = await providerOf(adapter).getBlockNumber();
+  const meta = decodeJson<IndexMeta>(await adapter.getData(INDEX_KEY));
+  const indexed = meta
+    ? await readPages(adapter, meta, 0, meta.count)
+    : unique(decodeJson<string[]>(await adapter.getData(LEGACY_KEYS_KEY)) ?? []);
+
+  const scanFrom = meta?.syncedBlock !== undefined && !options.rescan ? meta.syncedBlock + 1 : options.fromBlock;
+  const known = new Set(indexed);
+  const orphans = (await scanTheoremLogs(adapter, scanFrom, head, options.onProgress))
+    .map(entry => entry.id)
+    .filter(id => !known.has(id));
+
+  const records = await multicallFunction<string>(adapter, "getData", indexed.map(id => [`theorem_${id}`]));
+  const missing = indexed.filter((_, i) => !records[i] || ethers.dataLength(records[i]!) === 0);
+
+  // Without a checkpoint the theorem_keys ids are written first
+  const base: IndexMeta = meta ?? { version: 1, pageSize: INDEX_PAGE_SIZE, count: 0, migratedLegacy: indexed.length };
+  const added = meta ? orphans : [...indexed, ...orphans];
+  const next: IndexMeta = { ...base, count: base.count + added.length, syncedBlock: head };
+  if (!options.dryRun) {
+    await writePages(adapter, base, added);
+    await writeJson(adapter, INDEX_KEY, next);
+  }
+  return { meta: next, orphans, missing };
+}
@@ -0,0 +1,52 @@
+// store/theoremLog.ts
+// UniversalAdapter emits DataStored for every setData, so its log lists every theorem key
+// ever written, however many writers raced. The paged index is a checkpoint of this log.
+import { ethers } from "ethers";
+
+// Block span per eth_getLogs request; public Sepolia RPCs reject much wider ranges
+export const LOG_BLOCK_RANGE = 5000;
+
+export interface LoggedTheorem {
+  id: string;
+  writer: string;
+  // Position of the first write of the key
+  blockNumber: number;
+  logIndex: number;
+}
+
+const INDEX_KEYS = /^theorem_(keys|index(_\d+)?)$/;
+
+// Theorem id stored under `key`; null for keys that are not theorem records
+export function recordKeyId(key: string): string | null {
+  return key.startsWith("theorem_") && !INDEX_KEYS.test(key) ? key.slice("theorem_".length) : null;
+}
+
+// Off-chain theorem id stored under `key`; null for the index itself and for records of
+// TheoremProverFHE submissions (see submissionKey), which the prover lists
+export function loggedTheoremId(key: string): string | null {
+  const id = recordKeyId(key);
+  return id === null || id.startsWith("sub-") ? null : id;
+}
+
+// First write of every off-chain theorem key in [fromBlock, toBlock], in log order
+export async function scanTheoremLogs(
+  adapter: ethers.Contract,
+  fromBlock: number,
+  toBlock: number,
+  onProgress?: (block: number, toBlock: number) => void
+): Promise<LoggedTheorem[]> {
+  const seen = new Set<string>();
+  const found: LoggedTheorem[] = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    const end = Math.min(start + LOG_BLOCK_RANGE - 1, toBlock);
+    for (const log of await adapter.queryFilter(adapter.filters.DataStored(), start, end)) {
+      if (!("args" in log)) continue;
+      const id = loggedTheoremId(log.args.key);
+      if (id === null || seen.has(id)) continue;
+      seen.add(id);
+      found.push({ id, writer: log.args.sender, blockNumber: log.blockNumber, logIndex: log.index });
+    }
+    onProgress?.(end, toBlock);
+  }
+  return found;
+}
@@ -0,0 +1,95 @@
+// store/theoremStore.ts
+// Newest-first pages of theorem records. Two sources are merged: TheoremProverFHE
+// submissions (by id) and the off-chain theorem index (by position). The cursor records how
+// far each one has been read, and every record of a page comes from one batched read.
+import { ethers } from "ethers";
+import { submissionKey } from "../prover/record";
+import { OnChainSubmission, toSubmission } from "../submissions";
+import { QuarantinedRecord, StoredTheorem, recordFields } from "./recordSchema";
+import { openIndex } from "./theoremIndex";
+import { multicallFunction } from "./multicall";
+
+export const THEOREM_PAGE_SIZE = 20;
+
+export interface StoredTheoremEntry {
+  id: string;
+  // Upgraded, validated adapter record; null when it is missing or quarantined
+  data: StoredTheorem | null;
+  quarantine?: QuarantinedRecord;
+  submission?: OnChainSubmission;
+}
+
+// Sources not yet read: submissions with id <= submissions, index positions < offChain
+export interface TheoremCursor {
+  submissions: number;
+  offChain: number;
+}
+
+export interface TheoremPage {
+  entries: StoredTheoremEntry[];
+  // Where this page started reading; for a first page, the size of each source
+  start: TheoremCursor;
+  // null once both sources are exhausted
+  cursor: TheoremCursor | null;
+}
+
+const timestampOf = (entry: StoredTheoremEntry) => entry.data?.timestamp ?? entry.submission?.submittedAt ?? 0;
+
+export async function loadTheoremPage(
+  adapter: ethers.Contract,
+  prover: ethers.Contract | null,
+  cursor: TheoremCursor | null,
+  // fromBlock: adapter deployment block, where the theorem log starts (see openIndex)
+  { fromBlock = 0, pageSize = THEOREM_PAGE_SIZE }: { fromBlock?: number; pageSize?: number } = {}
+): Promise<TheoremPage> {
+  const index = await openIndex(adapter, fromBlock);
+  const proverAddress = prover ? await prover.getAddress() : "";
+  const start = cursor ?? {
+    submissions: prover ? Number(await prover.submissionCount()) : 0,
+    offChain: index.count
+  };
+
+  // Up to pageSize from each source, newest first
+  const submissionFrom = Math.max(0, start.submissions - pageSize);
+  const [submissions, offChainIds] = await Promise.all([
+    prover && start.submissions > 0
+      ? prover.getSubmissions(submissionFrom, start.submissions - submissionFrom)
+          .then((page: ethers.Result[]) => page.map(toSubmission).reverse())
+      : Promise.resolve([] as OnChainSubmission[]),
+    index.read(Math.max(0, start.offChain - pageSize), start.offChain).then(ids => ids.reverse())
+  ]);
+
+  const submissionIds = submissions.map(s => submissionKey(proverAddress, s.submissionId));
+  const records = await multicallFunction<string>(
+    adapter,
+    "getData",
+    [...submissionIds, ...offChainIds].map(id => [`theorem_${id}`])
+  );
+  const fromSubmissions: StoredTheoremEntry[] = submissions.map((submission, i) => ({
+    id: submissionIds[i],
+    ...recordFields(records[i]),
+    submission
+  }));
+  const fromIndex: StoredTheoremEntry[] = offChainIds.map((id, i) => ({
+    id,
+    ...recordFields(records[submissionIds.length + i])
+  }));
+
+  // Merge the two newest-first lists; whatever is not taken is read again next page
+  const entries: StoredTheoremEntry[] = [];
+  let a = 0;
+  let b = 0;
+  while (entries.length < pageSize && (a < fromSubmissions.length || b < fromIndex.length)) {
+    const takeSubmission = b >= fromIndex.length
+      || (a < fromSubmissions.length && timestampOf(fromSubmissions[a]) >= timestampOf(fromIndex[b]));
+    entries.push(takeSubmission ? fromSubmissions[a++] : fromIndex[b++]);
+  }
+
+  const next = { submissions: start.submissions - a, offChain: start.offChain - b };
+  return {
+    start,
+    // Index entries whose record is gone have nothing to show
+    entries: entries.filter(entry => entry.data || entry.quarantine || entry.submission),
+    cursor: next.submissions > 0 || next.offChain > 0 ? next : null
+  };
+}
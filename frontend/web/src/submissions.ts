@@ -0,0 +1,57 @@
+// submissions.ts
+// Per-theorem records kept by TheoremProverFHE, read through its paginated views
+import { ethers } from "ethers";
+
+export type SubmissionStatus = "none" | "searching" | "completed";
+
+// Order of the Solidity SubmissionStatus enum
+const STATUSES: SubmissionStatus[] = ["none", "searching", "completed"];
+
+export interface OnChainSubmission {
+  submissionId: number;
+  submitter: string;
+  batchId: number;
+  // uint32 id passed by the submitter (see proverTheoremId)
+  theoremId: number;
+  encryptedTheoremHash: string;
+  // Program words followed by the bool lane
+  handles: string[];
+  status: SubmissionStatus;
+  requestId: string;
+  proofIdHandle: string;
+  hasProofHandle: string;
+  // Decrypted search result, once status is "completed"
+  revealed?: { proofId: number; hasProof: boolean };
+  submittedAt: number;
+  completedAt?: number;
+}
+
+export function toSubmission(s: ethers.Result): OnChainSubmission {
+  const status = STATUSES[Number(s.status)] ?? "none";
+  return {
+    submissionId: Number(s.id),
+    submitter: s.submitter,
+    batchId: Number(s.batchId),
+    theoremId: Number(s.theoremId),
+    encryptedTheoremHash: s.encryptedTheoremHash,
+    handles: [...s.handles],
+    status,
+    requestId: s.requestId.toString(),
+    proofIdHandle: s.proofId,
+    hasProofHandle: s.hasProof,
+    revealed: status === "completed" ? { proofId: Number(s.revealedProofId), hasProof: s.revealedHasProof } : undefined,
+    submittedAt: Number(s.submittedAt),
+    completedAt: status === "completed" ? Number(s.completedAt) : undefined
+  };
+}
+
+// Submission id of a mined submitEncryptedTheorem transaction
+export async function submissionIdOf(prover: ethers.Contract, receipt: ethers.TransactionReceipt): Promise<bigint> {
+  const proverAddress = (await prover.getAddress()).toLowerCase();
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== proverAddress) continue;
+    const event = prover.interface.parseLog(log);
+    if (event?.name === "ProofSearchInitiated") return prover.submissionOfRequest(event.args.requestId);
+  }
+  throw new Error(`No proof search was started by ${receipt.hash}`);
+}
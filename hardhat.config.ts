@@ -2,6 +2,11 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "./tasks/admin";
+import "./tasks/deploy";
+import "./tasks/prove";
+import "./tasks/store";
+import "./tasks/worker";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
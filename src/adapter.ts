@@ -0,0 +1,52 @@
+// src/adapter.ts
+// Theorem records as the web app stores them: JSON under `theorem_<id>` in the
+// UniversalAdapter key/value store, versioned by frontend/web/src/store/recordSchema.ts.
+// Off-chain ids are listed from the adapter's log (frontend/web/src/store/theoremIndex.ts).
+import { ethers } from "ethers";
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+import {
+  StoredTheorem,
+  encodeRecord,
+  parseRecord,
+} from "../frontend/web/src/store/recordSchema";
+
+export const ADAPTER_ABI = adapterArtifact.abi;
+
+export type { StoredTheorem } from "../frontend/web/src/store/recordSchema";
+
+export class InvalidRecordError extends Error {
+  constructor(
+    readonly theoremId: string,
+    readonly errors: string[],
+  ) {
+    super(`Theorem ${theoremId} has an invalid record: ${errors.join("; ")}`);
+    this.name = "InvalidRecordError";
+  }
+}
+
+export const recordKey = (theoremId: string) => `theorem_${theoremId}`;
+
+export function getAdapter(address: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(address, ADAPTER_ABI, runner);
+}
+
+export async function readRecord(
+  adapter: ethers.Contract,
+  theoremId: string,
+): Promise<StoredTheorem | null> {
+  // Older records are upgraded here and written back at the current version
+  const parsed = parseRecord(await adapter.getData(recordKey(theoremId)));
+  if (!parsed) return null;
+  if (!parsed.ok) throw new InvalidRecordError(theoremId, parsed.errors);
+  return parsed.record;
+}
+
+export async function writeRecord(
+  adapter: ethers.Contract,
+  theoremId: string,
+  record: StoredTheorem,
+) {
+  const tx = await adapter.setData(recordKey(theoremId), encodeRecord(record));
+  await tx.wait();
+  return tx.hash as string;
+}
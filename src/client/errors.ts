@@ -0,0 +1,118 @@
+// src/client/errors.ts
+// TheoremProverFHE custom errors as TypeScript exceptions. ethers reports a revert as a
+// CALL_EXCEPTION carrying the raw revert data; the selector is decoded against the ABI.
+import { ethers } from "ethers";
+
+export class TheoremProverError extends Error {
+  constructor(
+    // Solidity error name, e.g. "NotOwner"
+    readonly errorName: string,
+    message: string,
+    readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "TheoremProverError";
+  }
+}
+
+export class CooldownActiveError extends TheoremProverError {
+  constructor(
+    // Unix time at which the account may submit again, when known
+    readonly availableAt?: number,
+    cause?: unknown,
+  ) {
+    super(
+      "CooldownActive",
+      availableAt === undefined
+        ? "Submission cooldown is still active"
+        : `Submission cooldown is active until ${new Date(availableAt * 1000).toISOString()}`,
+      cause,
+    );
+    this.name = "CooldownActiveError";
+  }
+}
+
+export class BatchNotActiveError extends TheoremProverError {
+  constructor(cause?: unknown) {
+    super(
+      "BatchNotActive",
+      "The current batch is closed; the owner has to open a new one",
+      cause,
+    );
+    this.name = "BatchNotActiveError";
+  }
+}
+
+export class NotProviderError extends TheoremProverError {
+  constructor(cause?: unknown) {
+    super(
+      "NotProvider",
+      "The sender is not a registered theorem provider",
+      cause,
+    );
+    this.name = "NotProviderError";
+  }
+}
+
+const MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner may do this",
+  PausedError: "TheoremProverFHE is paused",
+  InvalidProgramLength: "The encrypted program has the wrong number of words",
+  InvalidWitnessLength: "A witness needs between 1 and 256 encrypted values",
+  InvalidTextLength:
+    "A theorem text needs between 1 and 192 encrypted words, at most 64 per input proof",
+  SearchNotPending: "The submission is not waiting for its proof search result",
+  ReplayAttempt: "The decryption request was already processed",
+  StateMismatch: "The ciphertexts changed since the decryption request",
+  InvalidKMSSignatures: "The decryption proof was rejected",
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Revert data sits at different depths depending on the provider and on whether the
+// failure happened during gas estimation or in the mined transaction
+function revertData(e: unknown): string | undefined {
+  for (
+    let err: unknown = e;
+    isObject(err);
+    err = err.error ?? (isObject(err.info) ? err.info.error : undefined)
+  ) {
+    const { data } = err;
+    if (typeof data === "string" && data.startsWith("0x")) return data;
+    if (isObject(data) && typeof data.data === "string") return data.data;
+  }
+  return undefined;
+}
+
+// Translate a failed call into a typed error; anything unrecognised is returned as is
+export function decodeProverError(
+  iface: ethers.Interface,
+  e: unknown,
+): unknown {
+  const data = revertData(e);
+  if (!data || data.length < 10) return e;
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = iface.parseError(data);
+  } catch {
+    return e;
+  }
+  if (!parsed) return e;
+
+  switch (parsed.name) {
+    case "CooldownActive":
+      return new CooldownActiveError(undefined, e);
+    case "BatchNotActive":
+      return new BatchNotActiveError(e);
+    case "NotProvider":
+      return new NotProviderError(e);
+    default:
+      return new TheoremProverError(
+        parsed.name,
+        MESSAGES[parsed.name] ??
+          `TheoremProverFHE reverted with ${parsed.name}`,
+        e,
+      );
+  }
+}
@@ -0,0 +1,200 @@
+// src/client/theoremProverClient.ts
+// Typed wrapper around the TheoremProverFHE bindings: sends a transaction, waits for it
+// and returns what its events report, with custom errors turned into exceptions.
+import { ethers } from "ethers";
+import { TheoremProverFHE__factory } from "../../types/factories/contracts/TheoremProverFHE__factory";
+import type { TheoremProverFHE } from "../../types/contracts/TheoremProverFHE";
+import { CooldownActiveError, decodeProverError } from "./errors";
+
+// Output of the web app's encryptProgram: one input proof for words and bool lane
+export interface EncryptedSubmission {
+  wordHandles: ethers.BytesLike[];
+  boolHandles: ethers.BytesLike[];
+  inputProof: ethers.BytesLike;
+}
+
+export interface SubmissionReceipt {
+  transactionHash: string;
+  blockNumber: number;
+  submissionId: bigint;
+  requestId: bigint;
+  batchId: bigint;
+  encryptedTheoremHash: string;
+}
+
+export interface ProofResult {
+  requestId: bigint;
+  batchId: bigint;
+  hasProof: boolean;
+  proofId: number;
+  transactionHash: string;
+}
+
+export class TheoremProverClient {
+  readonly contract: TheoremProverFHE;
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    this.contract = TheoremProverFHE__factory.connect(address, runner);
+  }
+
+  private async send(
+    call: () => Promise<ethers.ContractTransactionResponse>,
+  ): Promise<ethers.ContractTransactionReceipt> {
+    try {
+      const tx = await call();
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+      return receipt;
+    } catch (e) {
+      throw decodeProverError(this.contract.interface, e);
+    }
+  }
+
+  private events(receipt: ethers.ContractTransactionReceipt) {
+    return receipt.logs
+      .map((log) => this.contract.interface.parseLog(log))
+      .filter((event): event is ethers.LogDescription => event !== null);
+  }
+
+  async submitTheorem(
+    program: EncryptedSubmission,
+    theoremId: number,
+  ): Promise<SubmissionReceipt> {
+    let receipt: ethers.ContractTransactionReceipt;
+    try {
+      receipt = await this.send(() =>
+        this.contract.submitEncryptedTheorem(
+          program.wordHandles,
+          program.boolHandles,
+          program.inputProof,
+          theoremId,
+        ),
+      );
+    } catch (e) {
+      if (e instanceof CooldownActiveError)
+        throw new CooldownActiveError(await this.cooldownEnd(), e.cause);
+      throw e;
+    }
+
+    const events = this.events(receipt);
+    const submitted = events.find((event) => event.name === "TheoremSubmitted");
+    const initiated = events.find(
+      (event) => event.name === "ProofSearchInitiated",
+    );
+    if (!submitted || !initiated)
+      throw new Error(`No proof request found in ${receipt.hash}`);
+    return {
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      submissionId: await this.contract.submissionOfRequest(
+        initiated.args.requestId,
+      ),
+      requestId: initiated.args.requestId,
+      batchId: initiated.args.batchId,
+      encryptedTheoremHash: submitted.args.encryptedTheoremHash,
+    };
+  }
+
+  // Asks the decryption oracle again for the result of a submission still searching;
+  // returns the id of the new request
+  async requestProofSearch(submissionId: ethers.BigNumberish): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.requestProofSearch(submissionId),
+    );
+    const initiated = this.events(receipt).find(
+      (event) => event.name === "ProofSearchInitiated",
+    );
+    if (!initiated)
+      throw new Error(`No proof request found in ${receipt.hash}`);
+    return initiated.args.requestId;
+  }
+
+  // When the signer may submit again, as unix seconds
+  private async cooldownEnd(): Promise<number | undefined> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") return undefined;
+    const [last, cooldown] = await Promise.all([
+      this.contract.lastSubmissionTime(await runner.getAddress()),
+      this.contract.cooldownSeconds(),
+    ]);
+    return Number(last + cooldown);
+  }
+
+  // Opens the next batch and returns its id
+  async openBatch(): Promise<bigint> {
+    const receipt = await this.send(() => this.contract.openNewBatch());
+    const opened = this.events(receipt).find(
+      (event) => event.name === "BatchOpened",
+    );
+    if (!opened) throw new Error(`No BatchOpened event in ${receipt.hash}`);
+    return opened.args.batchId;
+  }
+
+  async closeBatch(): Promise<string> {
+    return (await this.send(() => this.contract.closeCurrentBatch())).hash;
+  }
+
+  async currentBatch(): Promise<{ id: bigint; isActive: boolean }> {
+    const id = await this.contract.currentBatchId();
+    const [, isActive] = await this.contract.batches(id);
+    return { id, isActive };
+  }
+
+  async addProvider(provider: string): Promise<string> {
+    return (await this.send(() => this.contract.addProvider(provider))).hash;
+  }
+
+  async removeProvider(provider: string): Promise<string> {
+    return (await this.send(() => this.contract.removeProvider(provider))).hash;
+  }
+
+  getSubmission(submissionId: ethers.BigNumberish) {
+    return this.contract
+      .getSubmission(submissionId)
+      .catch((e) =>
+        Promise.reject(decodeProverError(this.contract.interface, e)),
+      );
+  }
+
+  // One page of submissions in id order; pass submitter to list only theirs
+  getSubmissions(offset: number, limit: number, submitter?: string) {
+    return submitter
+      ? this.contract.getSubmissionsBySubmitter(submitter, offset, limit)
+      : this.contract.getSubmissions(offset, limit);
+  }
+
+  isProvider(account: string): Promise<boolean> {
+    return this.contract.isProvider(account);
+  }
+
+  // Calls onResult for every ProofSearchCompleted (optionally of one request);
+  // returns a function that removes the subscription
+  watchProofResults(
+    onResult: (result: ProofResult) => void,
+    requestId?: ethers.BigNumberish,
+  ): () => Promise<void> {
+    const event = this.contract.getEvent("ProofSearchCompleted");
+    const wanted = requestId === undefined ? undefined : BigInt(requestId);
+    const listener = (
+      requestId: bigint,
+      batchId: bigint,
+      hasProof: boolean,
+      proofId: bigint,
+      payload: unknown,
+    ) => {
+      if (wanted !== undefined && requestId !== wanted) return;
+      onResult({
+        requestId,
+        batchId,
+        hasProof,
+        proofId: Number(proofId),
+        transactionHash: (payload as ethers.ContractEventPayload).log
+          .transactionHash,
+      });
+    };
+    this.contract.on(event, listener);
+    return async () => {
+      await this.contract.off(event, listener);
+    };
+  }
+}
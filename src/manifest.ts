@@ -0,0 +1,121 @@
+// src/manifest.ts
+// Per-network deployment manifests (deployments/<network>.json, see
+// frontend/web/src/deployment.ts). Recording a deployment also copies the contract's ABI to
+// the frontend and regenerates frontend/web/src/config.json from all manifests.
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  ContractName,
+  DeploymentConfig,
+  DeploymentManifest,
+  abiHash,
+} from "../frontend/web/src/deployment";
+
+const ROOT = path.join(__dirname, "..");
+export const MANIFEST_DIR = path.join(ROOT, "deployments");
+const FRONTEND_SRC = path.join(ROOT, "frontend", "web", "src");
+const FRONTEND_CONFIG = path.join(FRONTEND_SRC, "config.json");
+
+// The chain the frontend reads from before a wallet is connected
+const DEFAULT_CHAIN_ID = 11155111;
+
+const writeJson = (file: string, value: unknown) =>
+  fs.writeFileSync(file, JSON.stringify(value, null, 2) + "\n");
+
+export function readManifest(network: string): DeploymentManifest | null {
+  const file = path.join(MANIFEST_DIR, `${network}.json`);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+}
+
+// The address a task falls back to when none is passed
+export function deployedAddress(
+  hre: HardhatRuntimeEnvironment,
+  contract: ContractName,
+): string | undefined {
+  return readManifest(hre.network.name)?.contracts[contract]?.address;
+}
+
+// The address passed as `param`, or the one in the network's manifest
+export function requireDeployment(
+  hre: HardhatRuntimeEnvironment,
+  contract: ContractName,
+  given: string | undefined,
+  param: string,
+): string {
+  const address = given ?? deployedAddress(hre, contract);
+  if (!address || !ethers.isAddress(address))
+    throw new Error(
+      `No ${contract} deployment for ${hre.network.name}; pass ${param}`,
+    );
+  return address;
+}
+
+export function deployedBlock(
+  hre: HardhatRuntimeEnvironment,
+  contract: ContractName,
+): number {
+  return readManifest(hre.network.name)?.contracts[contract]?.blockNumber ?? 0;
+}
+
+export function writeFrontendConfig() {
+  const networks: DeploymentConfig["networks"] = {};
+  for (const file of fs.readdirSync(MANIFEST_DIR).sort()) {
+    if (!file.endsWith(".json")) continue;
+    const manifest: DeploymentManifest = JSON.parse(
+      fs.readFileSync(path.join(MANIFEST_DIR, file), "utf8"),
+    );
+    networks[manifest.chainId] = manifest;
+  }
+  const config: DeploymentConfig = {
+    defaultChainId: DEFAULT_CHAIN_ID,
+    networks,
+  };
+  writeJson(FRONTEND_CONFIG, config);
+}
+
+// `abi` is the one of the factory that deployed the contract; it is copied into the
+// frontend's abi/ file next to that file's artifact fields. Contracts on the in-process
+// hardhat network vanish with the task, so nothing is written for it. Returns the
+// manifest file, or null when nothing was recorded.
+export async function recordDeployment(
+  hre: HardhatRuntimeEnvironment,
+  contract: ContractName,
+  abi: ethers.InterfaceAbi,
+  address: string,
+  receipt: ethers.TransactionReceipt,
+): Promise<string | null> {
+  if (hre.network.name === "hardhat") return null;
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const url = (hre.network.config as { url?: string }).url;
+  const manifest: DeploymentManifest = readManifest(hre.network.name) ?? {
+    network: hre.network.name,
+    chainId: Number(chainId),
+    contracts: {},
+  };
+  if (manifest.chainId !== Number(chainId))
+    throw new Error(
+      `deployments/${hre.network.name}.json is for chain ${manifest.chainId}, but the network is chain ${chainId}`,
+    );
+  if (url) manifest.rpcUrl = url;
+  manifest.contracts[contract] = {
+    address,
+    abiHash: abiHash(abi),
+    codeHash: ethers.keccak256(await hre.ethers.provider.getCode(address)),
+    blockNumber: receipt.blockNumber,
+    transactionHash: receipt.hash,
+    deployer: receipt.from,
+  };
+
+  fs.mkdirSync(MANIFEST_DIR, { recursive: true });
+  const file = path.join(MANIFEST_DIR, `${hre.network.name}.json`);
+  writeJson(file, manifest);
+  const abiFile = path.join(FRONTEND_SRC, "abi", `${contract}.json`);
+  const previous = fs.existsSync(abiFile)
+    ? JSON.parse(fs.readFileSync(abiFile, "utf8"))
+    : { _format: "hh-sol-artifact-1", contractName: contract };
+  writeJson(abiFile, { ...previous, abi });
+  writeFrontendConfig();
+  return path.relative(ROOT, file);
+}
@@ -0,0 +1,71 @@
+// src/receipt.ts
+// The JSON receipt the deploy and admin tasks print: one object per mined transaction,
+// with the contract's own events decoded, so the output can be piped into jq.
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { TaskSigner } from "./signer";
+
+export interface TaskReceipt {
+  task: string;
+  // Mined on a throwaway fork of the network, see --dry-run in signer.ts
+  dryRun: boolean;
+  network: string;
+  chainId: number;
+  signer: string;
+  contract: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  gasUsed: string;
+  events: { name: string; args: Record<string, unknown> }[];
+  // Deployment manifest the deploy tasks wrote; null for a dry run or the in-process
+  // hardhat network
+  manifest?: string | null;
+}
+
+// bigints become decimal strings and ethers Results plain arrays
+function jsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return Array.from(value, jsonValue);
+  return value;
+}
+
+export async function taskReceipt(
+  hre: HardhatRuntimeEnvironment,
+  task: string,
+  contract: string,
+  iface: ethers.Interface,
+  address: string,
+  { signer, provider, dryRun }: TaskSigner,
+  receipt: ethers.TransactionReceipt,
+): Promise<TaskReceipt> {
+  const events: TaskReceipt["events"] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== address.toLowerCase()) continue;
+    const parsed = iface.parseLog(log);
+    if (!parsed) continue;
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      args[input.name || String(i)] = jsonValue(parsed.args[i]);
+    });
+    events.push({ name: parsed.name, args });
+  }
+  const { chainId } = await provider.getNetwork();
+  return {
+    task,
+    dryRun,
+    network: hre.network.name,
+    chainId: Number(chainId),
+    signer: await signer.getAddress(),
+    contract,
+    address,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+    events,
+  };
+}
+
+export function printReceipt(receipt: TaskReceipt) {
+  console.log(JSON.stringify(receipt, null, 2));
+}
@@ -0,0 +1,208 @@
+// src/signer.ts
+// Signers for the deploy and admin tasks. A key comes from an Ethereum V3 JSON keystore or
+// from a BIP-39 mnemonic at a derivation path; the keystore password or the mnemonic is
+// typed at a hidden prompt or read from a file descriptor (--password-fd 3 3<secret.txt).
+// Without either, the network's configured accounts are used, which on hardhat/localhost
+// are the node's test accounts.
+//
+// With --dry-run nothing is decrypted or signed: the task runs against an in-process fork
+// of the network, sending from the same address through account impersonation.
+import fs from "fs";
+import { ethers } from "ethers";
+import { types } from "hardhat/config";
+import type {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import { createProvider } from "hardhat/internal/core/providers/construction";
+
+export interface SignerArgs {
+  keystore?: string;
+  mnemonic: boolean;
+  path?: string;
+  passwordFd?: number;
+  dryRun: boolean;
+}
+
+export interface TaskSigner {
+  signer: ethers.Signer;
+  provider: ethers.Provider;
+  // Set when the signer sends to a throwaway fork
+  dryRun: boolean;
+}
+
+// The signer parameters every deploy and admin task takes
+export function addSignerParams(definition: ConfigurableTaskDefinition) {
+  return definition
+    .addOptionalParam("keystore", "Ethereum V3 JSON keystore of the sender")
+    .addFlag("mnemonic", "Derive the sender from a BIP-39 mnemonic")
+    .addOptionalParam(
+      "path",
+      `HD derivation path for --mnemonic or a keystore holding one (default: ${ethers.defaultPath})`,
+    )
+    .addOptionalParam(
+      "passwordFd",
+      "Read the keystore password or mnemonic from this file descriptor instead of prompting",
+      undefined,
+      types.int,
+    )
+    .addFlag(
+      "dryRun",
+      "Simulate on a local fork of the network without signing anything",
+    );
+}
+
+// Typed without echo; the prompt goes to stderr so stdout stays JSON
+function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY)
+    throw new Error(`${question} needs a terminal; pass --password-fd`);
+  process.stderr.write(`${question}: `);
+  stdin.setRawMode(true);
+  stdin.setEncoding("utf8");
+  stdin.resume();
+  return new Promise((resolve, reject) => {
+    let secret = "";
+    const finish = (error?: Error) => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+      if (error) reject(error);
+      else resolve(secret);
+    };
+    const onData = (chunk: string) => {
+      for (const ch of chunk) {
+        if (ch === "\r" || ch === "\n" || ch === "\u0004") return finish();
+        if (ch === "\u0003") return finish(new Error("Cancelled"));
+        if (ch === "\u007f" || ch === "\b") secret = secret.slice(0, -1);
+        else secret += ch;
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+async function readSecret(question: string, fd?: number): Promise<string> {
+  if (fd === undefined) return promptSecret(question);
+  // Only the line break the shell or an editor adds is dropped
+  return fs.readFileSync(fd, "utf8").replace(/\r?\n$/, "");
+}
+
+async function mnemonicWallet(args: SignerArgs): Promise<ethers.HDNodeWallet> {
+  const phrase = (await readSecret("Mnemonic", args.passwordFd)).trim();
+  return ethers.HDNodeWallet.fromPhrase(
+    phrase.split(/\s+/).join(" "),
+    undefined,
+    args.path ?? ethers.defaultPath,
+  );
+}
+
+async function keystoreWallet(
+  file: string,
+  args: Pick<SignerArgs, "path" | "passwordFd">,
+): Promise<ethers.Wallet | ethers.HDNodeWallet> {
+  const json = fs.readFileSync(file, "utf8");
+  if (!ethers.isKeystoreJson(json))
+    throw new Error(`${file} is not a V3 JSON keystore`);
+  const wallet = await ethers.Wallet.fromEncryptedJson(
+    json,
+    await readSecret(`Password for ${file}`, args.passwordFd),
+  );
+  if (args.path === undefined) return wallet;
+  if (!("mnemonic" in wallet) || !wallet.mnemonic)
+    throw new Error(`${file} holds a single key; --path needs a mnemonic`);
+  return ethers.HDNodeWallet.fromMnemonic(wallet.mnemonic, args.path);
+}
+
+// The sender's address without decrypting anything, for --dry-run; a V3 keystore stores
+// its address in the clear
+async function senderAddress(
+  hre: HardhatRuntimeEnvironment,
+  args: SignerArgs,
+): Promise<string> {
+  if (args.keystore) {
+    if (args.path !== undefined)
+      throw new Error("--dry-run cannot follow --path inside a keystore");
+    const { address } = JSON.parse(fs.readFileSync(args.keystore, "utf8"));
+    if (typeof address !== "string")
+      throw new Error(`${args.keystore} does not record its address`);
+    return ethers.getAddress(
+      address.startsWith("0x") ? address : `0x${address}`,
+    );
+  }
+  // Deriving the address reads the mnemonic but signs nothing
+  if (args.mnemonic) return (await mnemonicWallet(args)).address;
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer)
+    throw new Error(
+      `No signer configured for network ${hre.network.name}; pass --keystore or --mnemonic`,
+    );
+  return signer.address;
+}
+
+// A fresh in-process Hardhat network forked from the task's network at its head, with the
+// network's chain id so contracts behave as they would there
+async function forkNetwork(
+  hre: HardhatRuntimeEnvironment,
+): Promise<ethers.BrowserProvider> {
+  const url = (hre.network.config as { url?: string }).url;
+  if (!url)
+    throw new Error(
+      `--dry-run forks the network over JSON-RPC, and ${hre.network.name} has no URL`,
+    );
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const config = {
+    ...hre.config,
+    networks: {
+      ...hre.config.networks,
+      hardhat: {
+        ...hre.config.networks.hardhat,
+        chainId: Number(chainId),
+        forking: { enabled: true, url },
+      },
+    },
+  };
+  return new ethers.BrowserProvider(
+    await createProvider(config, "hardhat", hre.artifacts),
+  );
+}
+
+export async function taskSigner(
+  hre: HardhatRuntimeEnvironment,
+  args: SignerArgs,
+): Promise<TaskSigner> {
+  if (args.keystore && args.mnemonic)
+    throw new Error("Pass either --keystore or --mnemonic");
+
+  if (args.dryRun) {
+    const address = await senderAddress(hre, args);
+    const provider = await forkNetwork(hre);
+    await provider.send("hardhat_impersonateAccount", [address]);
+    return {
+      signer: await provider.getSigner(address),
+      provider,
+      dryRun: true,
+    };
+  }
+
+  const provider = hre.ethers.provider;
+  if (args.keystore)
+    return {
+      signer: (await keystoreWallet(args.keystore, args)).connect(provider),
+      provider,
+      dryRun: false,
+    };
+  if (args.mnemonic)
+    return {
+      signer: (await mnemonicWallet(args)).connect(provider),
+      provider,
+      dryRun: false,
+    };
+  const [signer] = await hre.ethers.getSigners();
+  if (!signer)
+    throw new Error(
+      `No signer configured for network ${hre.network.name}; pass --keystore or --mnemonic`,
+    );
+  return { signer, provider, dryRun: false };
+}
@@ -0,0 +1,227 @@
+// src/solver/smtBridge.ts
+// Pipes SMT-LIB scripts to a locally installed solver binary (z3, cvc5, or anything that
+// reads SMT-LIB v2 on stdin) and maps the reply onto the prover's SearchResult. When no
+// binary is available, or the theorem can't be expressed in SMT-LIB, the built-in
+// engines used by the web app take over.
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { Expr } from "../../frontend/web/src/descriptor";
+import { loadCnf } from "../../frontend/web/src/formats/dimacs";
+import {
+  SmtAnswer,
+  SmtLibError,
+  parseSmtAnswer,
+  printSmtLib,
+} from "../../frontend/web/src/formats/smtlib";
+import { usesSatSolver } from "../../frontend/web/src/prover/record";
+import {
+  checkCnfUnsat,
+  checkPropositionalValidity,
+} from "../../frontend/web/src/prover/sat/validity";
+import {
+  SearchResult,
+  searchCounterexample,
+} from "../../frontend/web/src/prover/search";
+import { StoredTheorem } from "../adapter";
+import type { TheoremStatement } from "../../frontend/web/src/store/recordSchema";
+
+export interface SolverSpec {
+  name: string;
+  command: string;
+  args: string[];
+}
+
+// Tried in order when no solver is requested explicitly
+export const KNOWN_SOLVERS: SolverSpec[] = [
+  { name: "z3", command: "z3", args: ["-in", "-smt2"] },
+  { name: "cvc5", command: "cvc5", args: ["--lang=smt2", "--produce-models"] },
+];
+
+export const DEFAULT_SOLVER_TIMEOUT_MS = 30_000;
+
+function onPath(command: string): string | null {
+  if (command.includes(path.sep))
+    return fs.existsSync(command) ? command : null;
+  for (const dir of (process.env.PATH ?? "").split(path.delimiter)) {
+    const candidate = path.join(dir, command);
+    try {
+      fs.accessSync(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // not in this directory
+    }
+  }
+  return null;
+}
+
+// `preferred` is a known solver name or a path to a binary; an unknown binary is
+// driven like z3 (script on stdin)
+export function findSolver(preferred?: string): SolverSpec | null {
+  if (preferred) {
+    const known = KNOWN_SOLVERS.find((s) => s.name === preferred);
+    const spec = known ?? {
+      name: path.basename(preferred),
+      command: preferred,
+      args: [],
+    };
+    const resolved = onPath(spec.command);
+    return resolved ? { ...spec, command: resolved } : null;
+  }
+  for (const spec of KNOWN_SOLVERS) {
+    const resolved = onPath(spec.command);
+    if (resolved) return { ...spec, command: resolved };
+  }
+  return null;
+}
+
+export function runSolver(
+  solver: SolverSpec,
+  script: string,
+  timeoutMs = DEFAULT_SOLVER_TIMEOUT_MS,
+): Promise<SmtAnswer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(solver.command, solver.args, {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, timeoutMs);
+
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on("close", () => {
+      clearTimeout(timer);
+      if (timedOut) {
+        resolve({
+          status: "unknown",
+          reason: `${solver.name} timed out after ${timeoutMs / 1000}s`,
+        });
+        return;
+      }
+      // Solvers exit non-zero when (get-model) follows unsat, so only the output counts
+      const answer = parseSmtAnswer(stdout);
+      if (answer.status === "unknown" && stderr.trim())
+        answer.reason += ` (${stderr.trim().split("\n")[0]})`;
+      resolve(answer);
+    });
+    child.stdin.end(script);
+  });
+}
+
+export interface ProveOptions {
+  category?: string;
+  // Solver name or binary path; defaults to the first known solver on PATH
+  solver?: string;
+  timeoutMs?: number;
+}
+
+export interface ProveOutcome {
+  result: SearchResult;
+  // Solver name, or "builtin" when the fallback engines answered
+  engine: string;
+  // Why the external solver was not used
+  fallbackReason?: string;
+}
+
+export function proveBuiltin(ast: Expr, category = ""): SearchResult {
+  return usesSatSolver(category, ast)
+    ? checkPropositionalValidity(ast)
+    : searchCounterexample(ast);
+}
+
+export async function proveWithSolver(
+  ast: Expr,
+  options: ProveOptions = {},
+): Promise<ProveOutcome> {
+  const fallback = (fallbackReason: string): ProveOutcome => ({
+    result: proveBuiltin(ast, options.category),
+    engine: "builtin",
+    fallbackReason,
+  });
+
+  const solver = findSolver(options.solver);
+  if (!solver)
+    return fallback(
+      options.solver
+        ? `Solver '${options.solver}' not found`
+        : "No SMT solver found on PATH",
+    );
+
+  let script;
+  try {
+    script = printSmtLib(ast, { getModel: true });
+  } catch (e) {
+    if (e instanceof SmtLibError) return fallback(e.message);
+    throw e;
+  }
+
+  let answer: SmtAnswer;
+  try {
+    answer = await runSolver(solver, script.text, options.timeoutMs);
+  } catch (e) {
+    return fallback(`${solver.name} failed to start: ${(e as Error).message}`);
+  }
+
+  switch (answer.status) {
+    case "unsat":
+      return {
+        result: {
+          status: "proved",
+          method: "smt",
+          solver: solver.name,
+          checked: 0,
+        },
+        engine: solver.name,
+      };
+    case "sat": {
+      const names = new Set(script.constants.map((b) => b.name));
+      const counterexample = Object.fromEntries(
+        Object.entries(answer.model).filter(([name]) => names.has(name)),
+      );
+      return {
+        result: {
+          status: "disproved",
+          counterexample:
+            Object.keys(counterexample).length > 0 ? counterexample : null,
+          checked: 0,
+        },
+        engine: solver.name,
+      };
+    }
+    case "unknown":
+      return {
+        result: { status: "unknown", reason: answer.reason, checked: 0 },
+        engine: solver.name,
+      };
+  }
+}
+
+// Descriptor theorems go through the solver bridge; imported DIMACS instances have no
+// SMT-LIB form worth sending out and always use the built-in CDCL solver
+export async function proveRecord(
+  theorem: Pick<StoredTheorem, "category"> & TheoremStatement,
+  options: Omit<ProveOptions, "category"> = {},
+): Promise<ProveOutcome> {
+  if (theorem.descriptor) {
+    return proveWithSolver(theorem.descriptor.ast, {
+      ...options,
+      category: theorem.category,
+    });
+  }
+  if (theorem.cnf) {
+    return {
+      result: checkCnfUnsat(await loadCnf(theorem.cnf)),
+      engine: "builtin",
+    };
+  }
+  throw new Error("Theorem has no formal statement to search");
+}
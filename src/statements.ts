@@ -0,0 +1,78 @@
+// src/statements.ts
+// Theorem statements for the Node-side provers. Records keep a statement off-chain and only
+// carry its statementHash (frontend/web/src/store/recordSchema.ts); the owner shares it as
+// the JSON file the web app's Export Statement downloads.
+import fs from "fs";
+import path from "path";
+import {
+  StoredTheorem,
+  TheoremStatement,
+  recordStatement,
+  statementHash,
+  validateStatement,
+} from "../frontend/web/src/store/recordSchema";
+
+export function readStatementFile(file: string): TheoremStatement {
+  let value: unknown;
+  try {
+    value = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`${file} is not JSON: ${(e as Error).message}`);
+  }
+  const errors = validateStatement(value);
+  if (errors.length > 0)
+    throw new Error(`${file} is not a theorem statement: ${errors.join("; ")}`);
+  return value as TheoremStatement;
+}
+
+// The statement of `record`, published by it or read from `file`
+export function requireStatement(
+  theoremId: string,
+  record: Pick<StoredTheorem, "statementHash" | "publishedStatement">,
+  file?: string,
+): TheoremStatement {
+  const statement = recordStatement(
+    record,
+    file ? readStatementFile(file) : null,
+  );
+  if (statement) return statement;
+  if (!record.statementHash)
+    throw new Error(`Theorem ${theoremId} has no formal statement`);
+  throw new Error(
+    file
+      ? `${file} is not the statement of theorem ${theoremId} (hash ${record.statementHash})`
+      : `Theorem ${theoremId} keeps its statement off-chain; pass --statement with the file its owner exported`,
+  );
+}
+
+// The *.json statement files in a directory, by hash. Read again when a hash is missing,
+// so files shared while the worker runs are picked up.
+export class StatementDirectory {
+  private readonly statements = new Map<string, TheoremStatement>();
+  // Files that are not statements, reported once
+  private readonly skipped = new Set<string>();
+
+  constructor(
+    readonly dir: string,
+    private readonly log: (message: string) => void = console.log,
+  ) {}
+
+  find(hash: string): TheoremStatement | null {
+    if (!this.statements.has(hash)) this.scan();
+    return this.statements.get(hash) ?? null;
+  }
+
+  private scan() {
+    if (!fs.existsSync(this.dir)) return;
+    for (const name of fs.readdirSync(this.dir)) {
+      if (!name.endsWith(".json") || this.skipped.has(name)) continue;
+      try {
+        const statement = readStatementFile(path.join(this.dir, name));
+        this.statements.set(statementHash(statement), statement);
+      } catch (e) {
+        this.skipped.add(name);
+        this.log(`Skipping ${name}: ${(e as Error).message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// src/witness.ts
+// Counterexample witnesses from the Node-side provers: inputs are encrypted with the
+// fhevm hardhat plugin (mocked on hardhat/localhost, the relayer on Sepolia) and
+// TheoremProverFHE.storeWitness is sent by the task's signer.
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SearchResult } from "../frontend/web/src/prover/search";
+import type { EncryptedWitness } from "../frontend/web/src/ciphertexts";
+import {
+  WitnessVault,
+  storeWitness,
+  witnessOf,
+} from "../frontend/web/src/prover/witness";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+import type { TheoremStatement } from "../frontend/web/src/store/recordSchema";
+import type { StoredTheorem } from "./adapter";
+
+export async function hardhatWitnessVault(
+  hre: HardhatRuntimeEnvironment,
+  proverAddress: string,
+  signer: ethers.Signer,
+): Promise<WitnessVault> {
+  await hre.fhevm.initializeCLIApi();
+  return {
+    prover: TheoremProverFHE__factory.connect(proverAddress, signer),
+    sender: await signer.getAddress(),
+    createInput: (contractAddress, userAddress) =>
+      hre.fhevm.createEncryptedInput(contractAddress, userAddress),
+  };
+}
+
+// The encrypted counterexample to record with a disproof; undefined when there is nothing
+// to encrypt or no vault, in which case the record only says "disproved"
+export async function recordWitness(
+  vault: WitnessVault | undefined,
+  result: SearchResult,
+  record: Pick<StoredTheorem, "owner">,
+  statement: TheoremStatement,
+  log: (message: string) => void,
+): Promise<EncryptedWitness | undefined> {
+  const witness = witnessOf(result, statement.descriptor?.ast ?? null);
+  if (!witness || witness.bindings.length === 0) return undefined;
+  if (!vault) {
+    log(
+      "No TheoremProverFHE to encrypt the counterexample for; it is not recorded",
+    );
+    return undefined;
+  }
+  try {
+    const encrypted = await storeWitness(vault, witness, record.owner);
+    log(
+      `Counterexample encrypted for ${record.owner} in ${encrypted.witnessTx}`,
+    );
+    return encrypted;
+  } catch (e) {
+    log(`Counterexample not recorded: ${(e as Error).message}`);
+    return undefined;
+  }
+}
@@ -0,0 +1,55 @@
+// src/worker/cursor.ts
+// Persistent position of the prover worker in the event log. Written after every
+// processed log so a restart resumes exactly where the previous run stopped.
+import fs from "fs";
+import path from "path";
+
+export interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+// Proof requests whose theorem record was not in the adapter yet (the web app writes
+// it only after the submission transaction is mined)
+export interface PendingRequest {
+  requestId: string;
+  batchId: string;
+  transactionHash: string;
+  encryptedTheoremHash?: string;
+  attempts: number;
+}
+
+export interface WorkerState {
+  // Last fully processed log; null before the first one
+  cursor: LogPosition | null;
+  pending: PendingRequest[];
+  // encryptedTheoremHash of TheoremSubmitted, by transaction, until its
+  // ProofSearchInitiated (emitted later in the same transaction) is handled
+  submissions: Record<string, string>;
+}
+
+export const isAfter = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber > b.blockNumber ||
+  (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+export class CursorStore {
+  constructor(readonly file: string) {}
+
+  load(): WorkerState {
+    if (!fs.existsSync(this.file))
+      return { cursor: null, pending: [], submissions: {} };
+    // Cursors written before submissions were persisted lack them
+    return {
+      submissions: {},
+      ...JSON.parse(fs.readFileSync(this.file, "utf8")),
+    };
+  }
+
+  // Write-then-rename so a crash mid-write never leaves a truncated cursor behind
+  save(state: WorkerState) {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+    fs.renameSync(tmp, this.file);
+  }
+}
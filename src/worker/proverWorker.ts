@@ -0,0 +1,329 @@
+// src/worker/proverWorker.ts
+// Long-running prover: follows TheoremProverFHE's TheoremSubmitted / ProofSearchInitiated
+// logs, finds the theorem record the submission belongs to, runs the proof search and
+// writes its milestones and the result into the record, as startProving does in the browser.
+// Records keep their statements off-chain, so only theorems whose owners shared the
+// statement with this worker (StatementDirectory) can be proved.
+import { ethers } from "ethers";
+import { describeSearchResult } from "../../frontend/web/src/prover/search";
+import {
+  proofMilestone,
+  proofResultFields,
+  submissionKey,
+} from "../../frontend/web/src/prover/record";
+import { TheoremProverFHE__factory } from "../../types/factories/contracts/TheoremProverFHE__factory";
+import type { TheoremProverFHE } from "../../types/contracts/TheoremProverFHE";
+import { StoredTheorem, readRecord, writeRecord } from "../adapter";
+import { proveRecord } from "../solver/smtBridge";
+import { StatementDirectory } from "../statements";
+import { recordWitness } from "../witness";
+import {
+  TheoremStatement,
+  recordStatement,
+} from "../../frontend/web/src/store/recordSchema";
+import type { WitnessVault } from "../../frontend/web/src/prover/witness";
+import {
+  CursorStore,
+  LogPosition,
+  PendingRequest,
+  WorkerState,
+  isAfter,
+} from "./cursor";
+
+export interface ProverWorkerOptions {
+  proverAddress: string;
+  // UniversalAdapter connected to the signer that writes results
+  adapter: ethers.Contract;
+  provider: ethers.Provider;
+  store: CursorStore;
+  // First block to scan when the store has no cursor yet; defaults to the current head
+  startBlock?: number;
+  confirmations?: number;
+  pollIntervalMs?: number;
+  // Longest wait between polls after consecutive failures; the wait doubles from
+  // pollIntervalMs with every failure up to this
+  maxBackoffMs?: number;
+  maxBlockRange?: number;
+  // Polls to wait for the web app to write the record of a submission
+  maxAttempts?: number;
+  solver?: string;
+  solverTimeoutMs?: number;
+  // Encrypts counterexamples for theorem owners; without it disproofs carry no witness
+  witnessVault?: WitnessVault;
+  // Statements shared by theorem owners; without it only records written before
+  // statements went off-chain can be proved
+  statements?: StatementDirectory;
+  log?: (message: string) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export class ProverWorker {
+  private readonly contract: TheoremProverFHE;
+  private readonly topics: string[];
+  private state: WorkerState;
+  private stopped = false;
+
+  constructor(private readonly options: ProverWorkerOptions) {
+    this.contract = TheoremProverFHE__factory.connect(
+      options.proverAddress,
+      options.provider,
+    );
+    this.topics = [
+      this.contract.interface.getEvent("TheoremSubmitted").topicHash,
+      this.contract.interface.getEvent("ProofSearchInitiated").topicHash,
+    ];
+    this.state = options.store.load();
+  }
+
+  private log(message: string) {
+    (this.options.log ?? console.log)(message);
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  // Polls until stopped. A failed poll (RPC errors, a log that could not be handled) is
+  // logged and retried from the saved cursor after an exponential backoff.
+  async run() {
+    let failures = 0;
+    while (!this.stopped) {
+      try {
+        await this.poll();
+        failures = 0;
+      } catch (e) {
+        failures++;
+        this.log(
+          `Poll failed (${failures} in a row), retrying in ${this.retryDelay(failures) / 1000}s: ${(e as Error).message}`,
+        );
+      }
+      if (!this.stopped) await sleep(this.retryDelay(failures));
+    }
+  }
+
+  private retryDelay(failures: number) {
+    const { pollIntervalMs = 4000, maxBackoffMs = 300_000 } = this.options;
+    return Math.min(pollIntervalMs * 2 ** failures, maxBackoffMs);
+  }
+
+  // Process every log up to the confirmed head, then retry waiting requests
+  async poll() {
+    const { provider, confirmations = 0, maxBlockRange = 2000 } = this.options;
+    const head = (await provider.getBlockNumber()) - confirmations;
+    if (!this.state.cursor && this.options.startBlock === undefined) {
+      // Nothing to resume from: start at the head instead of replaying the chain
+      this.state.cursor = {
+        blockNumber: head,
+        logIndex: Number.MAX_SAFE_INTEGER,
+      };
+      this.save();
+      this.log(`No cursor yet, watching from block ${head + 1}`);
+    }
+
+    // The cursor block is scanned again; logs up to the cursor are skipped
+    let from = this.state.cursor?.blockNumber ?? this.options.startBlock!;
+    while (from <= head && !this.stopped) {
+      const to = Math.min(head, from + maxBlockRange - 1);
+      const logs = await provider.getLogs({
+        address: this.options.proverAddress,
+        fromBlock: from,
+        toBlock: to,
+        topics: [this.topics],
+      });
+      logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      for (const log of logs) {
+        const position: LogPosition = {
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+        };
+        if (this.state.cursor && !isAfter(position, this.state.cursor))
+          continue;
+        try {
+          await this.handle(log);
+        } catch (e) {
+          // The cursor stays before this log, so the next poll handles it again
+          throw new Error(
+            `Log ${log.index} of block ${log.blockNumber} (${log.transactionHash}): ${(e as Error).message}`,
+          );
+        }
+        this.state.cursor = position;
+        this.save();
+      }
+      this.state.cursor = {
+        blockNumber: to,
+        logIndex: Number.MAX_SAFE_INTEGER,
+      };
+      this.save();
+      from = to + 1;
+    }
+
+    await this.processPending();
+  }
+
+  private save() {
+    this.options.store.save(this.state);
+  }
+
+  private async handle(log: ethers.Log) {
+    const event = this.contract.interface.parseLog(log);
+    if (!event) return;
+
+    if (event.name === "TheoremSubmitted") {
+      this.state.submissions[log.transactionHash] =
+        event.args.encryptedTheoremHash;
+      this.log(
+        `Theorem submitted by ${event.args.provider} in batch ${event.args.batchId} (${log.transactionHash})`,
+      );
+      return;
+    }
+
+    // ProofSearchInitiated. A submission emits it right after TheoremSubmitted in the same
+    // transaction, whoever sent it (an account, a contract wallet or a relayer); without one
+    // it is a retried decryption (requestProofSearch) of a submission already handled
+    const encryptedTheoremHash = this.state.submissions[log.transactionHash];
+    if (encryptedTheoremHash === undefined) {
+      this.log(
+        `Request ${event.args.requestId} retries an earlier submission; skipping`,
+      );
+      return;
+    }
+    this.state.pending.push({
+      requestId: event.args.requestId.toString(),
+      batchId: event.args.batchId.toString(),
+      transactionHash: log.transactionHash,
+      encryptedTheoremHash,
+      attempts: 0,
+    });
+    delete this.state.submissions[log.transactionHash];
+    this.save();
+  }
+
+  private async processPending() {
+    if (this.state.pending.length === 0) return;
+    const { maxAttempts = 30 } = this.options;
+
+    for (const request of [...this.state.pending]) {
+      let match: { key: string; record: StoredTheorem } | null;
+      let done: boolean;
+      try {
+        match = await this.findRecord(request);
+        done = !!match && (await this.prove(match.key, match.record, request));
+      } catch (e) {
+        // Not counted as an attempt: the record may well be there
+        this.log(
+          `Request ${request.requestId} failed, retrying on the next poll: ${(e as Error).message}`,
+        );
+        continue;
+      }
+      if (done) {
+        // Proved, or nothing left to do
+      } else if (++request.attempts < maxAttempts) {
+        continue;
+      } else if (match) {
+        this.log(
+          `Gave up on request ${request.requestId}: the statement of ${match.key} was not shared with this worker`,
+        );
+      } else {
+        this.log(
+          `Gave up on request ${request.requestId}: no theorem record for ${request.transactionHash}`,
+        );
+      }
+      this.state.pending = this.state.pending.filter((p) => p !== request);
+      this.save();
+    }
+    this.save();
+  }
+
+  // The web app stores a submission's record under its on-chain id once the transaction
+  // is mined; the transaction hash guards against a record left by an earlier deployment
+  private async findRecord(request: PendingRequest) {
+    const submissionId = await this.contract.submissionOfRequest(
+      request.requestId,
+    );
+    if (submissionId === 0n) return null;
+    const key = submissionKey(this.options.proverAddress, submissionId);
+    const record = await readRecord(this.options.adapter, key);
+    if (
+      record?.submissionTx?.toLowerCase() !==
+      request.transactionHash.toLowerCase()
+    )
+      return null;
+    return { key, record };
+  }
+
+  private statementOf(record: StoredTheorem): TheoremStatement | null {
+    const shared = record.statementHash
+      ? this.options.statements?.find(record.statementHash)
+      : null;
+    return recordStatement(record, shared);
+  }
+
+  // False while the record's statement has not been shared with this worker
+  private async prove(
+    key: string,
+    record: StoredTheorem,
+    request: PendingRequest,
+  ): Promise<boolean> {
+    const { adapter } = this.options;
+    // A restart may replay a request whose search was already started by this worker
+    const resumed =
+      record.proofStatus === "proving" &&
+      record.proofRequestId === request.requestId;
+    if (record.proofStatus !== "pending" && !resumed) {
+      this.log(
+        `Theorem ${key} is already ${record.proofStatus}; skipping request ${request.requestId}`,
+      );
+      return true;
+    }
+    const statement = this.statementOf(record);
+    if (!statement) return false;
+
+    const base: StoredTheorem = {
+      ...record,
+      proofRequestId: request.requestId,
+      encryptedTheoremHash:
+        request.encryptedTheoremHash ?? record.encryptedTheoremHash,
+    };
+    const started = [proofMilestone("started")];
+    await writeRecord(adapter, key, {
+      ...base,
+      proofStatus: "proving",
+      milestones: started,
+    });
+    this.log(`Proving ${key} (request ${request.requestId})`);
+
+    try {
+      const outcome = await proveRecord(
+        { category: record.category, ...statement },
+        {
+          solver: this.options.solver,
+          timeoutMs: this.options.solverTimeoutMs,
+        },
+      );
+      const encryptedWitness = await recordWitness(
+        this.options.witnessVault,
+        outcome.result,
+        record,
+        statement,
+        (message) => this.log(`${key}: ${message}`),
+      );
+      await writeRecord(adapter, key, {
+        ...base,
+        ...proofResultFields(outcome.result, encryptedWitness),
+        milestones: [...started, proofMilestone("finished", outcome.engine)],
+      });
+      this.log(
+        `${key}: ${describeSearchResult(outcome.result)} [${outcome.engine}]`,
+      );
+    } catch (e) {
+      await writeRecord(adapter, key, {
+        ...base,
+        proofStatus: "error",
+        milestones: [...started, proofMilestone("finished")],
+      });
+      this.log(`${key}: proof search failed: ${(e as Error).message}`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,102 @@
+// tasks/admin.ts
+// TheoremProverFHE owner operations; each takes [--prover 0x...] and the signer options of
+// tasks/deploy.ts: [--keystore owner.json | --mnemonic [--path m/...]] [--password-fd 3] [--dry-run]
+// npx hardhat providers:add --network sepolia --provider 0x...
+// npx hardhat providers:remove --network sepolia --provider 0x...
+// npx hardhat batch:open --network sepolia
+// npx hardhat batch:close --network sepolia
+// npx hardhat cooldown:set --network sepolia --seconds 60
+// npx hardhat pause --network sepolia
+// npx hardhat unpause --network sepolia
+import { task, types } from "hardhat/config";
+import type { ConfigurableTaskDefinition } from "hardhat/types";
+import { ethers } from "ethers";
+import { TheoremProverFHE } from "../types/contracts/TheoremProverFHE";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+import { decodeProverError } from "../src/client/errors";
+import { requireDeployment } from "../src/manifest";
+import { printReceipt, taskReceipt } from "../src/receipt";
+import { SignerArgs, addSignerParams, taskSigner } from "../src/signer";
+
+// Parameters every owner task takes
+interface OwnerTaskArgs extends SignerArgs {
+  prover?: string;
+}
+
+// A task that sends one owner transaction and prints its receipt; reverts are reported
+// with the contract's custom error (NotOwner, PausedError, ...). Params types the task's own
+// parameters, which the caller declares on the returned definition.
+function ownerTask<Params extends object = object>(
+  name: string,
+  description: string,
+  send: (
+    prover: TheoremProverFHE,
+    args: Params,
+  ) => Promise<ethers.ContractTransactionResponse>,
+): ConfigurableTaskDefinition {
+  return addSignerParams(task(name, description))
+    .addOptionalParam(
+      "prover",
+      "TheoremProverFHE address (default: from deployments/<network>.json)",
+    )
+    .setAction(async (args: OwnerTaskArgs & Params, hre) => {
+      const address = requireDeployment(
+        hre,
+        "TheoremProverFHE",
+        args.prover,
+        "--prover",
+      );
+      const sender = await taskSigner(hre, args);
+      const prover = TheoremProverFHE__factory.connect(address, sender.signer);
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        receipt = await (await send(prover, args)).wait();
+      } catch (e) {
+        throw decodeProverError(prover.interface, e);
+      }
+      if (!receipt) throw new Error(`${name} transaction was not mined`);
+      printReceipt(
+        await taskReceipt(
+          hre,
+          name,
+          "TheoremProverFHE",
+          prover.interface,
+          address,
+          sender,
+          receipt,
+        ),
+      );
+    });
+}
+
+ownerTask<{ provider: string }>(
+  "providers:add",
+  "Register a theorem provider",
+  (prover, args) => prover.addProvider(args.provider),
+).addParam("provider", "Provider address");
+
+ownerTask<{ provider: string }>(
+  "providers:remove",
+  "Deregister a theorem provider",
+  (prover, args) => prover.removeProvider(args.provider),
+).addParam("provider", "Provider address");
+
+ownerTask("batch:open", "Open the next submission batch", (prover) =>
+  prover.openNewBatch(),
+);
+
+ownerTask("batch:close", "Close the current submission batch", (prover) =>
+  prover.closeCurrentBatch(),
+);
+
+ownerTask<{ seconds: number }>(
+  "cooldown:set",
+  "Set the per-account submission cooldown",
+  (prover, args) => prover.setCooldownSeconds(args.seconds),
+).addParam("seconds", "Cooldown in seconds", undefined, types.int);
+
+ownerTask("pause", "Pause theorem submissions", (prover) => prover.pause());
+
+ownerTask("unpause", "Resume theorem submissions", (prover) =>
+  prover.unpause(),
+);
@@ -0,0 +1,81 @@
+// tasks/deploy.ts
+// npx hardhat deploy:prover --network sepolia [--keystore deployer.json | --mnemonic [--path m/...]] [--password-fd 3] [--dry-run]
+// npx hardhat deploy:adapter --network sepolia [--keystore deployer.json | --mnemonic [--path m/...]] [--password-fd 3] [--dry-run]
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ethers } from "ethers";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+import { UniversalAdapter__factory } from "../types/factories/contracts/UniversalAdapter__factory";
+import { ContractName } from "../frontend/web/src/deployment";
+import { recordDeployment } from "../src/manifest";
+import { printReceipt, taskReceipt } from "../src/receipt";
+import { SignerArgs, addSignerParams, taskSigner } from "../src/signer";
+
+// A typechain factory class
+interface DeployFactory {
+  readonly abi: ethers.InterfaceAbi;
+  new (signer: ethers.Signer): {
+    readonly interface: ethers.Interface;
+    deploy(): Promise<{
+      getAddress(): Promise<string>;
+      deploymentTransaction(): ethers.ContractTransactionResponse | null;
+    }>;
+  };
+}
+
+async function deploy(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  contract: ContractName,
+  factory: DeployFactory,
+  args: SignerArgs,
+) {
+  const sender = await taskSigner(hre, args);
+  const contractFactory = new factory(sender.signer);
+  const deployed = await contractFactory.deploy();
+  const receipt = await deployed.deploymentTransaction()!.wait();
+  if (!receipt) throw new Error(`${contract} deployment was not mined`);
+  const address = await deployed.getAddress();
+  const manifest = sender.dryRun
+    ? null
+    : await recordDeployment(hre, contract, factory.abi, address, receipt);
+  printReceipt({
+    ...(await taskReceipt(
+      hre,
+      name,
+      contract,
+      contractFactory.interface,
+      address,
+      sender,
+      receipt,
+    )),
+    manifest,
+  });
+}
+
+addSignerParams(
+  task(
+    "deploy:prover",
+    "Deploy TheoremProverFHE; the signer becomes its owner",
+  ),
+).setAction(async (args, hre) =>
+  deploy(
+    hre,
+    "deploy:prover",
+    "TheoremProverFHE",
+    TheoremProverFHE__factory,
+    args,
+  ),
+);
+
+addSignerParams(
+  task("deploy:adapter", "Deploy the UniversalAdapter record store"),
+).setAction(async (args, hre) =>
+  deploy(
+    hre,
+    "deploy:adapter",
+    "UniversalAdapter",
+    UniversalAdapter__factory,
+    args,
+  ),
+);
@@ -0,0 +1,146 @@
+// tasks/prove.ts
+// npx hardhat prove:smt --theorem <id> [--statement statement.json] [--solver z3|cvc5|/path/to/bin] [--timeout 30] [--prover 0x...] [--export]
+// npx hardhat proof:check --theorem <id> [--statement statement.json] [--file certificate.json]
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { describeSearchResult } from "../frontend/web/src/prover/search";
+import {
+  proofMilestone,
+  proofResultFields,
+} from "../frontend/web/src/prover/record";
+import {
+  loadCertificate,
+  verifyCertificate,
+} from "../frontend/web/src/prover/certify";
+import { printSmtLib } from "../frontend/web/src/formats/smtlib";
+import { getAdapter, readRecord, writeRecord } from "../src/adapter";
+import { deployedAddress, requireDeployment } from "../src/manifest";
+import { proveRecord } from "../src/solver/smtBridge";
+import { requireStatement } from "../src/statements";
+import { hardhatWitnessVault, recordWitness } from "../src/witness";
+
+task(
+  "prove:smt",
+  "Prove a stored theorem with a local SMT solver and write the result back",
+)
+  .addParam("theorem", "Theorem id, without the theorem_ key prefix")
+  .addOptionalParam(
+    "statement",
+    "Statement file the theorem's owner exported (Export Statement in the web app)",
+  )
+  .addOptionalParam(
+    "solver",
+    "Solver name (z3, cvc5) or path to an SMT-LIB v2 binary",
+  )
+  .addOptionalParam("timeout", "Solver timeout in seconds", 30, types.int)
+  .addOptionalParam(
+    "adapter",
+    "UniversalAdapter address (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "prover",
+    "TheoremProverFHE address that encrypts counterexamples for the owner (default: from deployments/<network>.json)",
+  )
+  .addFlag("export", "Print the SMT-LIB script instead of proving")
+  .setAction(async (args, hre) => {
+    args.adapter = requireDeployment(
+      hre,
+      "UniversalAdapter",
+      args.adapter,
+      "--adapter",
+    );
+    args.prover ??= deployedAddress(hre, "TheoremProverFHE");
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer && !args.export)
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    const adapter = getAdapter(args.adapter, signer ?? hre.ethers.provider);
+
+    const record = await readRecord(adapter, args.theorem);
+    if (!record) throw new Error(`Theorem ${args.theorem} not found`);
+    const statement = requireStatement(args.theorem, record, args.statement);
+
+    if (args.export) {
+      if (!statement.descriptor)
+        throw new Error("Theorem has no formal statement to export");
+      console.log(
+        printSmtLib(statement.descriptor.ast, {
+          name: record.theoremName,
+          source: statement.descriptor.source,
+        }).text,
+      );
+      return;
+    }
+
+    const outcome = await proveRecord(
+      { category: record.category, ...statement },
+      {
+        solver: args.solver,
+        timeoutMs: args.timeout * 1000,
+      },
+    );
+    if (outcome.fallbackReason)
+      console.log(`${outcome.fallbackReason}; using the built-in engines`);
+    console.log(describeSearchResult(outcome.result));
+
+    const encryptedWitness = await recordWitness(
+      outcome.result.status === "disproved" && hre.ethers.isAddress(args.prover)
+        ? await hardhatWitnessVault(hre, args.prover, signer)
+        : undefined,
+      outcome.result,
+      record,
+      statement,
+      console.log,
+    );
+    const hash = await writeRecord(adapter, args.theorem, {
+      ...record,
+      ...proofResultFields(outcome.result, encryptedWitness),
+      milestones: [proofMilestone("finished", outcome.engine)],
+    });
+    console.log(`Record updated in ${hash}`);
+  });
+
+task(
+  "proof:check",
+  "Re-check the proof certificate of a stored theorem with the trusted checker",
+)
+  .addParam("theorem", "Theorem id, without the theorem_ key prefix")
+  .addOptionalParam(
+    "statement",
+    "Statement file the theorem's owner exported (Export Statement in the web app)",
+  )
+  .addOptionalParam(
+    "file",
+    "Certificate file to check instead of reproducing it with the built-in engines",
+  )
+  .addOptionalParam(
+    "adapter",
+    "UniversalAdapter address (default: from deployments/<network>.json)",
+  )
+  .setAction(async (args, hre) => {
+    args.adapter = requireDeployment(
+      hre,
+      "UniversalAdapter",
+      args.adapter,
+      "--adapter",
+    );
+    const adapter = getAdapter(args.adapter, hre.ethers.provider);
+    const record = await readRecord(adapter, args.theorem);
+    if (!record) throw new Error(`Theorem ${args.theorem} not found`);
+    const checked = {
+      ...record,
+      ...requireStatement(args.theorem, record, args.statement),
+    };
+
+    const { bytes, source } = args.file
+      ? { bytes: fs.readFileSync(args.file), source: args.file }
+      : {
+          bytes: await loadCertificate(args.theorem, checked),
+          source: "reproduced",
+        };
+    const result = await verifyCertificate(checked, bytes);
+    if (!result.ok)
+      throw new Error(`Certificate (${source}) rejected: ${result.error}`);
+    console.log(
+      `${result.summary} (${source}), hash ${record.certificateHash}`,
+    );
+  });
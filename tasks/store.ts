@@ -0,0 +1,140 @@
+// tasks/store.ts
+// npx hardhat store:reconcile --network sepolia [--adapter 0x...] [--from-block N] [--rescan] [--dry-run]
+// npx hardhat store:migrate-records --network sepolia [--adapter 0x...] [--prover 0x...] [--dry-run]
+import { task, types } from "hardhat/config";
+import { submissionKey } from "../frontend/web/src/prover/record";
+import {
+  SCHEMA_VERSION,
+  parseRecord,
+} from "../frontend/web/src/store/recordSchema";
+import { multicallFunction } from "../frontend/web/src/store/multicall";
+import {
+  openIndex,
+  reconcileIndex,
+} from "../frontend/web/src/store/theoremIndex";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+import { getAdapter, recordKey, writeRecord } from "../src/adapter";
+import {
+  deployedAddress,
+  deployedBlock,
+  requireDeployment,
+} from "../src/manifest";
+
+task(
+  "store:reconcile",
+  "Add theorem records missing from the paged theorem index and checkpoint it at the current block",
+)
+  .addOptionalParam(
+    "adapter",
+    "UniversalAdapter address (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan when the index has no checkpoint (default: the adapter's deployment block)",
+    undefined,
+    types.int,
+  )
+  .addFlag("rescan", "Scan from --from-block even past an existing checkpoint")
+  .addFlag("dryRun", "Report orphans without writing the index")
+  .setAction(async (args, hre) => {
+    args.adapter = requireDeployment(
+      hre,
+      "UniversalAdapter",
+      args.adapter,
+      "--adapter",
+    );
+    args.fromBlock ??= deployedBlock(hre, "UniversalAdapter");
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer && !args.dryRun)
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    const adapter = getAdapter(args.adapter, signer ?? hre.ethers.provider);
+
+    const report = await reconcileIndex(adapter, {
+      fromBlock: args.fromBlock,
+      rescan: args.rescan,
+      dryRun: args.dryRun,
+      onProgress: (block, toBlock) =>
+        console.log(`Scanned to block ${block}/${toBlock}`),
+    });
+    for (const id of report.orphans) console.log(`orphan   ${id}`);
+    for (const id of report.missing) console.log(`missing  ${id}`);
+    console.log(
+      `${report.orphans.length} orphaned, ${report.missing.length} without a record; ` +
+        `index ${args.dryRun ? "would hold" : "holds"} ${report.meta.count} ids through block ${report.meta.syncedBlock}`,
+    );
+  });
+
+task(
+  "store:migrate-records",
+  "Rewrite every theorem record stored at an older schema version in the current one",
+)
+  .addOptionalParam(
+    "adapter",
+    "UniversalAdapter address (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "prover",
+    "TheoremProverFHE address whose submission records are included (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan when the index has no checkpoint (default: the adapter's deployment block)",
+    undefined,
+    types.int,
+  )
+  .addFlag("dryRun", "Report what would be rewritten without writing")
+  .setAction(async (args, hre) => {
+    args.adapter = requireDeployment(
+      hre,
+      "UniversalAdapter",
+      args.adapter,
+      "--adapter",
+    );
+    args.prover ??= deployedAddress(hre, "TheoremProverFHE");
+    args.fromBlock ??= deployedBlock(hre, "UniversalAdapter");
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer && !args.dryRun)
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+    const adapter = getAdapter(args.adapter, signer ?? hre.ethers.provider);
+
+    // The same records the app lists: the off-chain index and the prover's submissions
+    const index = await openIndex(adapter, args.fromBlock);
+    const ids = await index.read(0, index.count);
+    if (hre.ethers.isAddress(args.prover)) {
+      const prover = TheoremProverFHE__factory.connect(
+        args.prover,
+        hre.ethers.provider,
+      );
+      const count = Number(await prover.submissionCount());
+      for (let id = 1; id <= count; id++)
+        ids.push(submissionKey(args.prover, id));
+    }
+
+    const stored = await multicallFunction<string>(
+      adapter,
+      "getData",
+      ids.map((id) => [recordKey(id)]),
+    );
+    let migrated = 0;
+    let quarantined = 0;
+    for (const [i, id] of ids.entries()) {
+      const parsed = parseRecord(stored[i] ?? "0x");
+      if (!parsed) continue;
+      if (!parsed.ok) {
+        quarantined++;
+        console.log(`invalid   ${id}: ${parsed.errors.join("; ")}`);
+        continue;
+      }
+      if (parsed.fromVersion === SCHEMA_VERSION) continue;
+      migrated++;
+      if (args.dryRun) {
+        console.log(`would migrate ${id} (v${parsed.fromVersion})`);
+        continue;
+      }
+      const hash = await writeRecord(adapter, id, parsed.record);
+      console.log(`migrated  ${id} (v${parsed.fromVersion}): ${hash}`);
+    }
+    console.log(
+      `${ids.length} records checked, ${migrated} ${args.dryRun ? "to migrate" : "migrated"} to v${SCHEMA_VERSION}, ${quarantined} invalid`,
+    );
+  });
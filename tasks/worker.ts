@@ -0,0 +1,103 @@
+// tasks/worker.ts
+// npx hardhat prover:worker --network localhost [--prover 0x...] [--statements shared/] [--from-block 0] [--once]
+import path from "path";
+import { task, types } from "hardhat/config";
+import { getAdapter } from "../src/adapter";
+import { requireDeployment } from "../src/manifest";
+import { CursorStore } from "../src/worker/cursor";
+import { ProverWorker } from "../src/worker/proverWorker";
+import { StatementDirectory } from "../src/statements";
+import { hardhatWitnessVault } from "../src/witness";
+
+task(
+  "prover:worker",
+  "Prove theorems submitted to TheoremProverFHE and write results to their records",
+)
+  .addOptionalParam(
+    "prover",
+    "TheoremProverFHE address (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "adapter",
+    "UniversalAdapter address (default: from deployments/<network>.json)",
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "First block to scan when there is no saved cursor (default: current head)",
+    undefined,
+    types.int,
+  )
+  .addOptionalParam(
+    "cursor",
+    "Cursor file (default: <cache>/prover-worker/<network>-<prover>.json)",
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks to wait before processing",
+    0,
+    types.int,
+  )
+  .addOptionalParam("interval", "Poll interval in seconds", 4, types.int)
+  .addOptionalParam(
+    "solver",
+    "Solver name (z3, cvc5) or path to an SMT-LIB v2 binary",
+  )
+  .addOptionalParam("timeout", "Solver timeout in seconds", 30, types.int)
+  .addOptionalParam(
+    "statements",
+    "Directory of statement files shared by theorem owners (Export Statement in the web app)",
+  )
+  .addFlag("once", "Catch up to the current head and exit")
+  .setAction(async (args, hre) => {
+    args.prover = requireDeployment(
+      hre,
+      "TheoremProverFHE",
+      args.prover,
+      "--prover",
+    );
+    args.adapter = requireDeployment(
+      hre,
+      "UniversalAdapter",
+      args.adapter,
+      "--adapter",
+    );
+    const [signer] = await hre.ethers.getSigners();
+    if (!signer)
+      throw new Error(`No signer configured for network ${hre.network.name}`);
+
+    const cursorFile =
+      args.cursor ??
+      path.join(
+        hre.config.paths.cache,
+        "prover-worker",
+        `${hre.network.name}-${args.prover.toLowerCase()}.json`,
+      );
+    const worker = new ProverWorker({
+      proverAddress: args.prover,
+      adapter: getAdapter(args.adapter, signer),
+      provider: hre.ethers.provider,
+      store: new CursorStore(cursorFile),
+      startBlock: args.fromBlock,
+      confirmations: args.confirmations,
+      pollIntervalMs: args.interval * 1000,
+      solver: args.solver,
+      solverTimeoutMs: args.timeout * 1000,
+      witnessVault: await hardhatWitnessVault(hre, args.prover, signer),
+      statements: args.statements
+        ? new StatementDirectory(args.statements)
+        : undefined,
+    });
+    console.log(
+      `Prover worker for ${args.prover} on ${hre.network.name}, cursor in ${cursorFile}`,
+    );
+
+    if (args.once) {
+      await worker.poll();
+      return;
+    }
+    process.once("SIGINT", () => {
+      console.log("Stopping after the current poll...");
+      worker.stop();
+    });
+    await worker.run();
+  });
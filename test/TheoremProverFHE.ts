@@ -0,0 +1,263 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ContractTransactionResponse } from "ethers";
+import { TheoremProverFHE } from "../types/contracts/TheoremProverFHE";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+
+// FHE.checkSignatures asks the KMSVerifier, which reverts with its own error when a
+// signature does not recover to a KMS signer
+const kmsVerifier = {
+  interface: new ethers.Interface([
+    "error KMSInvalidSigner(address invalidSigner)",
+  ]),
+};
+
+// TheoremProverFHE.SubmissionStatus
+const SEARCHING = 1n;
+const COMPLETED = 2n;
+
+describe("TheoremProverFHE", function () {
+  let owner: HardhatEthersSigner;
+  let stranger: HardhatEthersSigner;
+  let prover: TheoremProverFHE;
+  let proverAddress: string;
+
+  beforeEach(async function () {
+    [owner, stranger] = await ethers.getSigners();
+    prover = await new TheoremProverFHE__factory(owner).deploy();
+    proverAddress = await prover.getAddress();
+  });
+
+  async function encryptProgram(
+    words: number,
+    bools: number,
+    user: HardhatEthersSigner = owner,
+  ) {
+    const input = fhevm.createEncryptedInput(proverAddress, user.address);
+    for (let i = 0; i < words; i++) input.add32(i);
+    for (let i = 0; i < bools; i++) input.addBool(i % 2 === 0);
+    const { handles, inputProof } = await input.encrypt();
+    return {
+      words: handles.slice(0, words),
+      bools: handles.slice(words),
+      inputProof,
+    };
+  }
+
+  async function submit(
+    theoremId: number,
+    user: HardhatEthersSigner = owner,
+  ): Promise<{
+    tx: ContractTransactionResponse;
+    handles: Uint8Array[];
+    requestId: bigint;
+  }> {
+    const { words, bools, inputProof } = await encryptProgram(48, 8, user);
+    const tx = await prover
+      .connect(user)
+      .submitEncryptedTheorem(words, bools, inputProof, theoremId);
+    const receipt = await tx.wait();
+    const initiated = receipt!.logs
+      .map((log) => prover.interface.parseLog(log))
+      .find((event) => event?.name === "ProofSearchInitiated");
+    return {
+      tx,
+      handles: [...words, ...bools],
+      requestId: initiated!.args.requestId,
+    };
+  }
+
+  // Arguments the decryption oracle passed to myCallback for a completed request
+  async function callbackOf(requestId: bigint) {
+    const [completed] = await prover.queryFilter(
+      prover.filters.ProofSearchCompleted(requestId),
+    );
+    const tx = await ethers.provider.getTransaction(completed.transactionHash);
+    const [, cleartexts, proof] = prover.interface.decodeFunctionData(
+      "myCallback",
+      tx!.data,
+    );
+    return { cleartexts: cleartexts as string, proof: proof as string };
+  }
+
+  describe("submitEncryptedTheorem", function () {
+    for (const [words, bools] of [
+      [47, 8],
+      [49, 8],
+      [48, 7],
+      [48, 9],
+    ]) {
+      it(`rejects ${words} program words with ${bools} bools`, async function () {
+        const program = await encryptProgram(words, bools);
+        await expect(
+          prover.submitEncryptedTheorem(
+            program.words,
+            program.bools,
+            program.inputProof,
+            1,
+          ),
+        ).to.be.revertedWithCustomError(prover, "InvalidProgramLength");
+      });
+    }
+
+    it("only accepts programs from providers", async function () {
+      const program = await encryptProgram(48, 8, stranger);
+      await expect(
+        prover
+          .connect(stranger)
+          .submitEncryptedTheorem(
+            program.words,
+            program.bools,
+            program.inputProof,
+            1,
+          ),
+      ).to.be.revertedWithCustomError(prover, "NotProvider");
+    });
+  });
+
+  // _searchForProof is a placeholder: hasProof = theoremId is even, proofId = theoremId + 1000
+  for (const [theoremId, hasProof] of [
+    [42, true],
+    [7, false],
+  ] as const) {
+    it(`completes the search for theorem ${theoremId} through the decryption oracle`, async function () {
+      const { tx, handles, requestId } = await submit(theoremId);
+      await expect(tx)
+        .to.emit(prover, "TheoremSubmitted")
+        .withArgs(owner.address, 1n, ethers.keccak256(ethers.concat(handles)));
+      await expect(tx)
+        .to.emit(prover, "ProofSearchInitiated")
+        .withArgs(requestId, 1n);
+      expect(await prover.submissionOfRequest(requestId)).to.equal(1n);
+
+      const searching = await prover.getSubmission(1);
+      expect(searching.status).to.equal(SEARCHING);
+      expect(searching.theoremId).to.equal(BigInt(theoremId));
+      expect(searching.requestId).to.equal(requestId);
+      expect(searching.handles).to.deep.equal(handles.map(ethers.hexlify));
+      // The submitter can decrypt the result before the oracle reveals it
+      expect(
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          searching.proofId,
+          proverAddress,
+          owner,
+        ),
+      ).to.equal(BigInt(theoremId + 1000));
+      expect(
+        await fhevm.userDecryptEbool(searching.hasProof, proverAddress, owner),
+      ).to.equal(hasProof);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await prover.queryFilter(
+        prover.filters.ProofSearchCompleted(),
+      );
+      expect(completed.args.requestId).to.equal(requestId);
+      expect(completed.args.batchId).to.equal(1n);
+      expect(completed.args.hasProof).to.equal(hasProof);
+      expect(completed.args.proofId).to.equal(BigInt(theoremId + 1000));
+      const submission = await prover.getSubmission(1);
+      expect(submission.status).to.equal(COMPLETED);
+      expect(submission.revealedHasProof).to.equal(hasProof);
+      expect(submission.revealedProofId).to.equal(BigInt(theoremId + 1000));
+      expect(submission.completedAt).to.be.greaterThan(0n);
+    });
+  }
+
+  describe("myCallback", function () {
+    beforeEach(async function () {
+      await prover.setCooldownSeconds(0);
+    });
+
+    it("rejects a replayed answer", async function () {
+      const { requestId } = await submit(42);
+      await fhevm.awaitDecryptionOracle();
+      const { cleartexts, proof } = await callbackOf(requestId);
+      await expect(
+        prover.myCallback(requestId, cleartexts, proof),
+      ).to.be.revertedWithCustomError(prover, "ReplayAttempt");
+    });
+
+    it("rejects answers the KMS did not sign for the request", async function () {
+      const first = await submit(42);
+      await fhevm.awaitDecryptionOracle();
+      const { cleartexts, proof } = await callbackOf(first.requestId);
+
+      const second = await submit(8);
+      // A valid proof for another request's handles
+      await expect(
+        prover.myCallback(second.requestId, cleartexts, proof),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+      // A request that was never made has no ciphertexts to match
+      await expect(
+        prover.myCallback(second.requestId + 1n, cleartexts, proof),
+      ).to.be.revertedWithCustomError(prover, "StateMismatch");
+      // Cleartexts the proof does not cover
+      await expect(
+        prover.myCallback(
+          second.requestId,
+          ethers.AbiCoder.defaultAbiCoder().encode(
+            ["uint32", "bool"],
+            [1008, false],
+          ),
+          proof,
+        ),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+
+      // The genuine answer still completes the second submission
+      await fhevm.awaitDecryptionOracle();
+      const submission = await prover.getSubmission(2);
+      expect(submission.status).to.equal(COMPLETED);
+      expect(submission.revealedHasProof).to.equal(true);
+      expect(submission.revealedProofId).to.equal(1008n);
+    });
+  });
+
+  describe("requestProofSearch", function () {
+    it("asks the oracle again for a submission that is still searching", async function () {
+      const { requestId } = await submit(42);
+      // Reverts are checked with staticCall: the fhevm plugin fails an internal assertion
+      // when a sent transaction reverts in a modifier on the in-process network
+      await expect(
+        prover.requestProofSearch.staticCall(1),
+      ).to.be.revertedWithCustomError(prover, "CooldownActive");
+      await time.increase(61);
+      await expect(
+        prover.connect(stranger).requestProofSearch.staticCall(1),
+      ).to.be.revertedWithCustomError(prover, "NotProvider");
+      await expect(
+        prover.requestProofSearch.staticCall(2),
+      ).to.be.revertedWithCustomError(prover, "UnknownSubmission");
+
+      const tx = await prover.requestProofSearch(1);
+      const retry = requestId + 1n;
+      await expect(tx)
+        .to.emit(prover, "ProofSearchInitiated")
+        .withArgs(retry, 1n);
+      expect((await prover.getSubmission(1)).requestId).to.equal(retry);
+      expect(await prover.submissionOfRequest(retry)).to.equal(1n);
+
+      // Both requests are answered; only the first answer completes the submission
+      await fhevm.awaitDecryptionOracle();
+      const completed = await prover.queryFilter(
+        prover.filters.ProofSearchCompleted(),
+      );
+      expect(completed.map((event) => event.args.requestId)).to.deep.equal([
+        requestId,
+      ]);
+      expect((await prover.decryptionContexts(retry)).processed).to.equal(true);
+      const submission = await prover.getSubmission(1);
+      expect(submission.status).to.equal(COMPLETED);
+      expect(submission.revealedProofId).to.equal(1042n);
+
+      await time.increase(61);
+      await expect(
+        prover.requestProofSearch.staticCall(1),
+      ).to.be.revertedWithCustomError(prover, "SearchNotPending");
+    });
+  });
+});
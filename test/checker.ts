@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import { Expr, validateTheorem } from "../frontend/web/src/descriptor";
+import {
+  CERTIFICATE_VERSION,
+  ProofCertificate,
+  decodeCertificate,
+  encodeCertificate,
+} from "../frontend/web/src/prover/certificate";
+import { checkCertificate } from "../frontend/web/src/prover/checker";
+import {
+  checkCnfUnsat,
+  checkPropositionalValidity,
+} from "../frontend/web/src/prover/sat/validity";
+import { searchCounterexample } from "../frontend/web/src/prover/search";
+
+function parse(source: string): Expr {
+  const { ast, diagnostics } = validateTheorem(source);
+  expect(diagnostics.filter((d) => d.severity === "error")).to.deep.equal([]);
+  return ast!;
+}
+
+// A certificate as proof:check reads it back from its stored bytes
+function stored(result: ReturnType<typeof searchCounterexample>) {
+  if (result.status !== "proved" || !result.certificate)
+    throw new Error(`Expected a certificate, got ${result.status}`);
+  return decodeCertificate(encodeCertificate(result.certificate));
+}
+
+// Every clause over three variables: unsatisfiable, and not by unit propagation alone
+const allClauses = {
+  numVars: 3,
+  clauses: [0, 1, 2, 3, 4, 5, 6, 7].map((bits) =>
+    [1, 2, 3].map((v) => ((bits >> (v - 1)) & 1 ? v : -v)),
+  ),
+};
+
+describe("checkCertificate", function () {
+  describe("resolution", function () {
+    it("accepts the solver's refutation of a CNF", function () {
+      const certificate = stored(checkCnfUnsat(allClauses));
+      expect(certificate.kind).to.equal("resolution");
+      const result = checkCertificate({ cnf: allClauses }, certificate);
+      expect(result.ok).to.equal(true);
+      expect(result)
+        .to.have.property("summary")
+        .that.matches(/^Valid resolution refutation with \d+ lemmas$/);
+    });
+
+    it("accepts the refutation of a negated descriptor theorem", function () {
+      const ast = parse(
+        "forall p: Bool, q: Bool. not (p and q) iff (not p or not q)",
+      );
+      const certificate = stored(checkPropositionalValidity(ast));
+      expect(checkCertificate({ ast }, certificate)).to.include({ ok: true });
+    });
+
+    it("rejects lemmas that do not follow by unit propagation", function () {
+      const certificate: ProofCertificate = {
+        version: CERTIFICATE_VERSION,
+        kind: "resolution",
+        lemmas: [[]],
+      };
+      expect(checkCertificate({ cnf: allClauses }, certificate)).to.deep.equal({
+        ok: false,
+        error: "Lemma 1 (empty clause) does not follow by unit propagation",
+      });
+      expect(
+        checkCertificate(
+          { cnf: allClauses },
+          { ...certificate, lemmas: [[1, 2]] },
+        ),
+      ).to.deep.equal({
+        ok: false,
+        error: "Refutation does not end in the empty clause",
+      });
+    });
+
+    it("reads clauses with repeated literals and tautologies as the solver does", function () {
+      const cnf = {
+        numVars: 2,
+        clauses: [
+          [-2, -2, -1],
+          [-1, 2, 1],
+          [-2, 2, -2],
+          [1, -2],
+          [2, 2],
+        ],
+      };
+      const result = checkCnfUnsat(cnf);
+      if (result.status !== "proved") throw new Error(result.status);
+      expect(checkCertificate({ cnf }, result.certificate!)).to.include({
+        ok: true,
+      });
+    });
+  });
+
+  describe("rewriting", function () {
+    const ast = parse("forall x: Int. x * 1 = x and 0 + x = x");
+
+    it("accepts the chain found by search", function () {
+      const certificate = stored(
+        searchCounterexample(ast, { bound: 20, maxSteps: 100_000 }),
+      );
+      expect(certificate.kind).to.equal("rewriting");
+      expect(checkCertificate({ ast }, certificate)).to.deep.equal({
+        ok: true,
+        summary: "Valid rewriting chain of 6 steps",
+      });
+    });
+
+    it("rejects a chain that misapplies a rule or stops short", function () {
+      const certificate: ProofCertificate = {
+        version: CERTIFICATE_VERSION,
+        kind: "rewriting",
+        steps: [
+          { rule: "identity", path: [0, 0, 0] },
+          { rule: "refl", path: [0, 0] },
+        ],
+      };
+      expect(checkCertificate({ ast }, certificate)).to.deep.equal({
+        ok: false,
+        error: "Rewriting chain does not end in ⊤",
+      });
+      expect(
+        checkCertificate(
+          { ast },
+          { ...certificate, steps: [{ rule: "refl", path: [0, 0, 0] }] },
+        ),
+      ).to.deep.equal({
+        ok: false,
+        error: "Step 1: rule 'refl' does not apply at [0, 0, 0]",
+      });
+      expect(checkCertificate({ cnf: allClauses }, certificate)).to.deep.equal({
+        ok: false,
+        error: "A rewriting certificate needs a descriptor theorem",
+      });
+    });
+  });
+
+  describe("enumeration", function () {
+    const ast = parse("forall x: [0..5], y: [0..5]. x * y <= 25");
+
+    it("accepts the enumeration done by search", function () {
+      const certificate = stored(
+        searchCounterexample(ast, { bound: 20, maxSteps: 100_000 }),
+      );
+      expect(certificate).to.deep.equal({
+        version: CERTIFICATE_VERSION,
+        kind: "enumeration",
+        binders: ["x", "y"],
+        assignments: 36,
+      });
+      expect(checkCertificate({ ast }, certificate)).to.deep.equal({
+        ok: true,
+        summary: "Valid enumeration of 36 assignments",
+      });
+    });
+
+    it("re-evaluates the theorem instead of trusting the count", function () {
+      const certificate: ProofCertificate = {
+        version: CERTIFICATE_VERSION,
+        kind: "enumeration",
+        binders: ["x", "y"],
+        assignments: 36,
+      };
+      expect(
+        checkCertificate(
+          { ast: parse("forall x: [0..5], y: [0..5]. x * y < 25") },
+          certificate,
+        ),
+      ).to.deep.equal({ ok: false, error: "False at x = 5, y = 5" });
+      expect(
+        checkCertificate({ ast }, { ...certificate, assignments: 35 }),
+      ).to.deep.equal({
+        ok: false,
+        error: "Certificate claims 35 assignments but the domains have 36",
+      });
+      expect(
+        checkCertificate(
+          { ast: parse("forall x: Nat. x + 0 = x") },
+          { ...certificate, binders: ["x"] },
+        ),
+      ).to.deep.equal({
+        ok: false,
+        error: "'x' ranges over an infinite sort",
+      });
+    });
+
+    it("rejects a body that is only true on a truncated domain", function () {
+      const ast = parse("forall b: Bool. ((exists y: Nat. y > 100) = false)");
+      expect(
+        searchCounterexample(ast, { bound: 20, maxSteps: 100_000 }).status,
+      ).to.equal("bounded");
+
+      const result = checkCertificate(
+        { ast },
+        {
+          version: CERTIFICATE_VERSION,
+          kind: "enumeration",
+          binders: ["b"],
+          assignments: 2,
+        },
+      );
+      expect(result).to.deep.equal({
+        ok: false,
+        error: "Not decided exactly at b = false",
+      });
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { expect } from "chai";
+import {
+  printTheorem,
+  tokenize,
+  validateTheorem,
+} from "../frontend/web/src/descriptor";
+
+describe("tokenize", function () {
+  const values = (source: string) =>
+    tokenize(source)
+      .filter((token) => token.type !== "eof")
+      .map((token) => token.value);
+
+  it("reads '-- ' as the start of a line comment", function () {
+    expect(values("x > 0 -- positive\nand y")).to.deep.equal([
+      "x",
+      "gt",
+      "0",
+      "and",
+      "y",
+    ]);
+    expect(values("x > 0 --")).to.deep.equal(["x", "gt", "0"]);
+  });
+
+  it("reads '--' without a space as two minus signs", function () {
+    expect(values("x--1")).to.deep.equal(["x", "sub", "sub", "1"]);
+    expect(values("x-->y")).to.deep.equal(["x", "sub", "implies", "y"]);
+  });
+});
+
+describe("validateTheorem", function () {
+  it("keeps the terms after '--' in a subtraction", function () {
+    const { ast, diagnostics } = validateTheorem("forall x: Int. x >= 0--1");
+    expect(diagnostics).to.deep.equal([]);
+    expect(printTheorem(ast!)).to.equal("∀ x ∈ ℤ. x ≥ 0 - -1");
+  });
+});
@@ -0,0 +1,45 @@
+import { expect } from "chai";
+import { parseDimacs } from "../frontend/web/src/formats/dimacs";
+
+// The layout of the SATLIB uniform random 3-SAT benchmarks (uf20-91 and friends)
+const satlib = [
+  "c This Formular is generated by mcnf",
+  "c",
+  "c    horn? no ",
+  "c    forced? no ",
+  "c    mixed sat? no ",
+  "c    clause length = 3 ",
+  "c",
+  "p cnf 3  4 ",
+  " 1 -2 3 0",
+  "-1 2 0",
+  " 2 -3 0",
+  "-1 -2 -3 0",
+  "%",
+  "0",
+  "",
+].join("\n");
+
+describe("parseDimacs", function () {
+  it("stops at the SATLIB '%' trailer", function () {
+    const { cnf, errors } = parseDimacs(satlib);
+    expect(errors).to.deep.equal([]);
+    expect(cnf).to.deep.equal({
+      numVars: 3,
+      clauses: [
+        [1, -2, 3],
+        [-1, 2],
+        [2, -3],
+        [-1, -2, -3],
+      ],
+    });
+  });
+
+  it("reports a clause count mismatch at the last line read", function () {
+    const { cnf, errors } = parseDimacs("p cnf 2 3\n1 2 0\n-1 0\n\n");
+    expect(cnf).to.equal(null);
+    expect(errors).to.deep.equal([
+      { line: 3, message: "Header declares 3 clauses but 2 were found" },
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Contract, Provider } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { TheoremProverFHE__factory } from "../types/factories/contracts/TheoremProverFHE__factory";
+import { UniversalAdapter__factory } from "../types/factories/contracts/UniversalAdapter__factory";
+import {
+  BOOL_LANE_WIDTH,
+  PROGRAM_WIDTH,
+  validateTheorem,
+} from "../frontend/web/src/descriptor";
+import {
+  proverTheoremId,
+  submissionKey,
+} from "../frontend/web/src/prover/record";
+import {
+  SCHEMA_VERSION,
+  TheoremStatement,
+  statementHash,
+} from "../frontend/web/src/store/recordSchema";
+import { getAdapter, readRecord, writeRecord } from "../src/adapter";
+import { SubmissionReceipt, TheoremProverClient } from "../src/client";
+import { StatementDirectory } from "../src/statements";
+import { CursorStore, WorkerState } from "../src/worker/cursor";
+import { ProverWorker } from "../src/worker/proverWorker";
+
+// The in-process Hardhat network with one method failing the first `failures` times
+function flakyProvider(method: "getLogs", failures: number): Provider {
+  const provider = ethers.provider;
+  return new Proxy(provider, {
+    get(target, property, receiver) {
+      if (property === method)
+        return async (...args: unknown[]) => {
+          if (failures-- > 0) throw new Error(`${method} is unavailable`);
+          return (target[method] as (...a: unknown[]) => unknown)(...args);
+        };
+      const value = Reflect.get(target, property, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+// A cursor store whose save number `failing` (from 1) fails, as on a full disk
+class FlakyStore extends CursorStore {
+  private saves = 0;
+
+  constructor(
+    file: string,
+    private readonly failing: number,
+  ) {
+    super(file);
+  }
+
+  save(state: WorkerState) {
+    if (++this.saves === this.failing) throw new Error("disk is full");
+    super.save(state);
+  }
+}
+
+describe("ProverWorker", function () {
+  let owner: HardhatEthersSigner;
+  let proverAddress: string;
+  let adapter: Contract;
+  let dir: string;
+  let store: CursorStore;
+  let statements: StatementDirectory;
+  let messages: string[];
+
+  beforeEach(async function () {
+    [owner] = await ethers.getSigners();
+    const prover = await new TheoremProverFHE__factory(owner).deploy();
+    proverAddress = await prover.getAddress();
+    const universal = await new UniversalAdapter__factory(owner).deploy();
+    adapter = getAdapter(await universal.getAddress(), owner);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "prover-worker-"));
+    store = new CursorStore(path.join(dir, "cursor.json"));
+    statements = new StatementDirectory(path.join(dir, "statements"), () => {});
+    messages = [];
+  });
+
+  afterEach(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const worker = (
+    provider: Provider = ethers.provider,
+    cursors: CursorStore = store,
+  ) =>
+    new ProverWorker({
+      proverAddress,
+      adapter,
+      provider,
+      store: cursors,
+      statements,
+      startBlock: 0,
+      pollIntervalMs: 10,
+      maxBackoffMs: 40,
+      log: (message) => messages.push(message),
+    });
+
+  // Submits a program (its content does not matter to the worker) and writes the record
+  // and shared statement the web app and the theorem's owner would
+  async function submit(source: string): Promise<{
+    key: string;
+    receipt: SubmissionReceipt;
+  }> {
+    const input = fhevm.createEncryptedInput(proverAddress, owner.address);
+    for (let i = 0; i < PROGRAM_WIDTH; i++) input.add32(i);
+    for (let i = 0; i < BOOL_LANE_WIDTH; i++) input.addBool(false);
+    const { handles, inputProof } = await input.encrypt();
+    const receipt = await new TheoremProverClient(
+      proverAddress,
+      owner,
+    ).submitTheorem(
+      {
+        wordHandles: handles.slice(0, PROGRAM_WIDTH),
+        boolHandles: handles.slice(PROGRAM_WIDTH),
+        inputProof,
+      },
+      proverTheoremId(source),
+    );
+
+    const { ast } = validateTheorem(source);
+    const statement: TheoremStatement = {
+      salt: "0x0123456789abcdef",
+      descriptor: { source, ast: ast! },
+    };
+    fs.mkdirSync(statements.dir, { recursive: true });
+    fs.writeFileSync(
+      path.join(statements.dir, "statement.json"),
+      JSON.stringify(statement),
+    );
+    const key = submissionKey(proverAddress, receipt.submissionId);
+    await writeRecord(adapter, key, {
+      schemaVersion: SCHEMA_VERSION,
+      theoremName: source,
+      category: "Arithmetic",
+      owner: owner.address,
+      timestamp: Math.floor(Date.now() / 1000),
+      proofStatus: "pending",
+      encryptedTheorem: "",
+      statementHash: statementHash(statement),
+      submissionTx: receipt.transactionHash,
+    });
+    return { key, receipt };
+  }
+
+  it("proves a submitted theorem from its shared statement", async function () {
+    const { key, receipt } = await submit("forall x: Nat. x + 0 = x");
+    await worker().poll();
+
+    const record = await readRecord(adapter, key);
+    expect(record?.proofStatus).to.equal("proved");
+    expect(record?.proofRequestId).to.equal(receipt.requestId.toString());
+    expect(record?.encryptedTheoremHash).to.equal(receipt.encryptedTheoremHash);
+    // The public record commits to the certificate without carrying it
+    expect(record?.certificateHash).to.match(/^0x[0-9a-f]{64}$/);
+    expect(record?.searchResult).to.not.have.any.keys(
+      "certificate",
+      "drat",
+      "variables",
+    );
+    expect(record?.milestones?.map((m) => m.name)).to.deep.equal([
+      "started",
+      "finished",
+    ]);
+    expect(store.load().pending).to.deep.equal([]);
+  });
+
+  it("keeps a submission seen before a failed log across restarts", async function () {
+    const { key, receipt } = await submit("forall x: Nat. x * 1 = x");
+
+    // TheoremSubmitted is saved with the cursor, ProofSearchInitiated fails to save
+    let error: Error | undefined;
+    try {
+      await worker(ethers.provider, new FlakyStore(store.file, 2)).poll();
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.match(/disk is full/);
+    const saved = store.load();
+    expect(saved.pending).to.deep.equal([]);
+    expect(saved.submissions).to.deep.equal({
+      [receipt.transactionHash]: receipt.encryptedTheoremHash,
+    });
+
+    await worker().poll();
+    const record = await readRecord(adapter, key);
+    expect(record?.proofStatus).to.equal("proved");
+    expect(record?.encryptedTheoremHash).to.equal(receipt.encryptedTheoremHash);
+    expect(store.load().submissions).to.deep.equal({});
+  });
+
+  it("skips a retried decryption of a handled submission", async function () {
+    const { key, receipt } = await submit("forall x: Nat. x - 0 = x");
+    await worker().poll();
+    const prover = TheoremProverFHE__factory.connect(proverAddress, owner);
+    await (await prover.setCooldownSeconds(0)).wait();
+    await (await prover.requestProofSearch(receipt.submissionId)).wait();
+
+    await worker().poll();
+    expect(messages).to.include(
+      `Request ${receipt.requestId + 1n} retries an earlier submission; skipping`,
+    );
+    expect(store.load().pending).to.deep.equal([]);
+    expect((await readRecord(adapter, key))?.proofRequestId).to.equal(
+      receipt.requestId.toString(),
+    );
+  });
+
+  it("backs off and retries after failed polls", async function () {
+    const { key } = await submit("forall x: Nat. 0 + x = x");
+    const running = worker(flakyProvider("getLogs", 2));
+    const original = running.poll.bind(running);
+    running.poll = async () => {
+      await original();
+      running.stop();
+    };
+    await running.run();
+
+    expect(messages.filter((m) => m.startsWith("Poll failed"))).to.deep.equal([
+      "Poll failed (1 in a row), retrying in 0.02s: getLogs is unavailable",
+      "Poll failed (2 in a row), retrying in 0.04s: getLogs is unavailable",
+    ]);
+    expect((await readRecord(adapter, key))?.proofStatus).to.equal("proved");
+  });
+});
@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { Expr, validateTheorem } from "../frontend/web/src/descriptor";
+import {
+  RewriteRule,
+  applyRule,
+  rewriteToTrue,
+  sameExpr,
+} from "../frontend/web/src/prover/rewrite";
+
+function parse(source: string): Expr {
+  const { ast, diagnostics } = validateTheorem(source);
+  expect(diagnostics.filter((d) => d.severity === "error")).to.deep.equal([]);
+  return ast!;
+}
+
+// The expression a chain of steps ends in
+function replay(ast: Expr, steps: { rule: RewriteRule; path: number[] }[]) {
+  return steps.reduce<Expr>((expr, step) => applyRule(expr, step)!, ast);
+}
+
+describe("rewriteToTrue", function () {
+  it("folds identities bottom-up into ⊤", function () {
+    const ast = parse("forall x: Int. x * 1 = x and 0 + x = x");
+    expect(rewriteToTrue(ast)).to.deep.equal([
+      { rule: "identity", path: [0, 0, 0] },
+      { rule: "refl", path: [0, 0] },
+      { rule: "identity", path: [0, 1, 0] },
+      { rule: "refl", path: [0, 1] },
+      { rule: "logic", path: [0] },
+      { rule: "quant", path: [] },
+    ]);
+  });
+
+  it("evaluates ground terms and connectives", function () {
+    for (const source of [
+      "forall x: Nat. (-7) / 2 = -4 and (-7) mod 2 = 1",
+      "forall x: Nat. 5 / 0 = 0 and 5 mod 0 = 5",
+      "forall x: Nat. 2 ^ 10 = 1024",
+      "forall p: Bool. p or not p",
+      "forall p: Bool. not not (p implies p)",
+    ]) {
+      const ast = parse(source);
+      const steps = rewriteToTrue(ast);
+      expect(steps, source).to.not.equal(null);
+      expect(replay(ast, steps!), source).to.include({
+        kind: "bool",
+        value: true,
+      });
+    }
+  });
+
+  it("gets stuck on statements its rules do not cover", function () {
+    // False, and true but needing commutativity
+    for (const source of [
+      "forall x: Nat. x + 1 = x",
+      "forall x: Nat, y: Nat. x * y = y * x",
+    ]) {
+      expect(rewriteToTrue(parse(source)), source).to.equal(null);
+    }
+  });
+
+  it("stops after maxSteps rewrites", function () {
+    const ast = parse("forall x: Nat. x + 0 = x");
+    expect(rewriteToTrue(ast, 2)).to.equal(null);
+    expect(rewriteToTrue(ast, 3)).to.have.length(3);
+  });
+});
+
+describe("applyRule", function () {
+  const ast = parse("forall x: Nat. x + 0 = x");
+
+  it("rewrites the subterm at the path", function () {
+    const next = applyRule(ast, { rule: "identity", path: [0, 0] });
+    expect(sameExpr(next!, parse("forall x: Nat. x = x"))).to.equal(true);
+  });
+
+  it("returns null when the rule does not match there", function () {
+    expect(applyRule(ast, { rule: "identity", path: [0] })).to.equal(null);
+    expect(applyRule(ast, { rule: "refl", path: [0, 0] })).to.equal(null);
+    expect(applyRule(ast, { rule: "identity", path: [0, 0, 5] })).to.equal(
+      null,
+    );
+    expect(
+      applyRule(ast, { rule: "induction" as RewriteRule, path: [] }),
+    ).to.equal(null);
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { Expr, validateTheorem } from "../frontend/web/src/descriptor";
+import { CERTIFICATE_VERSION } from "../frontend/web/src/prover/certificate";
+import { checkCertificate } from "../frontend/web/src/prover/checker";
+import { Evaluator } from "../frontend/web/src/prover/evaluate";
+import { luby, solveCnf } from "../frontend/web/src/prover/sat/cdcl";
+import { Clause, Cnf } from "../frontend/web/src/prover/sat/cnf";
+import { isPropositional } from "../frontend/web/src/prover/sat/tseitin";
+import {
+  checkCnfUnsat,
+  checkPropositionalValidity,
+} from "../frontend/web/src/prover/sat/validity";
+
+function parse(source: string): Expr {
+  const { ast, diagnostics } = validateTheorem(source);
+  expect(diagnostics.filter((d) => d.severity === "error")).to.deep.equal([]);
+  return ast!;
+}
+
+// Deterministic xorshift32, so a failing instance can be reproduced from its index
+function random(seed: number): () => number {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 2 ** 32;
+  };
+}
+
+function randomCnf(next: () => number): Cnf {
+  const numVars = 1 + Math.floor(next() * 7);
+  const clauses: Clause[] = [];
+  const count = Math.floor(next() * numVars * 5);
+  for (let i = 0; i < count; i++) {
+    const clause: Clause = [];
+    const width = 1 + Math.floor(next() * 3);
+    for (let j = 0; j < width; j++) {
+      const v = 1 + Math.floor(next() * numVars);
+      clause.push(next() < 0.5 ? v : -v);
+    }
+    clauses.push(clause);
+  }
+  return { numVars, clauses };
+}
+
+const satisfies = (model: boolean[], cnf: Cnf) =>
+  cnf.clauses.every((clause) =>
+    clause.some((lit) => model[Math.abs(lit)] === lit > 0),
+  );
+
+function bruteForceSat(cnf: Cnf): boolean {
+  for (let bits = 0; bits < 1 << cnf.numVars; bits++) {
+    const model = [false];
+    for (let v = 1; v <= cnf.numVars; v++)
+      model.push(((bits >> (v - 1)) & 1) === 1);
+    if (satisfies(model, cnf)) return true;
+  }
+  return false;
+}
+
+// n + 1 pigeons in n holes; variable (p * n + h + 1) puts pigeon p in hole h
+function pigeonhole(n: number): Cnf {
+  const at = (p: number, h: number) => p * n + h + 1;
+  const clauses: Clause[] = [];
+  for (let p = 0; p <= n; p++)
+    clauses.push(Array.from({ length: n }, (_, h) => at(p, h)));
+  for (let h = 0; h < n; h++)
+    for (let p = 0; p <= n; p++)
+      for (let q = p + 1; q <= n; q++) clauses.push([-at(p, h), -at(q, h)]);
+  return { numVars: (n + 1) * n, clauses };
+}
+
+describe("CdclSolver", function () {
+  it("restarts on the Luby sequence", function () {
+    expect(Array.from({ length: 15 }, (_, i) => luby(i + 1))).to.deep.equal([
+      1, 1, 2, 1, 1, 2, 4, 1, 1, 2, 1, 1, 2, 4, 8,
+    ]);
+  });
+
+  it("agrees with brute force on random CNFs", function () {
+    const next = random(20240917);
+    const counts = { sat: 0, unsat: 0 };
+    for (let i = 0; i < 300; i++) {
+      const cnf = randomCnf(next);
+      const result = solveCnf(cnf);
+      const expected = bruteForceSat(cnf);
+      counts[expected ? "sat" : "unsat"]++;
+      expect(result.status, `instance ${i}`).to.equal(
+        expected ? "sat" : "unsat",
+      );
+      if (result.status === "sat") {
+        expect(satisfies(result.model, cnf), `model of instance ${i}`).to.equal(
+          true,
+        );
+      } else if (result.status === "unsat") {
+        const lemmas = result.proof
+          .filter((step) => step.kind === "add")
+          .map((step) => step.clause);
+        expect(
+          checkCertificate(
+            { cnf },
+            { version: CERTIFICATE_VERSION, kind: "resolution", lemmas },
+          ),
+          `refutation of instance ${i}`,
+        ).to.include({ ok: true });
+      }
+    }
+    // The instance mix exercises both answers
+    expect(counts.sat).to.be.greaterThan(100);
+    expect(counts.unsat).to.be.greaterThan(100);
+  });
+
+  it("refutes the pigeonhole principle with learned clauses", function () {
+    const result = solveCnf(pigeonhole(4));
+    expect(result.status).to.equal("unsat");
+    if (result.status !== "unsat") return;
+    expect(result.stats.conflicts).to.be.greaterThan(0);
+    expect(result.proof.at(-1)).to.deep.equal({ kind: "add", clause: [] });
+  });
+
+  it("gives up after maxConflicts", function () {
+    const result = solveCnf(pigeonhole(6), { maxConflicts: 10 });
+    expect(result.status).to.equal("unknown");
+    expect(result.stats.conflicts).to.equal(10);
+  });
+});
+
+describe("checkPropositionalValidity", function () {
+  it("proves tautologies through the Tseitin encoding of their negation", function () {
+    for (const source of [
+      "forall p: Bool, q: Bool. (p and q) implies p",
+      "forall p: Bool, q: Bool. not (p and q) iff (not p or not q)",
+      "forall p: Bool, q: Bool, r: Bool. ((p implies q) and (q implies r)) implies (p implies r)",
+    ]) {
+      const result = checkPropositionalValidity(parse(source));
+      expect(result, source).to.include({ status: "proved", method: "cdcl" });
+    }
+  });
+
+  it("returns a counterexample that falsifies the formula", function () {
+    const ast = parse("forall p: Bool, q: Bool, r: Bool. (p or q) implies r");
+    const result = checkPropositionalValidity(ast);
+    expect(result.status).to.equal("disproved");
+    if (result.status !== "disproved") return;
+    // Counterexamples to a propositional formula only assign booleans
+    const env = new Map(
+      Object.entries(result.counterexample!) as [string, boolean][],
+    );
+    const body = ast.kind === "quant" ? ast.body : ast;
+    expect(
+      new Evaluator({ bound: 0, maxSteps: 100 }).truth(body, env),
+    ).to.deep.equal({ value: false, exact: true });
+  });
+
+  it("leaves quantifiers over numbers to the other engines", function () {
+    const ast = parse("forall x: Nat. x + 0 = x");
+    expect(isPropositional(ast)).to.equal(false);
+    expect(checkPropositionalValidity(ast)).to.deep.equal({
+      status: "unknown",
+      reason: "Only quantifiers over Bool are propositional",
+      checked: 0,
+    });
+  });
+
+  it("refutes an imported CNF", function () {
+    const result = checkCnfUnsat(pigeonhole(3));
+    expect(result).to.include({ status: "proved", method: "cdcl" });
+    if (result.status !== "proved") return;
+    expect(result.drat?.at(-1)).to.deep.equal({ kind: "add", clause: [] });
+    expect(result.variables).to.equal(undefined);
+  });
+});
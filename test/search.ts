@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { Expr, validateTheorem } from "../frontend/web/src/descriptor";
+import {
+  Evaluator,
+  euclideanDiv,
+  euclideanMod,
+  power,
+} from "../frontend/web/src/prover/evaluate";
+import {
+  describeSearchResult,
+  searchCounterexample,
+} from "../frontend/web/src/prover/search";
+
+function parse(source: string): Expr {
+  const { ast, diagnostics } = validateTheorem(source);
+  expect(diagnostics.filter((d) => d.severity === "error")).to.deep.equal([]);
+  return ast!;
+}
+
+const truth = (source: string) =>
+  new Evaluator({ bound: 20, maxSteps: 100_000 }).truth(
+    parse(source),
+    new Map(),
+  );
+
+describe("Evaluator", function () {
+  it("divides and reduces like SMT-LIB", function () {
+    expect(euclideanDiv(-7n, 2n)).to.equal(-4n);
+    expect(euclideanMod(-7n, 2n)).to.equal(1n);
+    expect(euclideanDiv(7n, -2n)).to.equal(-3n);
+    expect(euclideanMod(7n, -2n)).to.equal(1n);
+    expect(euclideanDiv(5n, 0n)).to.equal(0n);
+    expect(euclideanMod(5n, 0n)).to.equal(5n);
+    expect(power(2n, -1n)).to.equal(0n);
+    expect(power(-3n, 3n)).to.equal(-27n);
+  });
+
+  it("marks results that a truncated domain could change", function () {
+    expect(truth("exists y: Nat. y = 3")).to.deep.equal({
+      value: true,
+      exact: true,
+    });
+    expect(truth("exists y: Nat. y > 100")).to.deep.equal({
+      value: false,
+      exact: false,
+    });
+    expect(truth("forall x: [0..3]. x < 4")).to.deep.equal({
+      value: true,
+      exact: true,
+    });
+    expect(truth("forall x: Int. x * x >= 0")).to.deep.equal({
+      value: true,
+      exact: false,
+    });
+  });
+
+  it("keeps the exactness of boolean operands of = and ≠", function () {
+    expect(truth("(exists y: Nat. y > 100) = true")).to.deep.equal({
+      value: false,
+      exact: false,
+    });
+    expect(truth("(exists y: Nat. y > 100) != true")).to.deep.equal({
+      value: true,
+      exact: false,
+    });
+    expect(truth("(exists y: Nat. y = 3) = true")).to.deep.equal({
+      value: true,
+      exact: true,
+    });
+  });
+});
+
+describe("searchCounterexample", function () {
+  const search = (source: string) =>
+    searchCounterexample(parse(source), { maxSteps: 100_000 });
+
+  it("proves by rewriting over all of ℕ", function () {
+    const result = search("forall x: Nat. x + 0 = x");
+    expect(result.status).to.equal("proved");
+    expect(result.status === "proved" && result.method).to.equal("rewriting");
+  });
+
+  it("proves finite theorems by exhaustive enumeration", function () {
+    const result = search("forall x: [0..5], y: [0..5]. x * y <= 25");
+    expect(result.status).to.equal("proved");
+    expect(result.status === "proved" && result.method).to.equal("exhaustive");
+    expect(result.checked).to.equal(36);
+  });
+
+  it("reports the first counterexample", function () {
+    expect(search("forall x: Nat. x < 10")).to.deep.include({
+      status: "disproved",
+      counterexample: { x: 10 },
+    });
+  });
+
+  it("only bounds theorems over ℕ/ℤ it cannot refute", function () {
+    const result = search("forall x: Nat. x * x >= x");
+    expect(result).to.deep.include({ status: "bounded", bound: 20 });
+    expect(describeSearchResult(result)).to.match(/^No counterexample up to/);
+  });
+
+  it("reports an unwitnessed ∃ as no witness found", function () {
+    const result = search("exists y: Nat. y > 100");
+    expect(result).to.deep.include({ status: "bounded", unwitnessed: true });
+    expect(describeSearchResult(result)).to.match(/^No witness found up to/);
+  });
+
+  for (const source of [
+    "(exists y: Nat. y > 100) = true",
+    "forall x: [0..1]. ((exists y: Nat. y > 100) = true)",
+    "forall b: Bool. ((exists y: Nat. y > 100) = false)",
+    "forall b: Bool. ((exists y: Nat. y > 100) != true)",
+  ]) {
+    it(`does not decide ${source} from a truncated ∃`, function () {
+      expect(search(source).status).to.equal("bounded");
+    });
+  }
+
+  it("runs out of budget instead of enumerating a huge range", function () {
+    const result = search("forall x: [0..2000000000]. x >= 0");
+    expect(result.status).to.equal("unknown");
+  });
+});
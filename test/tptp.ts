@@ -0,0 +1,38 @@
+import { expect } from "chai";
+import { printTptp, parseTptp } from "../frontend/web/src/formats/tptp";
+import { TPTP_SAMPLES } from "../frontend/web/src/formats/tptpSamples";
+
+// Spans point into the text they were parsed from, which differs between the sample and
+// its printed form
+function withoutSpans(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutSpans);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== "span")
+      .map(([key, v]) => [key, withoutSpans(v)]),
+  );
+}
+
+describe("TPTP samples", function () {
+  for (const sample of TPTP_SAMPLES) {
+    it(`${sample.name} survives a print and re-parse`, function () {
+      const parsed = parseTptp(sample.text);
+      expect(
+        parsed.diagnostics.filter((d) => d.severity === "error"),
+      ).to.deep.equal([]);
+      expect(parsed.ast).to.not.equal(null);
+
+      const printed = printTptp(parsed.ast!, parsed.name ?? sample.name);
+      const reparsed = parseTptp(printed);
+      expect(
+        reparsed.diagnostics.filter((d) => d.severity === "error"),
+        printed,
+      ).to.deep.equal([]);
+      expect(withoutSpans(reparsed.ast), printed).to.deep.equal(
+        withoutSpans(parsed.ast),
+      );
+      expect(reparsed.name).to.equal(parsed.name ?? sample.name);
+    });
+  }
+});
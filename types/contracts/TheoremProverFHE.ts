@@ -0,0 +1,1220 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace TheoremProverFHE {
+  export type TheoremSubmissionStruct = {
+    id: BigNumberish;
+    submitter: AddressLike;
+    batchId: BigNumberish;
+    theoremId: BigNumberish;
+    encryptedTheoremHash: BytesLike;
+    handles: BytesLike[];
+    status: BigNumberish;
+    requestId: BigNumberish;
+    proofId: BytesLike;
+    hasProof: BytesLike;
+    revealedProofId: BigNumberish;
+    revealedHasProof: boolean;
+    submittedAt: BigNumberish;
+    completedAt: BigNumberish;
+  };
+
+  export type TheoremSubmissionStructOutput = [
+    id: bigint,
+    submitter: string,
+    batchId: bigint,
+    theoremId: bigint,
+    encryptedTheoremHash: string,
+    handles: string[],
+    status: bigint,
+    requestId: bigint,
+    proofId: string,
+    hasProof: string,
+    revealedProofId: bigint,
+    revealedHasProof: boolean,
+    submittedAt: bigint,
+    completedAt: bigint
+  ] & {
+    id: bigint;
+    submitter: string;
+    batchId: bigint;
+    theoremId: bigint;
+    encryptedTheoremHash: string;
+    handles: string[];
+    status: bigint;
+    requestId: bigint;
+    proofId: string;
+    hasProof: string;
+    revealedProofId: bigint;
+    revealedHasProof: boolean;
+    submittedAt: bigint;
+    completedAt: bigint;
+  };
+}
+
+export interface TheoremProverFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BOOL_LANE_WIDTH"
+      | "MAX_PAGE_SIZE"
+      | "MAX_TEXT_CHUNK_WORDS"
+      | "MAX_TEXT_WORDS"
+      | "MAX_WITNESS_WIDTH"
+      | "PROGRAM_WIDTH"
+      | "addProvider"
+      | "batches"
+      | "closeCurrentBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "getSubmission"
+      | "getSubmissions"
+      | "getSubmissionsBySubmitter"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "myCallback"
+      | "openNewBatch"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "protocolId"
+      | "removeProvider"
+      | "requestProofSearch"
+      | "setCooldownSeconds"
+      | "storeEncryptedTheorem"
+      | "storeWitness"
+      | "submissionCount"
+      | "submissionOfRequest"
+      | "submitEncryptedTheorem"
+      | "submitterSubmissionCount"
+      | "transferOwnership"
+      | "unpause"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CooldownSecondsSet"
+      | "DecryptionFulfilled"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "ProofSearchCompleted"
+      | "ProofSearchInitiated"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "TheoremSubmitted"
+      | "TheoremTextStored"
+      | "Unpaused"
+      | "WitnessStored"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BOOL_LANE_WIDTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TEXT_CHUNK_WORDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TEXT_WORDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_WITNESS_WIDTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROGRAM_WIDTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeCurrentBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubmission",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubmissions",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubmissionsBySubmitter",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openNewBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestProofSearch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeEncryptedTheorem",
+    values: [BytesLike[][], BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "storeWitness",
+    values: [AddressLike, BytesLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submissionOfRequest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedTheorem",
+    values: [BytesLike[], BytesLike[], BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitterSubmissionCount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "BOOL_LANE_WIDTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TEXT_CHUNK_WORDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TEXT_WORDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_WITNESS_WIDTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROGRAM_WIDTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closeCurrentBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubmission",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubmissions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubmissionsBySubmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "openNewBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestProofSearch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeEncryptedTheorem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "storeWitness",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submissionOfRequest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedTheorem",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitterSubmissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProofSearchCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    hasProof: boolean,
+    proofId: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    hasProof: boolean,
+    proofId: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    hasProof: boolean;
+    proofId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProofSearchInitiatedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TheoremSubmittedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedTheoremHash: BytesLike
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedTheoremHash: string
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedTheoremHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TheoremTextStoredEvent {
+  export type InputTuple = [owner: AddressLike, textHash: BytesLike];
+  export type OutputTuple = [owner: string, textHash: string];
+  export interface OutputObject {
+    owner: string;
+    textHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WitnessStoredEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    recipient: AddressLike,
+    witnessHash: BytesLike
+  ];
+  export type OutputTuple = [
+    provider: string,
+    recipient: string,
+    witnessHash: string
+  ];
+  export interface OutputObject {
+    provider: string;
+    recipient: string;
+    witnessHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface TheoremProverFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): TheoremProverFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: TheoremProverFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BOOL_LANE_WIDTH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TEXT_CHUNK_WORDS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TEXT_WORDS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WITNESS_WIDTH: TypedContractMethod<[], [bigint], "view">;
+
+  PROGRAM_WIDTH: TypedContractMethod<[], [bigint], "view">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { id: bigint; isActive: boolean }],
+    "view"
+  >;
+
+  closeCurrentBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string, string, bigint] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        proofId: string;
+        hasProof: string;
+        submissionId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getSubmission: TypedContractMethod<
+    [submissionId: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput],
+    "view"
+  >;
+
+  getSubmissions: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput[]],
+    "view"
+  >;
+
+  getSubmissionsBySubmitter: TypedContractMethod<
+    [submitter: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput[]],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openNewBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  requestProofSearch: TypedContractMethod<
+    [submissionId: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  storeEncryptedTheorem: TypedContractMethod<
+    [chunks: BytesLike[][], inputProofs: BytesLike[]],
+    [string],
+    "nonpayable"
+  >;
+
+  storeWitness: TypedContractMethod<
+    [
+      recipient: AddressLike,
+      valueInput: BytesLike[],
+      flagInput: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submissionCount: TypedContractMethod<[], [bigint], "view">;
+
+  submissionOfRequest: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  submitEncryptedTheorem: TypedContractMethod<
+    [
+      programInput: BytesLike[],
+      boolInput: BytesLike[],
+      inputProof: BytesLike,
+      theoremId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitterSubmissionCount: TypedContractMethod<
+    [submitter: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BOOL_LANE_WIDTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TEXT_CHUNK_WORDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TEXT_WORDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WITNESS_WIDTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PROGRAM_WIDTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, boolean] & { id: bigint; isActive: boolean }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "closeCurrentBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, string, string, bigint] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        proofId: string;
+        hasProof: string;
+        submissionId: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubmission"
+  ): TypedContractMethod<
+    [submissionId: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubmissions"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubmissionsBySubmitter"
+  ): TypedContractMethod<
+    [submitter: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [TheoremProverFHE.TheoremSubmissionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openNewBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestProofSearch"
+  ): TypedContractMethod<[submissionId: BigNumberish], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeEncryptedTheorem"
+  ): TypedContractMethod<
+    [chunks: BytesLike[][], inputProofs: BytesLike[]],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "storeWitness"
+  ): TypedContractMethod<
+    [
+      recipient: AddressLike,
+      valueInput: BytesLike[],
+      flagInput: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submissionCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submissionOfRequest"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitEncryptedTheorem"
+  ): TypedContractMethod<
+    [
+      programInput: BytesLike[],
+      boolInput: BytesLike[],
+      inputProof: BytesLike,
+      theoremId: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitterSubmissionCount"
+  ): TypedContractMethod<[submitter: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProofSearchCompleted"
+  ): TypedContractEvent<
+    ProofSearchCompletedEvent.InputTuple,
+    ProofSearchCompletedEvent.OutputTuple,
+    ProofSearchCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProofSearchInitiated"
+  ): TypedContractEvent<
+    ProofSearchInitiatedEvent.InputTuple,
+    ProofSearchInitiatedEvent.OutputTuple,
+    ProofSearchInitiatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TheoremSubmitted"
+  ): TypedContractEvent<
+    TheoremSubmittedEvent.InputTuple,
+    TheoremSubmittedEvent.OutputTuple,
+    TheoremSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TheoremTextStored"
+  ): TypedContractEvent<
+    TheoremTextStoredEvent.InputTuple,
+    TheoremTextStoredEvent.OutputTuple,
+    TheoremTextStoredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WitnessStored"
+  ): TypedContractEvent<
+    WitnessStoredEvent.InputTuple,
+    WitnessStoredEvent.OutputTuple,
+    WitnessStoredEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "ProofSearchCompleted(uint256,uint256,bool,uint32)": TypedContractEvent<
+      ProofSearchCompletedEvent.InputTuple,
+      ProofSearchCompletedEvent.OutputTuple,
+      ProofSearchCompletedEvent.OutputObject
+    >;
+    ProofSearchCompleted: TypedContractEvent<
+      ProofSearchCompletedEvent.InputTuple,
+      ProofSearchCompletedEvent.OutputTuple,
+      ProofSearchCompletedEvent.OutputObject
+    >;
+
+    "ProofSearchInitiated(uint256,uint256)": TypedContractEvent<
+      ProofSearchInitiatedEvent.InputTuple,
+      ProofSearchInitiatedEvent.OutputTuple,
+      ProofSearchInitiatedEvent.OutputObject
+    >;
+    ProofSearchInitiated: TypedContractEvent<
+      ProofSearchInitiatedEvent.InputTuple,
+      ProofSearchInitiatedEvent.OutputTuple,
+      ProofSearchInitiatedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "TheoremSubmitted(address,uint256,bytes32)": TypedContractEvent<
+      TheoremSubmittedEvent.InputTuple,
+      TheoremSubmittedEvent.OutputTuple,
+      TheoremSubmittedEvent.OutputObject
+    >;
+    TheoremSubmitted: TypedContractEvent<
+      TheoremSubmittedEvent.InputTuple,
+      TheoremSubmittedEvent.OutputTuple,
+      TheoremSubmittedEvent.OutputObject
+    >;
+
+    "TheoremTextStored(address,bytes32)": TypedContractEvent<
+      TheoremTextStoredEvent.InputTuple,
+      TheoremTextStoredEvent.OutputTuple,
+      TheoremTextStoredEvent.OutputObject
+    >;
+    TheoremTextStored: TypedContractEvent<
+      TheoremTextStoredEvent.InputTuple,
+      TheoremTextStoredEvent.OutputTuple,
+      TheoremTextStoredEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "WitnessStored(address,address,bytes32)": TypedContractEvent<
+      WitnessStoredEvent.InputTuple,
+      WitnessStoredEvent.OutputTuple,
+      WitnessStoredEvent.OutputObject
+    >;
+    WitnessStored: TypedContractEvent<
+      WitnessStoredEvent.InputTuple,
+      WitnessStoredEvent.OutputTuple,
+      WitnessStoredEvent.OutputObject
+    >;
+  };
+}
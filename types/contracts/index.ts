@@ -2,4 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { AudioGuideFHE } from "./AudioGuideFHE";
+export type { TheoremProverFHE } from "./TheoremProverFHE";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,1204 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  TheoremProverFHE,
+  TheoremProverFHEInterface,
+} from "../../contracts/TheoremProverFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProgramLength",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTextLength",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidWitnessLength",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SearchNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownSubmission",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "hasProof",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "proofId",
+        type: "uint32",
+      },
+    ],
+    name: "ProofSearchCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "ProofSearchInitiated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedTheoremHash",
+        type: "bytes32",
+      },
+    ],
+    name: "TheoremSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "textHash",
+        type: "bytes32",
+      },
+    ],
+    name: "TheoremTextStored",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "witnessHash",
+        type: "bytes32",
+      },
+    ],
+    name: "WitnessStored",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "BOOL_LANE_WIDTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TEXT_CHUNK_WORDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TEXT_WORDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_WITNESS_WIDTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROGRAM_WIDTH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeCurrentBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "euint32",
+        name: "proofId",
+        type: "bytes32",
+      },
+      {
+        internalType: "ebool",
+        name: "hasProof",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "getSubmission",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "submitter",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "theoremId",
+            type: "uint32",
+          },
+          {
+            internalType: "bytes32",
+            name: "encryptedTheoremHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32[]",
+            name: "handles",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "enum TheoremProverFHE.SubmissionStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "proofId",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "hasProof",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "revealedProofId",
+            type: "uint32",
+          },
+          {
+            internalType: "bool",
+            name: "revealedHasProof",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "submittedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "completedAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct TheoremProverFHE.TheoremSubmission",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSubmissions",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "submitter",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "theoremId",
+            type: "uint32",
+          },
+          {
+            internalType: "bytes32",
+            name: "encryptedTheoremHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32[]",
+            name: "handles",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "enum TheoremProverFHE.SubmissionStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "proofId",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "hasProof",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "revealedProofId",
+            type: "uint32",
+          },
+          {
+            internalType: "bool",
+            name: "revealedHasProof",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "submittedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "completedAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct TheoremProverFHE.TheoremSubmission[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSubmissionsBySubmitter",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "submitter",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "theoremId",
+            type: "uint32",
+          },
+          {
+            internalType: "bytes32",
+            name: "encryptedTheoremHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32[]",
+            name: "handles",
+            type: "bytes32[]",
+          },
+          {
+            internalType: "enum TheoremProverFHE.SubmissionStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "euint32",
+            name: "proofId",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "hasProof",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint32",
+            name: "revealedProofId",
+            type: "uint32",
+          },
+          {
+            internalType: "bool",
+            name: "revealedHasProof",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "submittedAt",
+            type: "uint64",
+          },
+          {
+            internalType: "uint64",
+            name: "completedAt",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct TheoremProverFHE.TheoremSubmission[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openNewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "submissionId",
+        type: "uint256",
+      },
+    ],
+    name: "requestProofSearch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[][]",
+        name: "chunks",
+        type: "bytes32[][]",
+      },
+      {
+        internalType: "bytes[]",
+        name: "inputProofs",
+        type: "bytes[]",
+      },
+    ],
+    name: "storeEncryptedTheorem",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "textHash",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "valueInput",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEbool[]",
+        name: "flagInput",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "storeWitness",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "submissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "submissionOfRequest",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32[]",
+        name: "programInput",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "externalEbool[]",
+        name: "boolInput",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint32",
+        name: "theoremId",
+        type: "uint32",
+      },
+    ],
+    name: "submitEncryptedTheorem",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "submitterSubmissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6040608081523462000227575f6060620000186200022b565b82815282602082015282848201520152620000326200022b565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918286820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f5260019081602052805f2060ff19908382825416179055337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a260068390558151908183016001600160401b038111838210176200021357835283825260ff846020840193818552815f526007602052855f2090518155019251151591835416911617905551907fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2603c60035561280b90816200024c8239f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b60405190608082016001600160401b03811183821017620002135760405256fe60e0806040526004361015610012575f80fd5b5f3560e01c9081630813f987146117dc575080630a763da1146117bf5780630e48425814611795578063124bd04b146117405780632606f27a146117255780633e8686cc146116035780633f4ba83a146115ac57806346e2577a1461153657806348f4da201461151b57806350e0415b146114ff5780635a80489b146113785780635a94a079146113405780635c975abb1461131e5780635ec08d99146112bd5780636647f533146112a2578063690558b0146112875780636b074a071461124a5780636ec02be91461122d5780637b5b1157146111ce5780638456cb591461116b57806387a4456414610fde5780638a355a5714610f6c5780638da5cb5b14610f455780639751628914610f0d578063a3e2503514610cf4578063a436547614610cbc578063b2a6d45f14610ca1578063b32c4d8d14610c69578063b65e894114610c03578063b8221bc414610be6578063d655bddb14610af0578063da1f12ab14610ad4578063f02f87a314610543578063f2fde38b146104c45763f330fb681461019d575f80fd5b34610438576080366003190112610438576101b6611a56565b6001600160401b03602435818111610438576101d6903690600401611acf565b604492919235828111610438576101f1903690600401611acf565b90926064359081116104385761020b903690600401611aff565b9160ff600254166104b2576001600160a01b0387163314158061049b575b61048957610237818561203a565b8015801561047e575b61046c5761024d90611b51565b955f5b8581106103175750505f5b8181106102c6578787604051610287816102796020820180956120b0565b03601f1981018352826118de565b5190206040519081526001600160a01b039091169033907fbcbdd3c3246f019bdc86ee2009d5ebe9417ca64daa598637206ebde503c3017c90602090a3005b806102e96102d7600193858a6120a0565b356102e33688886118ff565b906126b6565b6102f3308261276a565b6102fd8a8261276a565b61031061030a838961203a565b8a611bb4565b520161025b565b8061032661037e9288856120a0565b356103323688886118ff565b5f805160206127bf8339815191525460405163196d0b9b60e01b8152600481019390935233602484015260806044840152919384926001600160a01b0316918391906084830190612593565b9160056064830152815f602097889503925af192831561042d575f9361043c575b50505f805160206127df833981519152546001600160a01b031691823b1561043857604051630f8e573b60e21b815260048101829052336024820152925f908490604490829084905af192831561042d5760019361041e575b50610403308261276a565b61040d8b8261276a565b610417828b611bb4565b5201610250565b610427906118b0565b5f6103f8565b6040513d5f823e3d90fd5b5f80fd5b9080929350813d8311610465575b61045481836118de565b810103126104385751905f8061039f565b503d61044a565b60405163d4b452a360e01b8152600490fd5b506101008111610240565b604051631a40715960e11b8152600490fd5b50335f52600160205260ff60405f20541615610229565b604051633b3b4caf60e21b8152600490fd5b34610438576020366003190112610438576104dd611a56565b5f54906001600160a01b038083169133839003610531571680926bffffffffffffffffffffffff60a01b16175f557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b6040516330cd747160e01b8152600490fd5b34610438576080366003190112610438576004356001600160401b03811161043857610573903690600401611acf565b906024356001600160401b03811161043857610593903690600401611acf565b92906044356001600160401b038111610438576105b4903690600401611aff565b906064359563ffffffff8716870361043857335f52600160205260ff60405f205416156104895760ff600254166104b257335f5260046020526105fe60405f20546003549061203a565b4210610ac25760308514801590610ab7575b610aa5576006545f52600760205260ff600160405f2001541615610a935760405195866107208101106001600160401b0361072089011117610989576107208701604052603887526107003660208901375f955f5b60308110610a31575050505f5b600881106109d757878787335f5260046020524260405f205560405160208101906106a18161027984876120b0565b5190206106af600954611b2c565b9384600955845f52600a60205260405f209085825560018201336bffffffffffffffffffffffff60a01b825416179055600654600283015563ffffffff60038301911663ffffffff19825416179055816004820155600581018451906001600160401b03821161098957600160401b958683116109895781548383558084106109b1575b50602001905f5260205f205f5b83811061099d5750505050600a0180546cffffffffffffffff00000000004260281b16906cffffffffffffffff00000000001916179055335f52600b60205260405f2080549384101561098957836107a09160016107e996018155612047565b81549060031b9086821b915f19901b1916179055600654906040519081527fe31167f66224fab916951512c43a8bd29452c86eda837062b51ed44f0b83801560203392a3612194565b805f52600a60205260405f20905f6003830154600181161582146109835760015b60018060a01b03905f805160206127bf8339815191529260208385541660446040518098819360ff639cd07acb60e01b988985521660048401528160248401525af194851561042d575f9561094b575b5063ffffffff6103e891160163ffffffff81116109375760446020925f8563ffffffff97541660405197889586948552166004840152600460248401525af191821561042d575f926108ff575b50936009916108e06108fd966108bd308761276a565b6108c7308461276a565b600184016108d8828254168861276a565b54168261276a565b60068201805460ff191660011790556008820155015532906121e0565b005b9150936020823d60201161092f575b8161091b602093836118de565b8101031261043857905190936108fd6108a7565b3d915061090e565b634e487b7160e01b5f52601160045260245ffd5b9094506020813d60201161097b575b81610967602093836118de565b8101031261043857519363ffffffff61085a565b3d915061095a565b8161080a565b634e487b7160e01b5f52604160045260245ffd5b600190602084519401938184015501610740565b825f528360205f2091820191015b8181106109cc5750610733565b5f81556001016109bf565b6109f16109e58284886120a0565b356102e33687876118ff565b906109fb82612194565b610a05308361276a565b610a0f338361276a565b8060300160301161093757600191610a2a826030018a611bb4565b5201610672565b610a51610a3f8284866120a0565b35610a4b3689896118ff565b906125b8565b610a5a81612194565b610a64308261276a565b610a6e338261276a565b80610a79838c611bb4565b528115610a8a575b50600101610665565b97506001610a81565b604051635ae7a89560e11b8152600490fd5b6040516302c7d20d60e31b8152600490fd5b506008811415610610565b60405163aa9a98df60e01b8152600490fd5b34610438575f3660031901126104385760206040516127118152f35b346104385760203660031901126104385760043560ff600254166104b257335f526005602052610b2760405f20546003549061203a565b4210610ac25780158015610bdb575b610bc957805f52600a60205260405f2060018060a01b0360018201541633141580610bb2575b610489576006015460ff166003811015610b9e57600103610b8c57610b8460209133906121e0565b604051908152f35b60405163056cbdeb60e11b8152600490fd5b634e487b7160e01b5f52602160045260245ffd5b50335f52600160205260ff60405f20541615610b5c565b604051634015ee3b60e01b8152600490fd5b506009548111610b36565b34610438575f366003190112610438576020600354604051908152f35b34610438576020366003190112610438576004355f52600860205260c060405f2080549060018101549060ff60028201541660038201549060056004840154930154936040519586526020860152151560408501526060840152608083015260a0820152f35b34610438576020366003190112610438576004355f5260076020526040805f2060ff6001825492015416825191825215156020820152f35b34610438575f36600319011261043857602060405160408152f35b34610438576020366003190112610438576001600160a01b03610cdd611a56565b165f526004602052602060405f2054604051908152f35b34610438576040366003190112610438576001600160401b0360043581811161043857610d25903690600401611acf565b9060249260243581811161043857610d41903690600401611acf565b949060ff600254166104b25784158015610f03575b610ea1575f805b868110610eb3575060c08111610ea157610d7690611b51565b945f925f915b808310610dd057602088604051610d9a8161027985820180956120b0565b5190206040518181527f51fb974068678499040309a1ad8ba149dae8720a18fc33e42e531f5998650a48833392a2604051908152f35b5f9796975b610de084838b61205c565b9050811015610e9257610dfe81610df886858d61205c565b906120a0565b35908a851015610e7f578460051b860135601e1987360301811215610438578601918235928984116104385760200190833603821361043857610a4b610e489260019536916118ff565b610e5181612194565b610e5b308261276a565b610e65338261276a565b610e78610e7189611b2c565b988b611bb4565b5201610dd5565b83634e487b7160e01b5f5260326004525ffd5b50916001909796970191610d7c565b604051639e0470af60e01b8152600490fd5b90610ebf82888861205c565b9050158015610eed575b610ea157610ee6600191610ede848a8a61205c565b91905061203a565b9101610d5d565b506040610efb83898961205c565b905011610ec9565b5085851415610d56565b34610438576020366003190112610438576001600160a01b03610f2e611a56565b165f52600b602052602060405f2054604051908152f35b34610438575f366003190112610438575f546040516001600160a01b039091168152602090f35b3461043857602036600319011261043857610f85611a56565b5f546001600160a01b039190821633036105315716805f52600160205260405f20805460ff8116610fb257005b60ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b3461043857606036600319011261043857610ff7611a56565b602480359160018060a01b03165f52600b60205260405f209061101e604435848454612153565b9161102883611feb565b935f5b84811061104457604051806110408882611a6c565b0390f35b611057611051828461203a565b84612047565b9054600391821b1c5f52600a60205260405f206040519161107783611894565b8154835260018201546001600160a01b03166020840152600282015460408401528082015463ffffffff166060840152600482015460808401526110bd60058301611f9b565b60a084015260ff60068301541690811015611158578291600a9160c0600196950152600781015460e084015260088101546101008401526009810154610120840152015463ffffffff811661014083015260ff8160201c1615156101608301526001600160401b0390818160281c1661018084015260681c166101a08201526111468289611bb4565b526111518188611bb4565b500161102b565b86634e487b7160e01b5f5260216004525ffd5b34610438575f366003190112610438575f546001600160a01b031633036105315760025460ff81166104b25760019060ff1916176002557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b34610438576020366003190112610438575f54600435906001600160a01b031633036105315760407f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391600354908060035582519182526020820152a1005b34610438575f366003190112610438576020600954604051908152f35b34610438576020366003190112610438576001600160a01b0361126b611a56565b165f526001602052602060ff60405f2054166040519015158152f35b34610438575f36600319011261043857602060405160088152f35b34610438575f36600319011261043857602060405160308152f35b34610438575f366003190112610438575f546001600160a01b0316330361053157600654805f526007602052600160405f200160ff1981541690557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a2005b34610438575f36600319011261043857602060ff600254166040519015158152f35b34610438576020366003190112610438576001600160a01b03611361611a56565b165f526005602052602060405f2054604051908152f35b346104385760403660031901126104385760043560246009906113a060243584600954612153565b906113aa82611feb565b925f945b8386106113c357604051806110408782611a6c565b6113cd868261203a565b956001968781018091116114ec575f52600a96602088815260405f20604051926113f684611894565b815484528101546001600160a01b0316828401526002810154604084015260038082015463ffffffff908116606086015260048301546080860152909a61143f60058401611f9b565b60a086015260ff92836006820154169c8d10156114d95760019798999a9b9c60c0870152600781015460e0870152600881015461010087015289810154610120870152015492839182166101408601521c1615156101608301526001600160401b0390818160281c1661018084015260681c166101a08201526114c28289611bb4565b526114cd8188611bb4565b500194939291906113ae565b89634e487b7160e01b5f5260216004525ffd5b84634e487b7160e01b5f5260116004525ffd5b34610438575f3660031901126104385760206040516101008152f35b34610438575f36600319011261043857602060405160648152f35b346104385760203660031901126104385761154f611a56565b5f546001600160a01b039190821633036105315716805f52600160205260405f20805460ff81161561157d57005b60ff191660011790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610438575f366003190112610438575f546001600160a01b031633036105315760ff19600254166002557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b346104385760208060031936011261043857600435611620611f34565b508015801561171a575b610bc9575f52600a815260405f20906040519161164683611894565b8054835260018101546001600160a01b03168284015260028101546040840152600381015463ffffffff9081166060850152600482015460808501529061168f60058201611f9b565b60a085015260ff600682015416906003821015610b9e57600a9160c0860152600781015460e086015260088101546101008601526009810154610120860152015490811661014084015260ff81831c1615156101608401526001600160401b0390818160281c1661018085015260681c166101a0830152611040604051928284938452830190611962565b50600954811161162a565b34610438575f36600319011261043857602060405160c08152f35b34610438576060366003190112610438576001600160401b0360243581811161043857611771903690600401611944565b6044359182116104385761178c6108fd923690600401611944565b90600435611bd5565b34610438576020366003190112610438576004355f52600c602052602060405f2054604051908152f35b34610438575f366003190112610438576020600654604051908152f35b34610438575f366003190112610438575f546001600160a01b0316330361188557611808600654611b2c565b8060065560405160408101908082106001600160401b038311176109895761185f91604052828152600160208201818152845f52600760205260405f209251835551151591019060ff801983541691151516179055565b7fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee25f80a2005b6330cd747160e01b8152600490fd5b6101c081019081106001600160401b0382111761098957604052565b6001600160401b03811161098957604052565b606081019081106001600160401b0382111761098957604052565b90601f801991011681019081106001600160401b0382111761098957604052565b9291926001600160401b0382116109895760405191611928601f8201601f1916602001846118de565b829481845281830111610438578281602093845f960137010152565b9080601f830112156104385781602061195f933591016118ff565b90565b906101c09182820181518352602060018060a01b0360208401511660208501526040830151604085015260608301519163ffffffff80931660608601526080840151608086015260a08401519560a0860152855180915260206101e086019601915f5b828110611a42575050505060c08201516003811015610b9e5760c084015260e082015160e084015261010080830151908401526101208083015190840152610140908183015116908301526101608082015115159083015261018080820151906001600160401b03809216908401526101a0809201511691015290565b8351885296810196928101926001016119c5565b600435906001600160a01b038216820361043857565b6020808201906020835283518092526040830192602060408460051b8301019501935f915b848310611aa15750505050505090565b9091929394958480611abf600193603f198682030187528a51611962565b9801930193019194939290611a91565b9181601f84011215610438578235916001600160401b038311610438576020808501948460051b01011161043857565b9181601f84011215610438578235916001600160401b038311610438576020838186019501011161043857565b5f1981146109375760010190565b6001600160401b0381116109895760051b60200190565b90611b5b82611b3a565b611b6860405191826118de565b8281528092611b79601f1991611b3a565b0190602036910137565b805115611b905760200190565b634e487b7160e01b5f52603260045260245ffd5b805160011015611b905760400190565b8051821015611b905760209160051b010190565b5190811515820361043857565b9091815f526020926008845260409060ff6002835f20015416611f2357835f5260088552815f2090825193611c09856118c3565b600285528336888701376003830154611c2186611b83565b52611c3b60049586850154611c3582611ba4565b5261210f565b600184015403611f1357855f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808852845f205415611f0357865f528752611c85845f20611f9b565b9082519182890192838a11611ef0578601809311611edd5785518451858b01948b939189918491611cb9818489018b612572565b8201908682015203848101845201611cd190836118de565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035488516378542ead60e01b815260608b8201529485936001600160a01b03909216928492839291611d279060648501906120dc565b906003199182858203016024860152611d3f91612593565b90838203016044840152611d5291612593565b03915a905f91f1908115611ed3575f91611e9e575b5015611e8e57857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2838280518101031261043857519063ffffffff82168092036104385783611db99101611bc8565b916002810160ff199060018282541617905560058201545f52600a8852845f206006810180549760ff8916906003821015611e7b5750600214611e6f576002600a937f811a848dea8f5f47ec7100a8ede055a29af0cec69e0d2468f13bb31ca2eeacc79916179055018054931515936001600160401b0360681b4260681b16908464ff00000000878c1b169174ffffffffffffffff0000000000000000ffffffffff1916171717905554958351928352820152a3565b50505050505050505050565b602190634e487b7160e01b5f525260245ffd5b5050505163cf6c44e960e01b8152fd5b90508781813d8311611ecc575b611eb581836118de565b8101031261043857611ec690611bc8565b5f611d67565b503d611eab565b85513d5f823e3d90fd5b601187634e487b7160e01b5f525260245ffd5b601188634e487b7160e01b5f525260245ffd5b845163d66ca67560e01b81528690fd5b505050516313b304fb60e21b8152fd5b815163dbde098160e01b8152600490fd5b60405190611f4182611894565b5f6101a083828152826020820152826040820152826060820152826080820152606060a08201528260c08201528260e082015282610100820152826101208201528261014082015282610160820152826101808201520152565b90604051918281549182825260209260208301915f5260205f20935f905b828210611fd157505050611fcf925003836118de565b565b855484526001958601958895509381019390910190611fb9565b90611ff582611b3a565b61200260405191826118de565b8281528092612013601f1991611b3a565b01905f5b82811061202357505050565b60209061202e611f34565b82828501015201612017565b9190820180921161093757565b8054821015611b90575f5260205f2001905f90565b9190811015611b905760051b81013590601e19813603018212156104385701908135916001600160401b038311610438576020018260051b36038113610438579190565b9190811015611b905760051b0190565b80516020809201915f5b8281106120c8575050505090565b8351855293810193928101926001016120ba565b9081518082526020808093019301915f5b8281106120fb575050505090565b8351855293810193928101926001016120ed565b6040516121408161212c60208201946040865260608301906120dc565b30604083015203601f1981018352826118de565b51902090565b9190820391821161093757565b8082101561218d5760648311612184575b8261216f8383612146565b101561217f5761195f9250612146565b505090565b60649250612164565b5050505f90565b1561219b57565b60405162461bcd60e51b815260206004820152601960248201527f4648452076616c7565206e6f7420696e697469616c697a6564000000000000006044820152606490fd5b91905f60a052825f52602060c052600a60c051526040805f2091815190612206826118c3565b6002825260c051820195833688376008850194855461222485611b83565b526009810195865461223586611ba4565b5261223f8561210f565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080546080525f805160206127df83398151915254919a6001600160a01b039790928816803b15610438575f8a518092637d6e912360e11b825260c05160048301528183816122b160248201896120dc565b03925af1801561256857612555575b50877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15612543578951633263b83b60e01b8152608051600482015260606024820152908161231660648201856120dc565b63124bd04b60e01b604483015260a051929082900390829084905af180156125495761252d575b5060805160a051527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060c051528960a051205461251c5760805160a0515260c051528860a051209051906001600160401b039384831161250457600160401b83116125045781548383558084106124d8575b509060a0515260c05160a0512060a0515b8381106124c357505050506123d68154611b2c565b90556080519960028401988954935490549089519460c086019486861090861117610989576005948b52855260c051850192835261245f8a860160a0518152606087019283526080870193845260a087019489865260805160a05152600860c051528c60a0512097518855516001880155511515600287019060ff801983541691151516179055565b516003850155516004840155519101556007608051910155600c60c051528360a05120551660a05152600560c05152429060a0512055546080517faf1844de545ca3f365a35616e4f30b8a134518bd97b93c22db2f2819d877871e60a05160a051a3565b60019083519360c051019381840155016123c1565b8260a0515260c05160a05120908482015b81830181106124f95750506123b0565b5f81556001016124e9565b634e487b7160e01b60a051526041600452602460a051fd5b8951633f06d22b60e01b8152600490fd5b612536906118b0565b60a051612543575f61233d565b60a05180fd5b8a513d60a051823e3d90fd5b61255e906118b0565b5f60a0525f6122c0565b8a513d5f823e3d90fd5b5f5b8381106125835750505f910152565b8181015183820152602001612574565b906020916125ac81518092818552858086019101612572565b601f01601f1916010190565b5f805160206127bf8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290612610906084830190612593565b6004606483015203925af190811561042d575f91612684575b5080925f805160206127df8339815191525416803b1561043857604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af1801561042d5761267b5750565b611fcf906118b0565b90506020813d6020116126ae575b8161269f602093836118de565b8101031261043857515f612629565b3d9150612692565b5f805160206127bf8339815191525460405163196d0b9b60e01b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061270e906084830190612593565b82606483015203925af190811561042d575f91612684575080925f805160206127df8339815191525416803b1561043857604051630f8e573b60e21b815260048101929092523360248301525f9082908183816044810161266a565b5f805160206127df833981519152546001600160a01b031691823b1561043857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f9082908183816044810161266a56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type TheoremProverFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: TheoremProverFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class TheoremProverFHE__factory extends ContractFactory {
+  constructor(...args: TheoremProverFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      TheoremProverFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): TheoremProverFHE__factory {
+    return super.connect(runner) as TheoremProverFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): TheoremProverFHEInterface {
+    return new Interface(_abi) as TheoremProverFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): TheoremProverFHE {
+    return new Contract(address, _abi, runner) as unknown as TheoremProverFHE;
+  }
+}
@@ -2,4 +2,5 @@
 /* tslint:disable */
 /* eslint-disable */
 export { AudioGuideFHE__factory } from "./AudioGuideFHE__factory";
+export { TheoremProverFHE__factory } from "./TheoremProverFHE__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
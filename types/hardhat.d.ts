@@ -49,6 +49,10 @@ declare module "hardhat/types/runtime" {
       name: "AudioGuideFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.AudioGuideFHE__factory>;
+    getContractFactory(
+      name: "TheoremProverFHE",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.TheoremProverFHE__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -99,6 +103,11 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.AudioGuideFHE>;
+    getContractAt(
+      name: "TheoremProverFHE",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.TheoremProverFHE>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -141,6 +150,10 @@ declare module "hardhat/types/runtime" {
       name: "AudioGuideFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.AudioGuideFHE>;
+    deployContract(
+      name: "TheoremProverFHE",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.TheoremProverFHE>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -191,6 +204,11 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.AudioGuideFHE>;
+    deployContract(
+      name: "TheoremProverFHE",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.TheoremProverFHE>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -24,5 +24,7 @@ export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifi
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
 export type { AudioGuideFHE } from "./contracts/AudioGuideFHE";
 export { AudioGuideFHE__factory } from "./factories/contracts/AudioGuideFHE__factory";
+export type { TheoremProverFHE } from "./contracts/TheoremProverFHE";
+export { TheoremProverFHE__factory } from "./factories/contracts/TheoremProverFHE__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";